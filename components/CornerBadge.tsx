@@ -7,6 +7,7 @@ interface CornerBadgeProps {
   rotation?: number;
   isSelected?: boolean;
   isRemoveMode?: boolean;
+  isGhost?: boolean; // Suggested corner that has not been accepted yet
   onClick?: () => void;
   scale?: number; // Scale percentage (100 = 100%)
 }
@@ -32,6 +33,7 @@ export function CornerBadge({
   rotation = 0,
   isSelected = false,
   isRemoveMode = false,
+  isGhost = false,
   onClick,
   scale = 100,
 }: CornerBadgeProps) {
@@ -56,6 +58,7 @@ export function CornerBadge({
 
   return (
     <g
+      opacity={isGhost ? 0.5 : 1}
       style={{ cursor: onClick ? "pointer" : "default" }}
       transform={`translate(${x - scaledBadgeRadius}, ${y - scaledBadgeRadius}) scale(${scaledScaleFactor}) rotate(${rotation} 50 50)`}
       onClick={handleClick}
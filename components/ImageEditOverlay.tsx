@@ -0,0 +1,142 @@
+"use client";
+
+import { BackgroundImageTransform, Point, Viewport } from "@/types/spline";
+
+interface ImageEditOverlayProps {
+  mode: "move" | "calibrate";
+  viewport: Viewport;
+  width: number; // Canvas size in screen px
+  height: number;
+  transform: BackgroundImageTransform;
+  calibrationPoints: Point[];
+  onCalibrationClick: (point: Point) => void;
+  onTransformChange: (transform: BackgroundImageTransform) => void;
+  // One move of the image, so history can group its steps
+  onDragStart?: (gestureId: string) => void;
+  onDragEnd?: (gestureId: string) => void;
+}
+
+const MARKER_RADIUS = 8; // Screen px
+const COLOR = "#ff00ff";
+const DRAG_GESTURE = "image-move";
+
+function getSvgPoint(svg: SVGSVGElement, clientX: number, clientY: number) {
+  const pt = svg.createSVGPoint();
+  pt.x = clientX;
+  pt.y = clientY;
+  const svgP = pt.matrixTransform(svg.getScreenCTM()?.inverse());
+  return { x: svgP.x, y: svgP.y };
+}
+
+/**
+ * Catches the mouse over the whole canvas while the background image is
+ * being moved or calibrated, so the track underneath is not edited
+ */
+export function ImageEditOverlay({
+  mode,
+  viewport,
+  width,
+  height,
+  transform,
+  calibrationPoints,
+  onCalibrationClick,
+  onTransformChange,
+  onDragStart,
+  onDragEnd,
+}: ImageEditOverlayProps) {
+  const markerRadius = MARKER_RADIUS / viewport.zoom;
+  const [first, second] = calibrationPoints;
+
+  const handleMouseDown = (e: React.MouseEvent<SVGRectElement>) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+
+    const svg = e.currentTarget.ownerSVGElement;
+    if (!svg) return;
+    const start = getSvgPoint(svg, e.clientX, e.clientY);
+
+    if (mode === "calibrate") {
+      onCalibrationClick(start);
+      return;
+    }
+
+    const startTransform = transform;
+    onDragStart?.(DRAG_GESTURE);
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const point = getSvgPoint(svg, moveEvent.clientX, moveEvent.clientY);
+      onTransformChange({
+        ...startTransform,
+        x: startTransform.x + point.x - start.x,
+        y: startTransform.y + point.y - start.y,
+      });
+    };
+
+    const handleMouseUp = () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+      onDragEnd?.(DRAG_GESTURE);
+    };
+
+    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+  };
+
+  return (
+    <g>
+      <rect
+        fill="transparent"
+        height={height / viewport.zoom}
+        style={{ cursor: mode === "move" ? "move" : "crosshair" }}
+        width={width / viewport.zoom}
+        x={viewport.x}
+        y={viewport.y}
+        onClick={(e) => e.stopPropagation()}
+        onMouseDown={handleMouseDown}
+      />
+
+      {/* Calibration points and the distance between them */}
+      <g pointerEvents="none">
+        {first && second && (
+          <line
+            stroke={COLOR}
+            strokeDasharray={`${6 / viewport.zoom} ${4 / viewport.zoom}`}
+            strokeWidth={2 / viewport.zoom}
+            x1={first.x}
+            x2={second.x}
+            y1={first.y}
+            y2={second.y}
+          />
+        )}
+        {calibrationPoints.map((point, index) => (
+          <g key={index}>
+            <circle
+              cx={point.x}
+              cy={point.y}
+              fill="none"
+              r={markerRadius}
+              stroke={COLOR}
+              strokeWidth={2 / viewport.zoom}
+            />
+            <line
+              stroke={COLOR}
+              strokeWidth={1 / viewport.zoom}
+              x1={point.x - markerRadius * 1.5}
+              x2={point.x + markerRadius * 1.5}
+              y1={point.y}
+              y2={point.y}
+            />
+            <line
+              stroke={COLOR}
+              strokeWidth={1 / viewport.zoom}
+              x1={point.x}
+              x2={point.x}
+              y1={point.y - markerRadius * 1.5}
+              y2={point.y + markerRadius * 1.5}
+            />
+          </g>
+        ))}
+      </g>
+    </g>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+interface IntersectionMarkerProps {
+  x: number;
+  y: number;
+  isCrossover?: boolean; // Crossing allowed by a crossover marker (bridge)
+  onClick?: () => void;
+  scale?: number; // Scale percentage (100 = 100%)
+}
+
+// Constants for marker sizing and styling
+const MARKER_RADIUS = 22;
+const MARKER_STROKE_WIDTH = 4;
+
+const COLORS = {
+  ERROR: "#ff4444",
+  CROSSOVER: "#4a9eff",
+  BACKGROUND: "rgba(0, 0, 0, 0.6)",
+  WHITE: "white",
+} as const;
+
+export function IntersectionMarker({
+  x,
+  y,
+  isCrossover = false,
+  onClick,
+  scale = 100,
+}: IntersectionMarkerProps) {
+  const scaleFactor = scale / 100;
+  const color = isCrossover ? COLORS.CROSSOVER : COLORS.ERROR;
+  const arm = MARKER_RADIUS * 0.45;
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (onClick) {
+      e.stopPropagation();
+      onClick();
+    }
+  };
+
+  return (
+    <g
+      style={{ cursor: onClick ? "pointer" : "default" }}
+      transform={`translate(${x}, ${y}) scale(${scaleFactor})`}
+      onClick={handleClick}
+      onMouseDown={(e) => onClick && e.stopPropagation()}
+    >
+      <title>
+        {isCrossover
+          ? "Crossover - click to remove"
+          : "Track crosses itself - click to allow as a crossover"}
+      </title>
+
+      <circle
+        fill={COLORS.BACKGROUND}
+        r={MARKER_RADIUS}
+        stroke={color}
+        strokeWidth={MARKER_STROKE_WIDTH}
+      />
+
+      {isCrossover ? (
+        // Bridge: two parallel deck lines
+        <g stroke={COLORS.WHITE} strokeWidth={MARKER_STROKE_WIDTH}>
+          <line x1={-arm} x2={arm} y1={-arm / 2} y2={-arm / 2} />
+          <line x1={-arm} x2={arm} y1={arm / 2} y2={arm / 2} />
+        </g>
+      ) : (
+        // Cross where the track overlaps
+        <g
+          stroke={COLORS.WHITE}
+          strokeLinecap="round"
+          strokeWidth={MARKER_STROKE_WIDTH}
+        >
+          <line x1={-arm} x2={arm} y1={-arm} y2={arm} />
+          <line x1={-arm} x2={arm} y1={arm} y2={-arm} />
+        </g>
+      )}
+    </g>
+  );
+}
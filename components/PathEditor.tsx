@@ -17,10 +17,14 @@ interface PathEditorProps {
     x: number,
     y: number,
   ) => void;
+  // One drag of a point or handle, so history can group its moves
+  onDragStart?: (gestureId: string) => void;
+  onDragEnd?: (gestureId: string) => void;
   onPathClick: () => void;
   onPointClick: (index: number) => void;
   onPathClickWithCoords?: (x: number, y: number) => void;
   toolMode?: "select" | "add" | "remove";
+  zoom?: number; // Canvas zoom - controls keep the same size on screen
 }
 
 export function PathEditor({
@@ -32,12 +36,16 @@ export function PathEditor({
   selectedPointIndex,
   onPointDrag,
   onHandleDrag,
+  onDragStart,
+  onDragEnd,
   onPathClick,
   onPointClick,
   onPathClickWithCoords,
   toolMode = "select",
+  zoom = 1,
 }: PathEditorProps) {
   const pathData = bezierToSvgPath(points, closed);
+  const handleDash = `${4 / zoom} ${2 / zoom}`;
 
   return (
     <g>
@@ -48,7 +56,7 @@ export function PathEditor({
         stroke="transparent"
         strokeLinecap="round"
         strokeLinejoin="round"
-        strokeWidth={30}
+        strokeWidth={30 / zoom}
         style={{ cursor: toolMode === "add" ? "crosshair" : "pointer" }}
         onClick={(e) => {
           // Only allow adding points in add mode
@@ -76,8 +84,8 @@ export function PathEditor({
               {isPointSelected && point.handleIn && (
                 <line
                   stroke="#4299e1"
-                  strokeDasharray="4 2"
-                  strokeWidth={1}
+                  strokeDasharray={handleDash}
+                  strokeWidth={1 / zoom}
                   x1={point.x}
                   x2={point.handleIn.x}
                   y1={point.y}
@@ -87,8 +95,8 @@ export function PathEditor({
               {isPointSelected && point.handleOut && (
                 <line
                   stroke="#4299e1"
-                  strokeDasharray="4 2"
-                  strokeWidth={1}
+                  strokeDasharray={handleDash}
+                  strokeWidth={1 / zoom}
                   x1={point.x}
                   x2={point.handleOut.x}
                   y1={point.y}
@@ -102,12 +110,15 @@ export function PathEditor({
                   cx={point.handleIn.x}
                   cy={point.handleIn.y}
                   fill="#4299e1"
-                  r={4}
+                  r={4 / zoom}
                   stroke="white"
-                  strokeWidth={2}
+                  strokeWidth={2 / zoom}
                   style={{ cursor: "move" }}
                   onMouseDown={(e) => {
                     e.stopPropagation();
+                    const gestureId = `handle-in-${index}`;
+                    onDragStart?.(gestureId);
+
                     const handleMouseMove = (moveEvent: MouseEvent) => {
                       const svg = (e.target as SVGElement).ownerSVGElement;
                       if (!svg) return;
@@ -128,6 +139,7 @@ export function PathEditor({
                         handleMouseMove,
                       );
                       document.removeEventListener("mouseup", handleMouseUp);
+                      onDragEnd?.(gestureId);
                     };
 
                     document.addEventListener("mousemove", handleMouseMove);
@@ -142,12 +154,15 @@ export function PathEditor({
                   cx={point.handleOut.x}
                   cy={point.handleOut.y}
                   fill="#4299e1"
-                  r={4}
+                  r={4 / zoom}
                   stroke="white"
-                  strokeWidth={2}
+                  strokeWidth={2 / zoom}
                   style={{ cursor: "move" }}
                   onMouseDown={(e) => {
                     e.stopPropagation();
+                    const gestureId = `handle-out-${index}`;
+                    onDragStart?.(gestureId);
+
                     const handleMouseMove = (moveEvent: MouseEvent) => {
                       const svg = (e.target as SVGElement).ownerSVGElement;
                       if (!svg) return;
@@ -168,6 +183,7 @@ export function PathEditor({
                         handleMouseMove,
                       );
                       document.removeEventListener("mouseup", handleMouseUp);
+                      onDragEnd?.(gestureId);
                     };
 
                     document.addEventListener("mousemove", handleMouseMove);
@@ -181,9 +197,9 @@ export function PathEditor({
                 cx={point.x}
                 cy={point.y}
                 fill={toolMode === "remove" ? "#ff4444" : "white"}
-                r={6}
+                r={6 / zoom}
                 stroke={toolMode === "remove" ? "#cc0000" : color}
-                strokeWidth={2}
+                strokeWidth={2 / zoom}
                 style={{
                   cursor:
                     toolMode === "select"
@@ -201,6 +217,9 @@ export function PathEditor({
                   // Only allow dragging in select mode
                   if (toolMode !== "select") return;
 
+                  const gestureId = `point-${index}`;
+                  onDragStart?.(gestureId);
+
                   const handleMouseMove = (moveEvent: MouseEvent) => {
                     const svg = (e.target as SVGElement).ownerSVGElement;
                     if (!svg) return;
@@ -218,6 +237,7 @@ export function PathEditor({
                   const handleMouseUp = () => {
                     document.removeEventListener("mousemove", handleMouseMove);
                     document.removeEventListener("mouseup", handleMouseUp);
+                    onDragEnd?.(gestureId);
                   };
 
                   document.addEventListener("mousemove", handleMouseMove);
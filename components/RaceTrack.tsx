@@ -1,25 +1,48 @@
 "use client";
 
-import { useMemo } from "react";
+import { useCallback, useMemo } from "react";
 
-import { BezierPoint, Corner, Space } from "@/types/spline";
+import {
+  BezierPoint,
+  CarPosition,
+  Corner,
+  CornerGroup,
+  LegendLine,
+  RoadCondition,
+  Space,
+  TrackBranch,
+  TrackOverpass,
+  TrackWidthPoint,
+} from "@/types/spline";
 import {
   calculateChainArcLength,
   calculateChainTangent,
   evaluateChainAtT,
+  findChainIntersections,
+  findDistanceForT,
   findTForDistance,
   pointsToBezierSegments,
 } from "@/utils/bezierChain";
+import { isSectorCondition } from "@/utils/gameRules";
 import { bezierToSvgPath } from "@/utils/pathUtils";
+import {
+  getGroupCornersInOrder,
+  getOverpass,
+  getTrackWidthAt,
+} from "@/utils/trackUtils";
 
 import { CornerBadge } from "./CornerBadge";
 import { CountdownBadge } from "./CountdownBadge";
+import { LegendsBadge } from "./LegendsBadge";
+import { RoadConditionBadge } from "./RoadConditionBadge";
 
 const BASE_TRACK_WIDTH = 100;
 const BASE_STROKE_WIDTH = 3;
 const SAMPLES_PER_CURVE = 100;
 const BASE_FLAG_SIZE = 30;
 const BASE_COUNTDOWN_TEXT_FONT_SIZE = 20;
+const BASE_CORNER_BADGE_SIZE = 75; // Matches CornerBadge
+const BASE_ROAD_CONDITION_SIZE = 30; // Matches RoadConditionBadge
 
 // Corner and metadata graphics configuration
 // const BASE_CIRCLE_RADIUS = 20; // Visual circle radius for both corners and metadata
@@ -28,9 +51,20 @@ const BASE_COUNTDOWN_TEXT_FONT_SIZE = 20;
 const CORNER_OPACITY = 0.6;
 const CORNER_COLOR = "#4a9eff";
 const CORNER_DEFAULT_STROKE = "#4a9eff";
+const LEGEND_COLOR = "#d39013";
 
 const METADATA_SELECTED_COLOR = "#009700ff";
 
+// Play-test car token colors, assigned by placement order
+const CAR_COLORS = [
+  "#e53e3e",
+  "#3182ce",
+  "#38a169",
+  "#d69e2e",
+  "#805ad5",
+  "#dd6b20",
+];
+
 interface RaceTrackProps {
   points: BezierPoint[];
   segments: number;
@@ -43,14 +77,38 @@ interface RaceTrackProps {
   scale?: number; // Scale percentage (100 = 100%)
   trackColor?: string;
   countdownTextColor?: string;
-  editingMode?: "spline" | "corners" | "metadata" | "appearance";
-  cornerToolMode?: "select" | "add" | "remove";
+  editingMode?: "spline" | "corners" | "metadata" | "appearance" | "playtest";
+  cornerToolMode?: "select" | "add" | "legend" | "remove";
   onSpaceClick?: (spaceIndex: number) => void;
   selectedCorner?: string | null;
+  selectedSpace?: string | null;
   onStartFinishClick?: (spaceIndex: number) => void;
   onCornerClick?: (cornerId: string) => void;
   onCornerSpaceClick?: (spaceIndex: number) => void;
   onTrackClickWithCoords?: (x: number, y: number) => void;
+  // Play-test props
+  cars?: CarPosition[];
+  selectedCarId?: string | null;
+  onSpotClick?: (spaceIndex: number, spotIndex: number) => void;
+  onCarClick?: (carId: string) => void;
+  // Auto-suggested corners shown as ghost badges until accepted
+  suggestedCorners?: Corner[];
+  onSuggestedCornerClick?: (cornerId: string) => void;
+  // Pit lanes and alternative routes, drawn beneath the main track
+  branches?: TrackBranch[];
+  // Width control points along the lap, full width when empty
+  widthPoints?: TrackWidthPoint[];
+  // Legends mode markers, selected through their corner
+  legendLines?: LegendLine[];
+  onLegendClick?: (cornerId: string) => void;
+  onLegendSpaceClick?: (spaceIndex: number) => void;
+  // Road condition tokens on corners and the sectors leading into them
+  roadConditions?: RoadCondition[];
+  onRoadConditionClick?: (conditionId: string) => void;
+  // Linked corners, drawn as paired badges with a shared countdown
+  cornerGroups?: CornerGroup[];
+  // Bridges and tunnels where the track crosses itself
+  overpasses?: TrackOverpass[];
 }
 
 type Vec2 = {
@@ -96,11 +154,57 @@ interface CornerVisual {
   rotation: number;
 }
 
+interface LegendVisual {
+  legendLine: LegendLine;
+  line: SegmentLine;
+  badge: Vec2;
+  rotation: number;
+  diamond: Vec2[]; // Corners of the diamond space marker
+}
+
+interface RoadConditionVisual {
+  condition: RoadCondition;
+  position: Vec2;
+  rotation: number;
+}
+
+interface CornerGroupVisual {
+  group: CornerGroup;
+  d: string; // Rail linking the group's badges
+}
+
+interface OverpassVisual {
+  key: string;
+  shadowPath: string;
+  deckPath: string; // Upper section redrawn over the crossing
+  upperEdges: string[];
+  upperCenterPath: string;
+  upperLines: SegmentLine[];
+  lowerEdges: string[]; // Lower section's edges, dashed through the deck
+  lowerSpaces: number[]; // Spaces of the lower section under the deck
+}
+
 interface CornerCheckeredLine {
   corner: Corner;
   segments: CheckerSegment[];
 }
 
+interface BranchSpaceVisual {
+  position: Vec2;
+  tangent: Vec2;
+  spots: Vec2[]; // In Spot.spotIndex order
+}
+
+interface BranchVisual {
+  branch: TrackBranch;
+  fillPath: string;
+  outerLeftPath: string;
+  outerRightPath: string;
+  centerPath: string;
+  lines: SegmentLine[];
+  spaces: BranchSpaceVisual[];
+}
+
 const evaluateCubicBezier = (
   p0: Vec2,
   cp1: Vec2,
@@ -178,10 +282,13 @@ const createPathString = (points: Vec2[], close = false): string => {
   return close ? `${path} Z` : path;
 };
 
+// Offset from the centerline, fixed or varying along the path
+type OffsetProfile = number | ((pathFraction: number) => number);
+
 const sampleOffsetPoints = (
   points: BezierPoint[],
   closed: boolean,
-  offset: number
+  offset: OffsetProfile
 ): Vec2[] => {
   const numCurves = closed ? points.length : points.length - 1;
 
@@ -189,7 +296,7 @@ const sampleOffsetPoints = (
     return [];
   }
 
-  const sampled: Vec2[] = [];
+  const samples: { point: Vec2; perp: Vec2 | null }[] = [];
 
   for (let i = 0; i < numCurves; i++) {
     const current = points[i];
@@ -210,26 +317,43 @@ const sampleOffsetPoints = (
       const tangent = evaluateCubicBezierTangent(current, cp1, cp2, next, t);
       const normal = normalizeVector(tangent);
 
-      if (!normal) {
-        sampled.push(point);
-        continue;
-      }
-
-      const perp = perpendicular(normal);
-      sampled.push({
-        x: point.x + perp.x * offset,
-        y: point.y + perp.y * offset,
-      });
+      samples.push({ point, perp: normal ? perpendicular(normal) : null });
     }
   }
 
-  return sampled;
+  // A varying offset is looked up by how far along the path each sample is
+  let pathLength = 0;
+  const distances = samples.map((sample, index) => {
+    const previous = samples[index - 1];
+    if (previous) {
+      pathLength += Math.hypot(
+        sample.point.x - previous.point.x,
+        sample.point.y - previous.point.y
+      );
+    }
+    return pathLength;
+  });
+
+  return samples.map(({ point, perp }, index) => {
+    if (!perp) {
+      return point;
+    }
+
+    const distance =
+      typeof offset === "number"
+        ? offset
+        : offset(pathLength > 0 ? (distances[index] ?? 0) / pathLength : 0);
+    return {
+      x: point.x + perp.x * distance,
+      y: point.y + perp.y * distance,
+    };
+  });
 };
 
 const buildOffsetPath = (
   points: BezierPoint[],
   closed: boolean,
-  offset: number
+  offset: OffsetProfile
 ): string => {
   const sampledPoints = sampleOffsetPoints(points, closed, offset);
   if (sampledPoints.length === 0) {
@@ -242,10 +366,16 @@ const buildOffsetPath = (
 const buildTrackFillPath = (
   points: BezierPoint[],
   closed: boolean,
-  halfTrackWidth: number
+  halfTrackWidth: OffsetProfile
 ): string => {
   const leftPoints = sampleOffsetPoints(points, closed, halfTrackWidth);
-  const rightPoints = sampleOffsetPoints(points, closed, -halfTrackWidth);
+  const rightPoints = sampleOffsetPoints(
+    points,
+    closed,
+    typeof halfTrackWidth === "number"
+      ? -halfTrackWidth
+      : (pathFraction) => -halfTrackWidth(pathFraction)
+  );
 
   if (!leftPoints.length || !rightPoints.length) {
     return "";
@@ -285,7 +415,7 @@ const buildInnerSidePaths = (
   segmentArcLength: number,
   totalArcLength: number,
   spacesCount: number,
-  halfTrackWidth: number,
+  halfWidthAt: (distance: number) => number,
   baseStrokeWidth: number
 ): InnerSidePath[] => {
   if (
@@ -335,6 +465,7 @@ const buildInnerSidePaths = (
       }
 
       const perp = perpendicular(normal);
+      const halfTrackWidth = halfWidthAt(targetDistance);
       // Offset outward by half the stroke width (baseStrokeWidth)
       const offset =
         segment.side === "left"
@@ -458,12 +589,59 @@ const buildSpacePositions = (
   return positions;
 };
 
+const buildSpotPositions = (
+  spaces: Space[],
+  bezierSegments: ReturnType<typeof pointsToBezierSegments>,
+  segmentArcLength: number,
+  insetWidthAt: (distance: number) => number
+): Map<number, Vec2[]> => {
+  const positions = new Map<number, Vec2[]>();
+
+  if (bezierSegments.length === 0 || segmentArcLength === 0) {
+    return positions;
+  }
+
+  spaces.forEach((space) => {
+    const targetDistance = space.index * segmentArcLength;
+    const { segmentIndex, t } = findTForDistance(
+      bezierSegments,
+      targetDistance
+    );
+    const centerPoint = evaluateChainAtT(bezierSegments, segmentIndex, t);
+    const tangent = calculateChainTangent(bezierSegments, segmentIndex, t);
+    const normal = normalizeVector(tangent);
+
+    if (!normal) {
+      return;
+    }
+
+    // Spread the spots evenly across the lanes, in Spot.spotIndex order
+    const perp = perpendicular(normal);
+    const spotCount = space.spots.length;
+    const laneWidth =
+      (insetWidthAt(targetDistance) * 2) / Math.max(spotCount, 1);
+    const spotPositions = [...space.spots]
+      .sort((a, b) => a.spotIndex - b.spotIndex)
+      .map((spot) => {
+        const offset = (spot.spotIndex - (spotCount - 1) / 2) * laneWidth;
+        return {
+          x: centerPoint.x + perp.x * offset,
+          y: centerPoint.y + perp.y * offset,
+        };
+      });
+
+    positions.set(space.index, spotPositions);
+  });
+
+  return positions;
+};
+
 const computeSegmentLines = (
   closed: boolean,
   segments: number,
   bezierSegments: ReturnType<typeof pointsToBezierSegments>,
   segmentArcLength: number,
-  halfTrackWidth: number,
+  halfWidthAt: (distance: number) => number,
   baseStrokeWidth: number
 ): SegmentLine[] => {
   if (
@@ -476,7 +654,6 @@ const computeSegmentLines = (
   }
 
   const lines: SegmentLine[] = [];
-  const insetWidth = halfTrackWidth - baseStrokeWidth * 2;
 
   for (
     let segmentIndexValue = 0;
@@ -497,6 +674,7 @@ const computeSegmentLines = (
     }
 
     const perp = perpendicular(normal);
+    const insetWidth = halfWidthAt(targetDistance) - baseStrokeWidth * 2;
     lines.push({
       x1: centerPoint.x + perp.x * insetWidth,
       y1: centerPoint.y + perp.y * insetWidth,
@@ -514,8 +692,8 @@ const computeCornerVisuals = (
   spaces: Space[],
   bezierSegments: ReturnType<typeof pointsToBezierSegments>,
   segmentArcLength: number,
-  halfTrackWidth: number,
-  flagOffset: number,
+  halfWidthAt: (distance: number) => number,
+  flagGap: number,
   baseStrokeWidth: number
 ): CornerVisual[] => {
   if (
@@ -548,6 +726,8 @@ const computeCornerVisuals = (
     }
 
     const perp = perpendicular(normal);
+    const halfTrackWidth = halfWidthAt(targetDistance);
+    const flagOffset = halfTrackWidth + flagGap;
     const badgeOffset = corner.badgeSide === "left" ? -1 : 1;
 
     // Corner lines extend from the badge across the entire track to the opposite outer edge
@@ -581,6 +761,464 @@ const computeCornerVisuals = (
   }, []);
 };
 
+const computeLegendVisuals = (
+  closed: boolean,
+  legendLines: LegendLine[],
+  corners: Corner[],
+  bezierSegments: ReturnType<typeof pointsToBezierSegments>,
+  segmentArcLength: number,
+  halfWidthAt: (distance: number) => number,
+  flagGap: number,
+  baseStrokeWidth: number
+): LegendVisual[] => {
+  if (
+    !closed ||
+    legendLines.length === 0 ||
+    bezierSegments.length === 0 ||
+    segmentArcLength === 0
+  ) {
+    return [];
+  }
+
+  const getFrame = (targetDistance: number) => {
+    const { segmentIndex, t } = findTForDistance(
+      bezierSegments,
+      targetDistance
+    );
+    const tangent = calculateChainTangent(bezierSegments, segmentIndex, t);
+    const normal = normalizeVector(tangent);
+    return normal
+      ? {
+          centerPoint: evaluateChainAtT(bezierSegments, segmentIndex, t),
+          tangent,
+          normal,
+          perp: perpendicular(normal),
+        }
+      : null;
+  };
+
+  return legendLines.reduce<LegendVisual[]>((visuals, legendLine) => {
+    const corner = corners.find((c) => c.id === legendLine.cornerId);
+    const targetDistance = (legendLine.spaceIndex + 0.5) * segmentArcLength;
+    const lineFrame = getFrame(targetDistance);
+    const diamondFrame = getFrame(
+      legendLine.diamondSpaceIndex * segmentArcLength
+    );
+
+    if (!corner || !lineFrame || !diamondFrame) {
+      return visuals;
+    }
+
+    // Line across the track, badge beside it on the corner's badge side
+    const { centerPoint, tangent, perp } = lineFrame;
+    const halfTrackWidth = halfWidthAt(targetDistance);
+    const insetWidth = halfTrackWidth - baseStrokeWidth * 2;
+    const badgeDistance =
+      (corner.badgeSide === "left" ? -1 : 1) * (halfTrackWidth + flagGap);
+
+    let rotation = Math.atan2(tangent.y, tangent.x) * (180 / Math.PI);
+    if (corner.badgeSide === "right") {
+      rotation += 180;
+    }
+
+    const diamondSize = baseStrokeWidth * 4;
+    const diamondCenter = diamondFrame.centerPoint;
+    const diamond = [
+      diamondFrame.normal,
+      diamondFrame.perp,
+      { x: -diamondFrame.normal.x, y: -diamondFrame.normal.y },
+      { x: -diamondFrame.perp.x, y: -diamondFrame.perp.y },
+    ].map((direction) => ({
+      x: diamondCenter.x + direction.x * diamondSize,
+      y: diamondCenter.y + direction.y * diamondSize,
+    }));
+
+    visuals.push({
+      legendLine,
+      line: {
+        x1: centerPoint.x + perp.x * insetWidth,
+        y1: centerPoint.y + perp.y * insetWidth,
+        x2: centerPoint.x - perp.x * insetWidth,
+        y2: centerPoint.y - perp.y * insetWidth,
+      },
+      badge: {
+        x: centerPoint.x + perp.x * badgeDistance,
+        y: centerPoint.y + perp.y * badgeDistance,
+      },
+      rotation,
+      diamond,
+    });
+    return visuals;
+  }, []);
+};
+
+const computeRoadConditionVisuals = (
+  closed: boolean,
+  roadConditions: RoadCondition[],
+  corners: Corner[],
+  raceDirection: boolean,
+  bezierSegments: ReturnType<typeof pointsToBezierSegments>,
+  segmentArcLength: number,
+  segments: number,
+  halfWidthAt: (distance: number) => number,
+  flagGap: number,
+  cornerBadgeSize: number,
+  tokenSize: number
+): RoadConditionVisual[] => {
+  if (
+    !closed ||
+    roadConditions.length === 0 ||
+    bezierSegments.length === 0 ||
+    segmentArcLength === 0
+  ) {
+    return [];
+  }
+
+  const step = raceDirection ? 1 : -1;
+  const totalLength = segments * segmentArcLength;
+  const visuals: RoadConditionVisual[] = [];
+
+  corners.forEach((corner) => {
+    const tokens = roadConditions.filter(
+      (condition) => condition.cornerId === corner.id
+    );
+    if (tokens.length === 0) {
+      return;
+    }
+
+    // Sectors run from the previous corner in race order to this one
+    const linesSincePrevious = corners.reduce((closest, other) => {
+      const lines =
+        ((((corner.spaceIndex - other.spaceIndex) * step) % segments) +
+          segments) %
+        segments;
+      return lines > 0 ? Math.min(closest, lines) : closest;
+    }, segments);
+
+    const placeTokens = (
+      group: RoadCondition[],
+      lineIndex: number,
+      alongOffset: (index: number) => number
+    ) => {
+      const targetDistance =
+        ((((lineIndex + 0.5) * segmentArcLength) % totalLength) + totalLength) %
+        totalLength;
+      const { segmentIndex, t } = findTForDistance(
+        bezierSegments,
+        targetDistance
+      );
+      const centerPoint = evaluateChainAtT(bezierSegments, segmentIndex, t);
+      const tangent = calculateChainTangent(bezierSegments, segmentIndex, t);
+      const normal = normalizeVector(tangent);
+
+      if (!normal) {
+        return;
+      }
+
+      const perp = perpendicular(normal);
+      const sideDistance =
+        (corner.badgeSide === "left" ? -1 : 1) *
+        (halfWidthAt(targetDistance) + flagGap);
+      let rotation = Math.atan2(tangent.y, tangent.x) * (180 / Math.PI);
+      if (corner.badgeSide === "right") {
+        rotation += 180;
+      }
+
+      // Stack the tokens along the track, upstream of the position
+      group.forEach((condition, index) => {
+        const along = -step * alongOffset(index);
+        visuals.push({
+          condition,
+          position: {
+            x: centerPoint.x + perp.x * sideDistance + normal.x * along,
+            y: centerPoint.y + perp.y * sideDistance + normal.y * along,
+          },
+          rotation,
+        });
+      });
+    };
+
+    // Corner tokens beside the corner badge
+    placeTokens(
+      tokens.filter((condition) => !isSectorCondition(condition.kind)),
+      corner.spaceIndex,
+      (index) => cornerBadgeSize / 2 + tokenSize * (index + 0.6)
+    );
+
+    // Sector tokens halfway along the sector, centred on its midpoint
+    const sectorTokens = tokens.filter((condition) =>
+      isSectorCondition(condition.kind)
+    );
+    placeTokens(
+      sectorTokens,
+      corner.spaceIndex - (step * linesSincePrevious) / 2,
+      (index) => tokenSize * 1.1 * (index - (sectorTokens.length - 1) / 2)
+    );
+  });
+
+  return visuals;
+};
+
+const computeCornerGroupVisuals = (
+  closed: boolean,
+  cornerGroups: CornerGroup[],
+  corners: Corner[],
+  raceDirection: boolean,
+  bezierSegments: ReturnType<typeof pointsToBezierSegments>,
+  segmentArcLength: number,
+  segments: number,
+  halfWidthAt: (distance: number) => number,
+  flagGap: number
+): CornerGroupVisual[] => {
+  if (
+    !closed ||
+    cornerGroups.length === 0 ||
+    bezierSegments.length === 0 ||
+    segmentArcLength === 0
+  ) {
+    return [];
+  }
+
+  const step = raceDirection ? 1 : -1;
+  const totalLength = segments * segmentArcLength;
+
+  return cornerGroups.reduce<CornerGroupVisual[]>((visuals, group) => {
+    const groupCorners = getGroupCornersInOrder(group, corners, segments, step);
+    const firstCorner = groupCorners[0];
+    const lastCorner = groupCorners[groupCorners.length - 1];
+    if (!firstCorner || !lastCorner || firstCorner === lastCorner) {
+      return visuals;
+    }
+
+    // Rail along the first corner's badge side, from badge to badge
+    const linesSpanned =
+      ((((lastCorner.spaceIndex - firstCorner.spaceIndex) * step) % segments) +
+        segments) %
+      segments;
+    const startDistance = (firstCorner.spaceIndex + 0.5) * segmentArcLength;
+    const side = firstCorner.badgeSide === "left" ? -1 : 1;
+    const numSamples = Math.max(linesSpanned * 20, 20);
+    const railPoints: Vec2[] = [];
+
+    for (let i = 0; i <= numSamples; i++) {
+      const targetDistance =
+        (((startDistance +
+          step * linesSpanned * segmentArcLength * (i / numSamples)) %
+          totalLength) +
+          totalLength) %
+        totalLength;
+      const { segmentIndex, t } = findTForDistance(
+        bezierSegments,
+        targetDistance
+      );
+      const centerPoint = evaluateChainAtT(bezierSegments, segmentIndex, t);
+      const tangent = calculateChainTangent(bezierSegments, segmentIndex, t);
+      const normal = normalizeVector(tangent);
+
+      if (!normal) {
+        continue;
+      }
+
+      const perp = perpendicular(normal);
+      const offset = side * (halfWidthAt(targetDistance) + flagGap);
+      railPoints.push({
+        x: centerPoint.x + perp.x * offset,
+        y: centerPoint.y + perp.y * offset,
+      });
+    }
+
+    if (railPoints.length >= 2) {
+      visuals.push({ group, d: createPathString(railPoints) });
+    }
+    return visuals;
+  }, []);
+};
+
+const computeOverpassVisuals = (
+  closed: boolean,
+  overpasses: TrackOverpass[],
+  bezierSegments: ReturnType<typeof pointsToBezierSegments>,
+  segmentArcLength: number,
+  segments: number,
+  halfWidthAt: (distance: number) => number,
+  baseStrokeWidth: number
+): OverpassVisual[] => {
+  if (
+    !closed ||
+    overpasses.length === 0 ||
+    bezierSegments.length === 0 ||
+    segmentArcLength === 0
+  ) {
+    return [];
+  }
+
+  const totalLength = segments * segmentArcLength;
+  const wrapDistance = (distance: number) =>
+    ((distance % totalLength) + totalLength) % totalLength;
+  const spaceAt = (distance: number) =>
+    Math.round(wrapDistance(distance) / segmentArcLength) % segments;
+
+  const getFrame = (distance: number) => {
+    const { segmentIndex, t } = findTForDistance(
+      bezierSegments,
+      wrapDistance(distance)
+    );
+    const normal = normalizeVector(
+      calculateChainTangent(bezierSegments, segmentIndex, t)
+    );
+    return normal
+      ? {
+          centerPoint: evaluateChainAtT(bezierSegments, segmentIndex, t),
+          perp: perpendicular(normal),
+        }
+      : null;
+  };
+
+  // Offset points along a stretch of the track centred on a distance
+  const sampleStretch = (
+    centerDistance: number,
+    halfLength: number,
+    offset: (distance: number) => number
+  ): Vec2[] => {
+    const numSamples = 40;
+    const points: Vec2[] = [];
+    for (let i = 0; i <= numSamples; i++) {
+      const distance =
+        centerDistance - halfLength + (2 * halfLength * i) / numSamples;
+      const frame = getFrame(distance);
+      if (!frame) {
+        continue;
+      }
+      const amount = offset(wrapDistance(distance));
+      points.push({
+        x: frame.centerPoint.x + frame.perp.x * amount,
+        y: frame.centerPoint.y + frame.perp.y * amount,
+      });
+    }
+    return points;
+  };
+
+  return findChainIntersections(bezierSegments).reduce<OverpassVisual[]>(
+    (visuals, intersection, index) => {
+      const [first, second] = intersection.segmentIndices.map(
+        (segmentIndex, side) =>
+          findDistanceForT(
+            bezierSegments,
+            segmentIndex,
+            intersection.params[side] ?? 0
+          )
+      );
+      if (first === undefined || second === undefined) {
+        return visuals;
+      }
+
+      // A bridge is the upper section, a tunnel the lower one
+      const firstOverpass = getOverpass(overpasses, spaceAt(first), segments);
+      const secondOverpass = getOverpass(overpasses, spaceAt(second), segments);
+      let upper: number;
+      let lower: number;
+      if (
+        firstOverpass?.kind === "bridge" ||
+        secondOverpass?.kind === "tunnel"
+      ) {
+        [upper, lower] = [first, second];
+      } else if (secondOverpass?.kind === "bridge" || firstOverpass) {
+        [upper, lower] = [second, first];
+      } else {
+        return visuals;
+      }
+
+      // Long enough to span the other section at a shallow crossing angle
+      const upperHalfLength = halfWidthAt(lower) * 3;
+      const lowerHalfLength = halfWidthAt(upper) * 3;
+
+      const upperLeft = sampleStretch(upper, upperHalfLength, halfWidthAt);
+      const upperRight = sampleStretch(
+        upper,
+        upperHalfLength,
+        (distance) => -halfWidthAt(distance)
+      );
+      const shadowOffset = baseStrokeWidth * 2;
+      const shadowLeft = sampleStretch(
+        upper,
+        upperHalfLength,
+        (distance) => halfWidthAt(distance) + shadowOffset
+      );
+      const shadowRight = sampleStretch(
+        upper,
+        upperHalfLength,
+        (distance) => -halfWidthAt(distance) - shadowOffset
+      );
+
+      // Space lines across the deck
+      const upperLines: SegmentLine[] = [];
+      for (
+        let line = Math.ceil(
+          (upper - upperHalfLength) / segmentArcLength - 0.5
+        );
+        (line + 0.5) * segmentArcLength <= upper + upperHalfLength;
+        line++
+      ) {
+        const distance = (line + 0.5) * segmentArcLength;
+        const frame = getFrame(distance);
+        if (!frame) {
+          continue;
+        }
+        const insetWidth =
+          halfWidthAt(wrapDistance(distance)) - baseStrokeWidth * 2;
+        upperLines.push({
+          x1: frame.centerPoint.x + frame.perp.x * insetWidth,
+          y1: frame.centerPoint.y + frame.perp.y * insetWidth,
+          x2: frame.centerPoint.x - frame.perp.x * insetWidth,
+          y2: frame.centerPoint.y - frame.perp.y * insetWidth,
+        });
+      }
+
+      const lowerSpaces: number[] = [];
+      for (
+        let space = Math.ceil((lower - lowerHalfLength) / segmentArcLength);
+        space * segmentArcLength <= lower + lowerHalfLength;
+        space++
+      ) {
+        lowerSpaces.push(((space % segments) + segments) % segments);
+      }
+
+      visuals.push({
+        key: `overpass-${index}`,
+        shadowPath: createPathString(
+          [...shadowLeft, ...shadowRight.reverse()].map((point) => ({
+            x: point.x + shadowOffset,
+            y: point.y + shadowOffset,
+          })),
+          true
+        ),
+        deckPath: createPathString(
+          [...upperLeft, ...[...upperRight].reverse()],
+          true
+        ),
+        upperEdges: [createPathString(upperLeft), createPathString(upperRight)],
+        upperCenterPath: createPathString(
+          sampleStretch(upper, upperHalfLength, () => 0)
+        ),
+        upperLines,
+        lowerEdges: [
+          createPathString(sampleStretch(lower, lowerHalfLength, halfWidthAt)),
+          createPathString(
+            sampleStretch(
+              lower,
+              lowerHalfLength,
+              (distance) => -halfWidthAt(distance)
+            )
+          ),
+        ],
+        lowerSpaces,
+      });
+      return visuals;
+    },
+    []
+  );
+};
+
 const computeCornerCheckeredLines = (
   closed: boolean,
   corners: Corner[],
@@ -588,7 +1226,7 @@ const computeCornerCheckeredLines = (
   bezierSegments: ReturnType<typeof pointsToBezierSegments>,
   segmentArcLength: number,
   totalArcLength: number,
-  halfTrackWidth: number,
+  halfWidthAt: (distance: number) => number,
   baseStrokeWidth: number
 ): CornerCheckeredLine[] => {
   if (
@@ -640,10 +1278,7 @@ const computeCornerCheckeredLines = (
 
     // Generate points along the outer edge on the same side as the corner badge
     // Position checkered line at the same distance from center as the outer strokes
-    const outerEdgeOffset =
-      corner.innerSide === "left"
-        ? -halfTrackWidth + baseStrokeWidth // Left outer edge (same side as badge)
-        : halfTrackWidth - baseStrokeWidth; // Right outer edge (same side as badge)
+    const sideSign = corner.innerSide === "left" ? -1 : 1;
 
     // Generate points along the track edge
     const trackPoints: Vec2[] = [];
@@ -669,6 +1304,8 @@ const computeCornerCheckeredLines = (
       }
 
       const perp = perpendicular(normal);
+      const outerEdgeOffset =
+        sideSign * (halfWidthAt(targetDistance) - baseStrokeWidth);
       const outerPoint = {
         x: centerPoint.x + perp.x * outerEdgeOffset,
         y: centerPoint.y + perp.y * outerEdgeOffset,
@@ -744,8 +1381,8 @@ const buildStartFinishVisual = (
   bezierSegments: ReturnType<typeof pointsToBezierSegments>,
   segmentArcLength: number,
   startFinishSpaceIndex: number,
-  halfTrackWidth: number,
-  flagOffset: number,
+  halfWidthAt: (distance: number) => number,
+  flagGap: number,
   baseStrokeWidth: number
 ): StartFinishVisual | null => {
   if (bezierSegments.length === 0 || segmentArcLength === 0) {
@@ -763,6 +1400,7 @@ const buildStartFinishVisual = (
   }
 
   const perp = perpendicular(normal);
+  const halfTrackWidth = halfWidthAt(targetDistance);
   const insetWidth = halfTrackWidth - baseStrokeWidth * 2;
   const startPoint = {
     x: centerPoint.x + perp.x * insetWidth,
@@ -795,6 +1433,7 @@ const buildStartFinishVisual = (
     });
   }
 
+  const flagOffset = halfTrackWidth + flagGap;
   const flagX = centerPoint.x - perp.x * flagOffset;
   const flagY = centerPoint.y - perp.y * flagOffset;
   const angle = Math.atan2(perp.y, perp.x) * (180 / Math.PI);
@@ -809,6 +1448,148 @@ const buildStartFinishVisual = (
   };
 };
 
+const buildBranchVisual = (
+  branch: TrackBranch,
+  halfTrackWidth: number,
+  baseStrokeWidth: number
+): BranchVisual | null => {
+  const { points, spaces } = branch;
+  // The branch is open, so drop the segment that would close the loop
+  const bezierSegments = pointsToBezierSegments(points, "C1").slice(0, -1);
+  const totalArcLength =
+    bezierSegments.length > 0 ? calculateChainArcLength(bezierSegments) : 0;
+
+  if (spaces.length === 0 || totalArcLength === 0) {
+    return null;
+  }
+
+  const spaceArcLength = totalArcLength / spaces.length;
+  const insetWidth = halfTrackWidth - baseStrokeWidth * 2;
+
+  const frameAt = (distance: number) => {
+    const { segmentIndex, t } = findTForDistance(bezierSegments, distance);
+    const center = evaluateChainAtT(bezierSegments, segmentIndex, t);
+    const tangent = calculateChainTangent(bezierSegments, segmentIndex, t);
+    const normal = normalizeVector(tangent);
+    return normal ? { center, tangent, perp: perpendicular(normal) } : null;
+  };
+
+  // Lines at both ends too - the branch is cut off at the split and join
+  const lines: SegmentLine[] = [];
+  for (let lineIndex = 0; lineIndex <= spaces.length; lineIndex++) {
+    const frame = frameAt(Math.min(lineIndex * spaceArcLength, totalArcLength));
+    if (!frame) continue;
+
+    const { center, perp } = frame;
+    lines.push({
+      x1: center.x + perp.x * insetWidth,
+      y1: center.y + perp.y * insetWidth,
+      x2: center.x - perp.x * insetWidth,
+      y2: center.y - perp.y * insetWidth,
+    });
+  }
+
+  const spaceVisuals = spaces.reduce<BranchSpaceVisual[]>((visuals, space) => {
+    const frame = frameAt((space.index + 0.5) * spaceArcLength);
+    if (!frame) return visuals;
+
+    const { center, tangent, perp } = frame;
+    const spotCount = space.spots.length;
+    const laneWidth = (insetWidth * 2) / Math.max(spotCount, 1);
+    const spots = [...space.spots]
+      .sort((a, b) => a.spotIndex - b.spotIndex)
+      .map((spot) => {
+        const offset = (spot.spotIndex - (spotCount - 1) / 2) * laneWidth;
+        return {
+          x: center.x + perp.x * offset,
+          y: center.y + perp.y * offset,
+        };
+      });
+
+    visuals.push({ position: center, tangent, spots });
+    return visuals;
+  }, []);
+
+  return {
+    branch,
+    fillPath: buildTrackFillPath(points, false, halfTrackWidth),
+    outerLeftPath: buildOffsetPath(
+      points,
+      false,
+      halfTrackWidth - baseStrokeWidth * 2 + baseStrokeWidth / 2
+    ),
+    outerRightPath: buildOffsetPath(
+      points,
+      false,
+      -halfTrackWidth + baseStrokeWidth * 2 - baseStrokeWidth / 2
+    ),
+    centerPath: bezierToSvgPath(points, false),
+    lines,
+    spaces: spaceVisuals,
+  };
+};
+
+interface SpaceCountdownProps {
+  countdown: number;
+  position: Vec2;
+  tangent: Vec2;
+  scale: number;
+  widthScale?: number; // Local track width as a fraction of full width
+  countdownTextColor?: string;
+}
+
+// Countdown badge (0-3) or number on the inside of a space
+function SpaceCountdown({
+  countdown,
+  position,
+  tangent,
+  scale,
+  widthScale = 1,
+  countdownTextColor,
+}: SpaceCountdownProps) {
+  const normal = normalizeVector(tangent);
+  if (!normal) return null;
+  const perp = perpendicular(normal);
+  // Position on the inside of the track (opposite direction from outer edge)
+  const insideOffset =
+    -((BASE_TRACK_WIDTH * widthScale) / 2 + 10) * (scale / 100); // Distance from center line to inside, scaled
+  const insideX = position.x - perp.x * insideOffset;
+  const insideY = position.y - perp.y * insideOffset;
+  // Calculate rotation angle from tangent vector (in degrees)
+  const rotation = Math.atan2(tangent.y, tangent.x) * (180 / Math.PI);
+  // Use CountdownBadge for numbers 0-3, fallback to text for higher numbers
+  if (countdown <= 3) {
+    // Additional offset for CountdownBadge to move it further inside
+    const badgeOffset = -5 * (scale / 100);
+    const badgeX = insideX - perp.x * badgeOffset;
+    const badgeY = insideY - perp.y * badgeOffset;
+    return (
+      <CountdownBadge
+        number={countdown}
+        rotation={rotation}
+        scale={scale}
+        x={badgeX}
+        y={badgeY}
+      />
+    );
+  }
+
+  return (
+    <text
+      fill={countdownTextColor || "#ffd700"}
+      style={{
+        fontSize: `${BASE_COUNTDOWN_TEXT_FONT_SIZE * (scale / 100)}px`,
+      }}
+      textAnchor="middle"
+      transform={`rotate(${rotation + 180} ${insideX} ${insideY})`}
+      x={insideX}
+      y={insideY}
+    >
+      {countdown}
+    </text>
+  );
+}
+
 export function RaceTrack({
   points,
   segments,
@@ -825,16 +1606,32 @@ export function RaceTrack({
   cornerToolMode = "select",
   onSpaceClick: _onSpaceClick,
   selectedCorner,
+  selectedSpace,
   onStartFinishClick,
   onCornerClick,
   onCornerSpaceClick,
   onTrackClickWithCoords: _onTrackClickWithCoords,
+  cars = [],
+  selectedCarId,
+  onSpotClick,
+  onCarClick,
+  suggestedCorners = [],
+  onSuggestedCornerClick,
+  branches = [],
+  widthPoints = [],
+  legendLines = [],
+  onLegendClick,
+  onLegendSpaceClick,
+  roadConditions = [],
+  onRoadConditionClick,
+  cornerGroups = [],
+  overpasses = [],
 }: RaceTrackProps) {
   // Derive trackWidth and baseStrokeWidth from scale
   const trackWidth = BASE_TRACK_WIDTH * (scale / 100);
   const baseStrokeWidth = BASE_STROKE_WIDTH * (scale / 100);
   const halfTrackWidth = trackWidth / 2;
-  const flagOffset = halfTrackWidth + 30 * (scale / 100);
+  const flagGap = 30 * (scale / 100);
   const flagSize = BASE_FLAG_SIZE * (scale / 100);
   // const circleRadius = BASE_CIRCLE_RADIUS * (scale / 100);
 
@@ -847,27 +1644,44 @@ export function RaceTrack({
     () => bezierToSvgPath(points, closed),
     [points, closed]
   );
+  // Width control points scale the track along the lap
+  const widthScaleAt = useCallback(
+    (lapFraction: number) => getTrackWidthAt(widthPoints, lapFraction) / 100,
+    [widthPoints]
+  );
+
   const outerLeftPath = useMemo(
     () =>
       buildOffsetPath(
         points,
         closed,
-        halfTrackWidth - baseStrokeWidth * 2 + baseStrokeWidth / 2
+        (lapFraction) =>
+          halfTrackWidth * widthScaleAt(lapFraction) -
+          baseStrokeWidth * 2 +
+          baseStrokeWidth / 2
       ),
-    [points, closed, halfTrackWidth, baseStrokeWidth]
+    [points, closed, halfTrackWidth, baseStrokeWidth, widthScaleAt]
   );
   const outerRightPath = useMemo(
     () =>
       buildOffsetPath(
         points,
         closed,
-        -halfTrackWidth + baseStrokeWidth * 2 - baseStrokeWidth / 2
+        (lapFraction) =>
+          -halfTrackWidth * widthScaleAt(lapFraction) +
+          baseStrokeWidth * 2 -
+          baseStrokeWidth / 2
       ),
-    [points, closed, halfTrackWidth, baseStrokeWidth]
+    [points, closed, halfTrackWidth, baseStrokeWidth, widthScaleAt]
   );
   const trackFillPath = useMemo(
-    () => buildTrackFillPath(points, closed, halfTrackWidth),
-    [points, closed, halfTrackWidth]
+    () =>
+      buildTrackFillPath(
+        points,
+        closed,
+        (lapFraction) => halfTrackWidth * widthScaleAt(lapFraction)
+      ),
+    [points, closed, halfTrackWidth, widthScaleAt]
   );
 
   const totalArcLength = useMemo(
@@ -881,6 +1695,13 @@ export function RaceTrack({
     [segments, totalArcLength]
   );
 
+  const halfWidthAt = useCallback(
+    (distance: number) =>
+      halfTrackWidth *
+      widthScaleAt(totalArcLength > 0 ? distance / totalArcLength : 0),
+    [halfTrackWidth, widthScaleAt, totalArcLength]
+  );
+
   const innerSideSegments = useMemo(
     () => buildInnerSideSegments(closed, corners),
     [closed, corners]
@@ -894,7 +1715,7 @@ export function RaceTrack({
         segmentArcLength,
         totalArcLength,
         spaces.length,
-        halfTrackWidth,
+        halfWidthAt,
         baseStrokeWidth
       ),
     [
@@ -903,14 +1724,31 @@ export function RaceTrack({
       segmentArcLength,
       totalArcLength,
       spaces.length,
-      halfTrackWidth,
+      halfWidthAt,
       baseStrokeWidth,
     ]
   );
 
+  // Grouped corners share the countdown of their first corner
+  const countdownCorners = useMemo(() => {
+    const followingCornerIds = new Set(
+      cornerGroups.flatMap((group) =>
+        getGroupCornersInOrder(
+          group,
+          corners,
+          spaces.length,
+          raceDirection ? 1 : -1
+        )
+          .slice(1)
+          .map((corner) => corner.id)
+      )
+    );
+    return corners.filter((corner) => !followingCornerIds.has(corner.id));
+  }, [cornerGroups, corners, spaces.length, raceDirection]);
+
   const spaceCountdowns = useMemo(
-    () => computeSpaceCountdowns(corners, spaces, raceDirection),
-    [corners, spaces, raceDirection]
+    () => computeSpaceCountdowns(countdownCorners, spaces, raceDirection),
+    [countdownCorners, spaces, raceDirection]
   );
 
   const spacePositions = useMemo(
@@ -918,6 +1756,17 @@ export function RaceTrack({
     [spaces, bezierSegments, segmentArcLength]
   );
 
+  const spotPositions = useMemo(
+    () =>
+      buildSpotPositions(
+        spaces,
+        bezierSegments,
+        segmentArcLength,
+        (distance) => halfWidthAt(distance) - baseStrokeWidth * 2
+      ),
+    [spaces, bezierSegments, segmentArcLength, halfWidthAt, baseStrokeWidth]
+  );
+
   const segmentLines = useMemo(
     () =>
       computeSegmentLines(
@@ -925,7 +1774,7 @@ export function RaceTrack({
         segments,
         bezierSegments,
         segmentArcLength,
-        halfTrackWidth,
+        halfWidthAt,
         baseStrokeWidth
       ),
     [
@@ -933,7 +1782,7 @@ export function RaceTrack({
       segments,
       bezierSegments,
       segmentArcLength,
-      halfTrackWidth,
+      halfWidthAt,
       baseStrokeWidth,
     ]
   );
@@ -946,8 +1795,8 @@ export function RaceTrack({
         spaces,
         bezierSegments,
         segmentArcLength,
-        halfTrackWidth,
-        flagOffset,
+        halfWidthAt,
+        flagGap,
         baseStrokeWidth
       ),
     [
@@ -956,12 +1805,143 @@ export function RaceTrack({
       spaces,
       bezierSegments,
       segmentArcLength,
-      halfTrackWidth,
-      flagOffset,
+      halfWidthAt,
+      flagGap,
+      baseStrokeWidth,
+    ]
+  );
+
+  const suggestedCornerVisuals = useMemo(
+    () =>
+      computeCornerVisuals(
+        closed,
+        suggestedCorners,
+        spaces,
+        bezierSegments,
+        segmentArcLength,
+        halfWidthAt,
+        flagGap,
+        baseStrokeWidth
+      ),
+    [
+      closed,
+      suggestedCorners,
+      spaces,
+      bezierSegments,
+      segmentArcLength,
+      halfWidthAt,
+      flagGap,
+      baseStrokeWidth,
+    ]
+  );
+
+  const legendVisuals = useMemo(
+    () =>
+      computeLegendVisuals(
+        closed,
+        legendLines,
+        corners,
+        bezierSegments,
+        segmentArcLength,
+        halfWidthAt,
+        flagGap,
+        baseStrokeWidth
+      ),
+    [
+      closed,
+      legendLines,
+      corners,
+      bezierSegments,
+      segmentArcLength,
+      halfWidthAt,
+      flagGap,
+      baseStrokeWidth,
+    ]
+  );
+
+  const roadConditionVisuals = useMemo(
+    () =>
+      computeRoadConditionVisuals(
+        closed,
+        roadConditions,
+        corners,
+        raceDirection,
+        bezierSegments,
+        segmentArcLength,
+        segments,
+        halfWidthAt,
+        flagGap,
+        BASE_CORNER_BADGE_SIZE * (scale / 100),
+        BASE_ROAD_CONDITION_SIZE * (scale / 100)
+      ),
+    [
+      closed,
+      roadConditions,
+      corners,
+      raceDirection,
+      bezierSegments,
+      segmentArcLength,
+      segments,
+      halfWidthAt,
+      flagGap,
+      scale,
+    ]
+  );
+
+  const cornerGroupVisuals = useMemo(
+    () =>
+      computeCornerGroupVisuals(
+        closed,
+        cornerGroups,
+        corners,
+        raceDirection,
+        bezierSegments,
+        segmentArcLength,
+        segments,
+        halfWidthAt,
+        flagGap
+      ),
+    [
+      closed,
+      cornerGroups,
+      corners,
+      raceDirection,
+      bezierSegments,
+      segmentArcLength,
+      segments,
+      halfWidthAt,
+      flagGap,
+    ]
+  );
+
+  const overpassVisuals = useMemo(
+    () =>
+      computeOverpassVisuals(
+        closed,
+        overpasses,
+        bezierSegments,
+        segmentArcLength,
+        segments,
+        halfWidthAt,
+        baseStrokeWidth
+      ),
+    [
+      closed,
+      overpasses,
+      bezierSegments,
+      segmentArcLength,
+      segments,
+      halfWidthAt,
       baseStrokeWidth,
     ]
   );
 
+  // Lower spaces under a deck keep their numbers off it
+  const spacesUnderDeck = useMemo(
+    () => new Set(overpassVisuals.flatMap((visual) => visual.lowerSpaces)),
+    [overpassVisuals]
+  );
+
   const cornerCheckeredLines = useMemo(
     () =>
       computeCornerCheckeredLines(
@@ -971,7 +1951,7 @@ export function RaceTrack({
         bezierSegments,
         segmentArcLength,
         totalArcLength,
-        halfTrackWidth,
+        halfWidthAt,
         baseStrokeWidth
       ),
     [
@@ -981,7 +1961,7 @@ export function RaceTrack({
       bezierSegments,
       segmentArcLength,
       totalArcLength,
-      halfTrackWidth,
+      halfWidthAt,
       baseStrokeWidth,
     ]
   );
@@ -992,22 +1972,41 @@ export function RaceTrack({
         bezierSegments,
         segmentArcLength,
         startFinishSpaceIndex,
-        halfTrackWidth,
-        flagOffset,
+        halfWidthAt,
+        flagGap,
         baseStrokeWidth
       ),
     [
       bezierSegments,
       segmentArcLength,
       startFinishSpaceIndex,
-      halfTrackWidth,
-      flagOffset,
+      halfWidthAt,
+      flagGap,
       baseStrokeWidth,
     ]
   );
 
+  const branchVisuals = useMemo(
+    () =>
+      branches
+        .map((branch) =>
+          buildBranchVisual(branch, halfTrackWidth, baseStrokeWidth)
+        )
+        .filter((visual): visual is BranchVisual => visual !== null),
+    [branches, halfTrackWidth, baseStrokeWidth]
+  );
+
   const isCornersMode = editingMode === "corners";
   const isMetadataMode = editingMode === "metadata";
+  const isPlaytestMode = editingMode === "playtest";
+
+  // Car tokens fit inside a lane and a space
+  const maxSpotCount = Math.max(1, ...spaces.map((space) => space.spots.length));
+  const carRadius =
+    Math.min(
+      ((halfTrackWidth - baseStrokeWidth * 2) * 2) / maxSpotCount,
+      segmentArcLength
+    ) * 0.4;
 
   if (points.length < 2) {
     return null;
@@ -1015,6 +2014,66 @@ export function RaceTrack({
 
   return (
     <g>
+      {/* Branches - the main track is drawn over where they split and join */}
+      {branchVisuals.map(({ branch, ...visual }) => {
+        // Spaces left on the branch, then the join space's own countdown
+        const joinCountdown = spaceCountdowns.get(branch.joinSpaceIndex);
+
+        return (
+          <g key={`branch-${branch.id}`}>
+            <path
+              d={visual.fillPath}
+              fill={trackColor ?? "#3a3a3a"}
+              stroke="none"
+            />
+            {[visual.outerLeftPath, visual.outerRightPath].map((d, index) => (
+              <path
+                key={`branch-edge-${index}`}
+                d={d}
+                fill="none"
+                stroke="white"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={baseStrokeWidth}
+              />
+            ))}
+            <path
+              d={visual.centerPath}
+              fill="none"
+              stroke="white"
+              strokeDasharray={`${baseStrokeWidth * 3} ${baseStrokeWidth * 2 * 1.5}`}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={(baseStrokeWidth / 2) * 1.5}
+            />
+            {visual.lines.map((line, index) => (
+              <line
+                key={`branch-line-${index}`}
+                stroke="white"
+                strokeLinecap="round"
+                strokeWidth={baseStrokeWidth}
+                x1={line.x1}
+                x2={line.x2}
+                y1={line.y1}
+                y2={line.y2}
+              />
+            ))}
+            {joinCountdown !== undefined &&
+              joinCountdown >= 0 &&
+              visual.spaces.map((space, index) => (
+                <SpaceCountdown
+                  key={`branch-countdown-${index}`}
+                  countdown={joinCountdown + visual.spaces.length - index}
+                  countdownTextColor={countdownTextColor}
+                  position={space.position}
+                  scale={scale}
+                  tangent={space.tangent}
+                />
+              ))}
+          </g>
+        );
+      })}
+
       {/* Track fill (main track area) */}
       <path d={trackFillPath} fill={trackColor ?? "#3a3a3a"} stroke="none" />
 
@@ -1076,6 +2135,67 @@ export function RaceTrack({
         />
       ))}
 
+      {/* Overpasses - the upper section is drawn again over the crossing
+          with a shadow, and the lower section's edges dash through it */}
+      {overpassVisuals.map((visual) => (
+        <g key={visual.key} pointerEvents="none">
+          <path
+            d={visual.shadowPath}
+            fill="black"
+            opacity={0.35}
+            stroke="none"
+          />
+          <path
+            d={visual.deckPath}
+            fill={trackColor ?? "#3a3a3a"}
+            stroke="none"
+          />
+          {visual.upperEdges.map((d, index) => (
+            <path
+              key={`upper-edge-${index}`}
+              d={d}
+              fill="none"
+              stroke="white"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={baseStrokeWidth}
+            />
+          ))}
+          <path
+            d={visual.upperCenterPath}
+            fill="none"
+            stroke="white"
+            strokeDasharray={`${baseStrokeWidth * 3} ${baseStrokeWidth * 2 * 1.5}`}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={(baseStrokeWidth / 2) * 1.5}
+          />
+          {visual.upperLines.map((line, index) => (
+            <line
+              key={`upper-line-${index}`}
+              stroke="white"
+              strokeLinecap="round"
+              strokeWidth={baseStrokeWidth}
+              x1={line.x1}
+              x2={line.x2}
+              y1={line.y1}
+              y2={line.y2}
+            />
+          ))}
+          {visual.lowerEdges.map((d, index) => (
+            <path
+              key={`lower-edge-${index}`}
+              d={d}
+              fill="none"
+              opacity={0.6}
+              stroke="white"
+              strokeDasharray={`${baseStrokeWidth * 2} ${baseStrokeWidth * 2}`}
+              strokeWidth={baseStrokeWidth}
+            />
+          ))}
+        </g>
+      ))}
+
       {/* Space markers, selection circles */}
       {spaces.map((space) => {
         const position = spacePositions.get(space.index);
@@ -1085,6 +2205,18 @@ export function RaceTrack({
 
         return (
           <g key={`space-${space.id}`}>
+            {/* Highlight ring for the selected space */}
+            {selectedSpace === space.id && (
+              <circle
+                cx={position.x}
+                cy={position.y}
+                fill="none"
+                r={halfTrackWidth}
+                stroke={METADATA_SELECTED_COLOR}
+                strokeWidth={baseStrokeWidth * 2}
+              />
+            )}
+
             {/* Small circle at each space - only in debug mode */}
             {debugMode && (
               <>
@@ -1109,7 +2241,28 @@ export function RaceTrack({
               </>
             )}
 
-
+            {/* Spot markers - the race line spot is filled in */}
+            {!isPlaytestMode &&
+              !spacesUnderDeck.has(space.index) &&
+              space.spots.map((spot) => {
+                const spotPosition = spotPositions.get(space.index)?.[
+                  spot.spotIndex
+                ];
+                if (!spotPosition) return null;
+
+                return (
+                  <circle
+                    key={`spot-marker-${spot.id}`}
+                    cx={spotPosition.x}
+                    cy={spotPosition.y}
+                    fill={spot.type === "race-line" ? "white" : "none"}
+                    opacity={0.6}
+                    r={carRadius * 0.35}
+                    stroke="white"
+                    strokeWidth={baseStrokeWidth / 2}
+                  />
+                );
+              })}
           </g>
         );
       })}
@@ -1121,58 +2274,31 @@ export function RaceTrack({
           return null;
         }
         const countdown = spaceCountdowns.get(space.index);
-        if (countdown === undefined || countdown < 0) {
+        if (
+          countdown === undefined ||
+          countdown < 0 ||
+          spacesUnderDeck.has(space.index)
+        ) {
           return null;
         }
-        // Calculate perpendicular direction for inside positioning
         const targetDistance = space.index * segmentArcLength;
         const { segmentIndex, t } = findTForDistance(
           bezierSegments,
           targetDistance
         );
-        const tangent = calculateChainTangent(bezierSegments, segmentIndex, t);
-        const normal = normalizeVector(tangent);
-        if (!normal) return null;
-        const perp = perpendicular(normal);
-        // Position on the inside of the track (opposite direction from outer edge)
-        const insideOffset = -60 * (scale / 100); // Distance from center line to inside, scaled
-        const insideX = position.x - perp.x * insideOffset;
-        const insideY = position.y - perp.y * insideOffset;
-        // Calculate rotation angle from tangent vector (in degrees)
-        const rotation = Math.atan2(tangent.y, tangent.x) * (180 / Math.PI);
-        // Use CountdownBadge for numbers 0-3, fallback to text for higher numbers
-        if (countdown <= 3) {
-          // Additional offset for CountdownBadge to move it further inside
-          const badgeOffset = -5 * (scale / 100);
-          const badgeX = insideX - perp.x * badgeOffset;
-          const badgeY = insideY - perp.y * badgeOffset;
-          return (
-            <CountdownBadge
-              key={`countdown-badge-${space.id}`}
-              number={countdown}
-              rotation={rotation}
-              scale={scale}
-              x={badgeX}
-              y={badgeY}
-            />
-          );
-        } else {
-          return (
-            <text
-              key={`countdown-text-${space.id}`}
-              fill={countdownTextColor || "#ffd700"}
-              style={{
-                fontSize: `${BASE_COUNTDOWN_TEXT_FONT_SIZE * (scale / 100)}px`,
-              }}
-              textAnchor="middle"
-              transform={`rotate(${rotation + 180} ${insideX} ${insideY})`}
-              x={insideX}
-              y={insideY}
-            >
-              {countdown}
-            </text>
-          );
-        }
+        return (
+          <SpaceCountdown
+            key={`countdown-${space.id}`}
+            countdown={countdown}
+            countdownTextColor={countdownTextColor}
+            position={position}
+            scale={scale}
+            tangent={calculateChainTangent(bezierSegments, segmentIndex, t)}
+            widthScale={widthScaleAt(
+              totalArcLength > 0 ? targetDistance / totalArcLength : 0
+            )}
+          />
+        );
       })}
 
       {/* Corner lines */}
@@ -1204,6 +2330,31 @@ export function RaceTrack({
         ))
       )}
 
+      {/* Rails pairing the badges of linked corners */}
+      {cornerGroupVisuals.map(({ group, d }) => (
+        <g key={`corner-group-${group.id}`} pointerEvents="none">
+          <path
+            d={d}
+            fill="none"
+            stroke="black"
+            strokeLinecap="round"
+            strokeWidth={baseStrokeWidth * 5}
+          />
+          <path
+            d={d}
+            fill="none"
+            stroke={group.kind === "chicane" ? "white" : CORNER_COLOR}
+            strokeDasharray={
+              group.kind === "chicane"
+                ? `${baseStrokeWidth * 3} ${baseStrokeWidth * 2}`
+                : undefined
+            }
+            strokeLinecap="round"
+            strokeWidth={baseStrokeWidth * 3}
+          />
+        </g>
+      ))}
+
       {/* Corner badges */}
       {cornerVisuals.map(({ corner, badge, rotation }) => {
         const isSelected = selectedCorner === corner.id;
@@ -1222,6 +2373,79 @@ export function RaceTrack({
         );
       })}
 
+      {/* Legend lines, diamond spaces and Legends badges */}
+      {legendVisuals.map(({ legendLine, line, badge, rotation, diamond }) => (
+        <g key={`legend-${legendLine.id}`}>
+          <line
+            stroke={LEGEND_COLOR}
+            strokeDasharray={`${baseStrokeWidth * 2} ${baseStrokeWidth}`}
+            strokeWidth={baseStrokeWidth * 2}
+            x1={line.x1}
+            x2={line.x2}
+            y1={line.y1}
+            y2={line.y2}
+          />
+          <polygon
+            fill={LEGEND_COLOR}
+            points={diamond.map((point) => `${point.x},${point.y}`).join(" ")}
+            stroke="white"
+            strokeWidth={baseStrokeWidth / 2}
+          />
+          <LegendsBadge
+            isRemoveMode={cornerToolMode === "remove"}
+            isSelected={selectedCorner === legendLine.cornerId}
+            rotation={rotation}
+            scale={scale}
+            x={badge.x}
+            y={badge.y}
+            onClick={() => onLegendClick?.(legendLine.cornerId)}
+          />
+        </g>
+      ))}
+
+      {/* Road condition tokens */}
+      {roadConditionVisuals.map(({ condition, position, rotation }) => (
+        <RoadConditionBadge
+          key={`road-condition-${condition.id}`}
+          isRemoveMode={cornerToolMode === "remove"}
+          kind={condition.kind}
+          rotation={rotation}
+          scale={scale}
+          x={position.x}
+          y={position.y}
+          onClick={
+            onRoadConditionClick
+              ? () => onRoadConditionClick(condition.id)
+              : undefined
+          }
+        />
+      ))}
+
+      {/* Suggested corner lines and ghost badges - click a badge to accept it */}
+      {isCornersMode && suggestedCornerVisuals.map(({ corner, line, badge, rotation }) => (
+        <g key={`suggested-corner-${corner.id}`}>
+          <line
+            opacity={0.5}
+            stroke="white"
+            strokeDasharray={`${baseStrokeWidth * 2} ${baseStrokeWidth * 2}`}
+            strokeWidth={baseStrokeWidth * 2}
+            x1={line.x1}
+            x2={line.x2}
+            y1={line.y1}
+            y2={line.y2}
+          />
+          <CornerBadge
+            rotation={rotation}
+            scale={scale}
+            speedLimit={corner.speedLimit}
+            x={badge.x}
+            y={badge.y}
+            isGhost
+            onClick={() => onSuggestedCornerClick?.(corner.id)}
+          />
+        </g>
+      ))}
+
       {/* Start/finish checkered line and flag */}
       {startFinishVisual && (
         <g key="start-finish">
@@ -1311,8 +2535,8 @@ export function RaceTrack({
         );
       })}
 
-      {/* Corner placement selection lines (interactive) - always visible in corner add mode */}
-      {isCornersMode && cornerToolMode === "add" && spaces.map((space) => {
+      {/* Corner and legend line placement selection lines (interactive) - always visible in corner add and legend modes */}
+      {isCornersMode && (cornerToolMode === "add" || cornerToolMode === "legend") && spaces.map((space) => {
         const segmentLine = segmentLines[space.index];
         if (!segmentLine) return null;
         
@@ -1323,15 +2547,77 @@ export function RaceTrack({
           <line
             key={`corner-selection-${space.index}`}
             opacity={CORNER_OPACITY}
-            stroke={CORNER_COLOR}
+            stroke={cornerToolMode === "legend" ? LEGEND_COLOR : CORNER_COLOR}
             strokeWidth={baseStrokeWidth * 12}
             style={{ cursor: "crosshair" }}
             x1={x1}
             x2={x2}
             y1={y1}
             y2={y2}
-            onClick={() => onCornerSpaceClick?.(space.index)}
+            onClick={() =>
+              cornerToolMode === "legend"
+                ? onLegendSpaceClick?.(space.index)
+                : onCornerSpaceClick?.(space.index)
+            }
+          />
+        );
+      })}
+
+      {/* Play-test spots (interactive) - click a spot to place or move a car */}
+      {isPlaytestMode && spaces.map((space) =>
+        spotPositions.get(space.index)?.map((position, spotIndex) => (
+          <circle
+            key={`spot-${space.index}-${spotIndex}`}
+            cx={position.x}
+            cy={position.y}
+            fill="white"
+            opacity={0.25}
+            r={carRadius * 0.6}
+            stroke="white"
+            strokeWidth={baseStrokeWidth / 2}
+            style={{ cursor: "pointer" }}
+            onClick={() => onSpotClick?.(space.index, spotIndex)}
           />
+        ))
+      )}
+
+      {/* Play-test car tokens */}
+      {isPlaytestMode && cars.map((car, index) => {
+        const position =
+          car.branchId === undefined
+            ? spotPositions.get(car.spaceIndex)?.[car.spotIndex]
+            : branchVisuals.find((visual) => visual.branch.id === car.branchId)
+                ?.spaces[car.spaceIndex]?.spots[car.spotIndex];
+        if (!position) return null;
+
+        const isSelected = selectedCarId === car.carId;
+        return (
+          <g
+            key={`car-${car.carId}`}
+            style={{ cursor: "pointer" }}
+            onClick={() => onCarClick?.(car.carId)}
+          >
+            <circle
+              cx={position.x}
+              cy={position.y}
+              fill={CAR_COLORS[index % CAR_COLORS.length]}
+              r={carRadius}
+              stroke={isSelected ? "#ffd700" : "white"}
+              strokeWidth={baseStrokeWidth * (isSelected ? 1.5 : 0.75)}
+            />
+            <text
+              dominantBaseline="central"
+              fill="white"
+              fontSize={carRadius}
+              fontWeight="bold"
+              pointerEvents="none"
+              textAnchor="middle"
+              x={position.x}
+              y={position.y}
+            >
+              {index + 1}
+            </text>
+          </g>
         );
       })}
     </g>
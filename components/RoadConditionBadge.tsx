@@ -0,0 +1,90 @@
+"use client";
+
+import { RoadConditionKind } from "@/types/spline";
+
+interface RoadConditionBadgeProps {
+  kind: RoadConditionKind;
+  x: number;
+  y: number;
+  rotation?: number;
+  isRemoveMode?: boolean;
+  onClick?: () => void;
+  scale?: number; // Scale percentage (100 = 100%)
+}
+
+// Constants for badge sizing and styling
+const BADGE_SIZE = 30;
+const FONT_SIZE = 30; // In badge units (badge is 100 wide)
+
+// Token face per condition
+const TOKENS: Record<
+  RoadConditionKind,
+  { label: string; fill: string; text: string }
+> = {
+  "speed-limit-up": { label: "+1", fill: "#38a169", text: "white" },
+  "speed-limit-down": { label: "-1", fill: "#e53e3e", text: "white" },
+  overheat: { label: "HEAT", fill: "#dd6b20", text: "white" },
+  "slipstream-boost": { label: "SLIP", fill: "#805ad5", text: "white" },
+  "free-cooling": { label: "COOL", fill: "#3182ce", text: "white" },
+};
+
+const COLORS = {
+  BLACK: "black",
+  RED: "#ff4444",
+} as const;
+
+export function RoadConditionBadge({
+  kind,
+  x,
+  y,
+  rotation = 0,
+  isRemoveMode = false,
+  onClick,
+  scale = 100,
+}: RoadConditionBadgeProps) {
+  // Apply scale to badge size while keeping final values the same
+  const scaledBadgeSize = BADGE_SIZE * (scale / 100);
+  const scaledBadgeRadius = scaledBadgeSize / 2;
+  const scaledScaleFactor = scaledBadgeSize / 100;
+  const token = TOKENS[kind];
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (onClick) {
+      e.stopPropagation();
+      onClick();
+    }
+  };
+
+  return (
+    <g
+      style={{ cursor: onClick ? "pointer" : "default" }}
+      transform={`translate(${x - scaledBadgeRadius}, ${y - scaledBadgeRadius}) scale(${scaledScaleFactor}) rotate(${rotation} 50 50)`}
+      onClick={handleClick}
+    >
+      <rect
+        fill={token.fill}
+        height={88}
+        rx={14}
+        stroke={isRemoveMode ? COLORS.RED : COLORS.BLACK}
+        strokeWidth={6}
+        width={88}
+        x={6}
+        y={6}
+      />
+      <text
+        dominantBaseline="central"
+        fill={token.text}
+        style={{
+          fontFamily: "Inter, sans-serif",
+          fontSize: `${token.label.length > 2 ? FONT_SIZE * 0.8 : FONT_SIZE * 1.4}px`,
+          fontWeight: 700,
+        }}
+        textAnchor="middle"
+        x="50"
+        y="50"
+      >
+        {token.label}
+      </text>
+    </g>
+  );
+}
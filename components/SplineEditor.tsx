@@ -2,56 +2,188 @@
 "use client";
 
 import { Box } from "@chakra-ui/react";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
-import { useIndexedDBImage } from "@/hooks/useIndexedDB";
+import { useHistory } from "@/hooks/useHistory";
+import { useIndexedDBImage, useIndexedDBTracks } from "@/hooks/useIndexedDB";
 import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useViewport } from "@/hooks/useViewport";
 import {
+  BackgroundImageTransform,
+  BoardScale,
+  CarPosition,
   Corner,
+  CornerGroup,
   EditorState,
+  LaneOverride,
+  LegendLine,
   Point,
+  RaceSimulationReport,
+  RoadConditionKind,
+  SpeedLimitSample,
   SplinePath,
+  TrackBranch,
   TrackData,
+  TrackIntersection,
+  TrackOverpass,
+  TrackValidationIssue,
+  TrackWidthPoint,
+  TurnInput,
+  TurnResult,
 } from "@/types/spline";
 import {
   createSplinePathFromSegments,
   pointsToBezierSegments,
 } from "@/utils/bezierChain";
+import {
+  getBoardExportFileName,
+  getBoardLayout,
+  renderBoardPng,
+  renderBoardSvg,
+} from "@/utils/boardExport";
+import { getTileLayout, PaperSize, renderBoardPdf } from "@/utils/boardPdf";
+import { applyCarPosition, resolveTurn } from "@/utils/gameRules";
+import {
+  calibrateBoardScale,
+  fitImageTransform,
+  getImageBounds,
+  imageTransformToSvg,
+} from "@/utils/imageUtils";
 import { generateId, pointsToBezier, simplifyPath } from "@/utils/pathUtils";
+import { simulateRaces } from "@/utils/raceSimulator";
+import { fitSpeedLimitModel, suggestSpeedLimit } from "@/utils/speedLimitModel";
 import {
+  autoSuggestCorners,
+  buildBranch,
+  collectSpeedLimitSamples,
+  createBranch,
   createDefaultTrackMetadata,
+  createLaneOverride,
+  createOverpass,
+  createWidthPoint,
   discretizePathToSpaces,
+  getSpaceLineArcPosition,
+  linkCornerWithNext,
+  measureCornerGeometry,
+  placeLegendLine,
+  rediscretizeTrack,
+  regenerateBranches,
+  removeCornerFromGroups,
+  updateCornerGeometry,
   updateTrackMetadata,
 } from "@/utils/trackUtils";
 
+import {
+  detectTrackFormat,
+  exportTrackData,
+  getTrackExportFileName,
+  importTrackData,
+  validateTrackDataComprehensive,
+} from "@/utils/serialization";
+
+import { toaster, Toaster } from "./chakra/toaster";
+import { ImageEditOverlay } from "./ImageEditOverlay";
+import { IntersectionMarker } from "./IntersectionMarker";
 import { PathEditor } from "./PathEditor";
 import { RaceTrack } from "./RaceTrack";
 import { Toolbar } from "./Toolbar";
+import { TrackLibrary } from "./TrackLibrary";
+import { ValidationPanel } from "./ValidationPanel";
+import { ZoomControls } from "./ZoomControls";
 
 const STORAGE_KEY = "track-data";
 const STORAGE_KEY_IMAGE = "background-image";
 const SPLINE_SIMPLIFICATION_TOLERANCE = 50;
+const PLAYTEST_STEP_DURATION = 250; // ms per space when animating a move
+const CORNER_REMAP_TOAST_ID = "corner-remap";
+const LIBRARY_SAVE_DELAY = 500; // ms after the last edit before saving to the library
+const ZOOM_STEP = 1.25; // Zoom factor per zoom button press
+const TRACK_BASE_WIDTH = 100; // Matches the base track width in RaceTrack
+
+// List corners that collided or moved far when spaces were regenerated.
+// One toast is reused so dragging a point doesn't stack them up.
+function showCornerRemapWarnings(warnings: string[]) {
+  if (warnings.length === 0) return;
+
+  const toast = {
+    title: "Corners moved when spaces were regenerated",
+    description: (
+      <Box as="ul" listStyleType="disc" pl={4}>
+        {warnings.map((warning, index) => (
+          <li key={index}>{warning}</li>
+        ))}
+      </Box>
+    ),
+    type: "warning",
+    closable: true,
+  };
+
+  if (toaster.isVisible(CORNER_REMAP_TOAST_ID)) {
+    toaster.update(CORNER_REMAP_TOAST_ID, toast);
+  } else {
+    toaster.create({ ...toast, id: CORNER_REMAP_TOAST_ID });
+  }
+}
 
 export function SplineEditor() {
   const svgRef = useRef<SVGSVGElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [currentPath, setCurrentPath] = useState<Point[]>([]);
-  const [trackData, setTrackData, isLoaded] = useLocalStorage<TrackData | null>(
-    STORAGE_KEY,
-    null
-  );
+  const [trackData, setStoredTrackData, isLoaded] =
+    useLocalStorage<TrackData | null>(STORAGE_KEY, null);
+  // Track edits go through the history so they can be undone
+  const {
+    record: setTrackData,
+    beginGesture,
+    endGesture,
+    undo: handleUndo,
+    redo: handleRedo,
+    canUndo,
+    canRedo,
+  } = useHistory(trackData, setStoredTrackData);
   const [
     backgroundImage,
     updateBackgroundImage,
     removeBackgroundImage,
     isImageLoaded,
   ] = useIndexedDBImage(STORAGE_KEY_IMAGE);
+  const [libraryTracks, saveLibraryTrack, removeLibraryTrack, isLibraryLoaded] =
+    useIndexedDBTracks();
+  const [isLibraryOpen, setIsLibraryOpen] = useLocalStorage(
+    "track-library-open",
+    false
+  );
   const [selectedPathId, setSelectedPathId] = useState<string | null>(null);
   const [selectedPointIndex, setSelectedPointIndex] = useState<number | null>(
     null
   );
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
   const [toolbarHeight, setToolbarHeight] = useState(0);
+  const {
+    viewport,
+    viewBox,
+    isPanMode,
+    isPanning,
+    zoomBy,
+    fitToBounds,
+    resetViewport,
+    handlePanMouseDown,
+    handlePanClick,
+  } = useViewport(svgRef, dimensions);
+  const [imageSize, setImageSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
+  // Image placement used until a track exists to save it with
+  const [draftImageTransform, setDraftImageTransform] =
+    useLocalStorage<BackgroundImageTransform | null>(
+      "background-image-transform",
+      null
+    );
+  const [imageEditMode, setImageEditMode] = useState<
+    "move" | "calibrate" | null
+  >(null);
+  const [calibrationPoints, setCalibrationPoints] = useState<Point[]>([]);
   const [raceSegments, setRaceSegments] = useState(100);
   const [scale, setScale] = useState(100);
   const [trackColor, setTrackColor, _isTrackColorLoaded] = useLocalStorage(
@@ -76,6 +208,55 @@ export function SplineEditor() {
     cornerToolMode: "select",
   });
 
+  // Auto-suggested corners waiting to be accepted
+  const [suggestedCorners, setSuggestedCorners] = useState<Corner[]>([]);
+  const [cornerSuggestionSpacing, setCornerSuggestionSpacing] = useState(3);
+
+  // Corners with known speed limits from reference tracks, kept across tracks
+  const [speedLimitSamples, setSpeedLimitSamples] = useLocalStorage<
+    SpeedLimitSample[]
+  >("corner-speed-limit-samples", []);
+  const speedLimitModel = useMemo(
+    () => fitSpeedLimitModel(speedLimitSamples),
+    [speedLimitSamples]
+  );
+
+  // Play-test state - cars are not saved with the track
+  const [playtestCars, setPlaytestCars] = useState<CarPosition[]>([]);
+  const [selectedCarId, setSelectedCarId] = useState<string | null>(null);
+  const [playtestInput, setPlaytestInput] = useState<Omit<TurnInput, "carId">>(
+    {
+      speed: 4,
+      boost: 0,
+      heat: 6,
+      gear: 2,
+      slipstream: true,
+    }
+  );
+  // Heat and gear carry over between turns, so each car keeps its own
+  const [playtestEngines, setPlaytestEngines] = useState<
+    Record<string, Pick<TurnInput, "heat" | "gear">>
+  >({});
+  const selectedCarInput = useMemo(
+    () => ({
+      ...playtestInput,
+      ...(selectedCarId ? playtestEngines[selectedCarId] : undefined),
+    }),
+    [playtestInput, playtestEngines, selectedCarId]
+  );
+  const [playtestResult, setPlaytestResult] = useState<TurnResult | null>(
+    null
+  );
+  const [simulationReport, setSimulationReport] =
+    useState<RaceSimulationReport | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [simulationProgress, setSimulationProgress] = useState(0);
+  const simulationRef = useRef<AbortController | null>(null);
+  const [playtestAnimation, setPlaytestAnimation] = useState<{
+    frames: CarPosition[];
+    frameIndex: number;
+  } | null>(null);
+
   // Update dimensions on mount and resize
   useEffect(() => {
     const updateDimensions = () => {
@@ -114,7 +295,7 @@ export function SplineEditor() {
             raceDirection: true, // Default to clockwise
           },
         };
-        setTrackData(migratedTrackData);
+        setStoredTrackData(migratedTrackData);
       }
 
       // Restore discretization settings
@@ -138,7 +319,216 @@ export function SplineEditor() {
         setSelectedPathId((prev) => prev ?? migratedTrackData.splinePath.id);
       }
     }
-  }, [isLoaded, trackData, setTrackData]);
+  }, [isLoaded, trackData, setStoredTrackData]);
+
+  // Step the play-test car along its move, one space at a time
+  useEffect(() => {
+    if (!playtestAnimation) return;
+
+    const timer = setTimeout(() => {
+      setPlaytestAnimation((prev) =>
+        prev && prev.frameIndex < prev.frames.length - 1
+          ? { ...prev, frameIndex: prev.frameIndex + 1 }
+          : null
+      );
+    }, PLAYTEST_STEP_DURATION);
+
+    return () => clearTimeout(timer);
+  }, [playtestAnimation]);
+
+  // Re-run validation whenever the track is edited
+  const validationResult = useMemo(
+    () => (trackData ? validateTrackDataComprehensive(trackData) : null),
+    [trackData]
+  );
+
+  // Keep the stored validation state in step with the live validation
+  useEffect(() => {
+    if (!trackData || !validationResult) return;
+
+    const isStale =
+      trackData.isValid !== validationResult.isValid ||
+      trackData.validationErrors.join("\n") !==
+        validationResult.errors.join("\n");
+    if (!isStale) return;
+
+    const updatedTrackData = {
+      ...trackData,
+      validationErrors: validationResult.errors,
+      isValid: validationResult.isValid,
+      lastValidated: new Date().toISOString(),
+    };
+    setStoredTrackData(updatedTrackData);
+    setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
+  }, [trackData, validationResult, setStoredTrackData]);
+
+  // Open track waiting to be saved into the library
+  const pendingLibrarySave = useRef<TrackData | null>(null);
+
+  const flushLibrarySave = useCallback(() => {
+    const track = pendingLibrarySave.current;
+    if (!track) return;
+
+    pendingLibrarySave.current = null;
+    saveLibraryTrack({
+      ...track,
+      metadata: {
+        ...track.metadata,
+        updatedAt: new Date().toISOString(),
+      },
+    });
+  }, [saveLibraryTrack]);
+
+  // Save the open track into the library once edits settle
+  useEffect(() => {
+    if (!trackData || !isLibraryLoaded) return;
+
+    pendingLibrarySave.current = trackData;
+    const timer = setTimeout(flushLibrarySave, LIBRARY_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [trackData, isLibraryLoaded, flushLibrarySave]);
+
+  // Ctrl+Z undoes, Ctrl+Shift+Z or Ctrl+Y redoes (Cmd on macOS)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      // Text fields keep their own undo
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, [contenteditable='true']")) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // Natural size of the background image, needed to fit the view to it
+  useEffect(() => {
+    if (!backgroundImage) {
+      setImageSize(null);
+      return;
+    }
+
+    const image = new Image();
+    image.onload = () =>
+      setImageSize({ width: image.naturalWidth, height: image.naturalHeight });
+    image.src = backgroundImage;
+    return () => {
+      image.onload = null;
+    };
+  }, [backgroundImage]);
+
+  // Saved placement of the scan, or fitted to the canvas like before
+  const imageTransform = useMemo(
+    () =>
+      trackData?.backgroundImageTransform ??
+      draftImageTransform ??
+      (imageSize && dimensions.width > 0
+        ? fitImageTransform(imageSize, dimensions)
+        : null),
+    [trackData, draftImageTransform, imageSize, dimensions]
+  );
+
+  const handleImageTransformChange = useCallback(
+    (transform: BackgroundImageTransform) => {
+      if (trackData) {
+        setTrackData(
+          { ...trackData, backgroundImageTransform: transform },
+          "image-transform"
+        );
+      } else {
+        setDraftImageTransform(transform);
+      }
+    },
+    [trackData, setTrackData, setDraftImageTransform]
+  );
+
+  const handleImageTransformReset = useCallback(() => {
+    if (!imageSize) return;
+    handleImageTransformChange(fitImageTransform(imageSize, dimensions));
+  }, [imageSize, dimensions, handleImageTransformChange]);
+
+  const handleImageEditModeChange = useCallback(
+    (mode: "move" | "calibrate" | null) => {
+      setImageEditMode(mode);
+      setCalibrationPoints([]);
+    },
+    []
+  );
+
+  // A third click starts a new measurement
+  const handleCalibrationClick = useCallback((point: Point) => {
+    setCalibrationPoints((prev) =>
+      prev.length >= 2 ? [point] : [...prev, point]
+    );
+  }, []);
+
+  const handleApplyCalibration = useCallback(
+    (distance: number, unit: BoardScale["unit"]) => {
+      const [first, second] = calibrationPoints;
+      if (!trackData || !first || !second) return;
+
+      const boardScale = calibrateBoardScale([first, second], distance, unit);
+      if (!boardScale) {
+        toaster.create({
+          title: "Calibration failed",
+          description: "Pick two different points and a distance above zero",
+          type: "error",
+        });
+        return;
+      }
+
+      setTrackData({ ...trackData, boardScale });
+      setImageEditMode(null);
+      setCalibrationPoints([]);
+      toaster.create({
+        title: "Board scale set",
+        description: `1 ${unit} = ${boardScale.pixelsPerUnit.toFixed(1)} px`,
+        type: "success",
+      });
+    },
+    [calibrationPoints, trackData, setTrackData]
+  );
+
+  const handleFitToTrack = useCallback(() => {
+    const points = trackData?.splinePath.points ?? [];
+    if (points.length === 0) return;
+
+    // Handles included so bulging curves stay in view
+    const coordinates = points.flatMap((point) => [
+      point,
+      ...(point.handleIn ? [point.handleIn] : []),
+      ...(point.handleOut ? [point.handleOut] : []),
+    ]);
+    const margin =
+      (TRACK_BASE_WIDTH *
+        (trackData?.discretizationSettings.trackWidth ?? 100)) /
+      100 /
+      2;
+    const xs = coordinates.map((p) => p.x);
+    const ys = coordinates.map((p) => p.y);
+
+    fitToBounds({
+      minX: Math.min(...xs) - margin,
+      minY: Math.min(...ys) - margin,
+      maxX: Math.max(...xs) + margin,
+      maxY: Math.max(...ys) + margin,
+    });
+  }, [trackData, fitToBounds]);
+
+  const handleFitToImage = useCallback(() => {
+    if (!imageSize || !imageTransform) return;
+    fitToBounds(getImageBounds(imageTransform, imageSize));
+  }, [imageSize, imageTransform, fitToBounds]);
 
   const getSvgPoint = useCallback((clientX: number, clientY: number): Point => {
     if (!svgRef.current) return { x: clientX, y: clientY };
@@ -225,6 +615,10 @@ export function SplineEditor() {
         arcLengthSamples: 100,
         curvatureThreshold: 0.1,
       },
+      // Keep the scan where it was traced
+      ...(backgroundImage && imageTransform
+        ? { backgroundImageTransform: imageTransform }
+        : {}),
       validationErrors: [],
       isValid: false,
       lastValidated: new Date().toISOString(),
@@ -245,7 +639,14 @@ export function SplineEditor() {
     setIsDrawing(false);
     setCurrentPath([]);
     setSelectedPathId(splinePath.id);
-  }, [isDrawing, currentPath, setTrackData, raceSegments]);
+  }, [
+    isDrawing,
+    currentPath,
+    setTrackData,
+    raceSegments,
+    backgroundImage,
+    imageTransform,
+  ]);
 
   const handlePointDrag = useCallback(
     (pathId: string, pointIndex: number, x: number, y: number) => {
@@ -280,16 +681,15 @@ export function SplineEditor() {
           : undefined,
       };
 
-      // Update track data with new points
-      const updatedTrackData = {
-        ...trackData,
-        splinePath: {
-          ...trackData.splinePath,
-          points: newPoints,
-        },
-      };
+      // Regenerate spaces along the new spline, keeping corners in place
+      const { trackData: updatedTrackData, warnings } = rediscretizeTrack(
+        trackData,
+        { points: newPoints }
+      );
+      showCornerRemapWarnings(warnings);
 
-      setTrackData(updatedTrackData);
+      // One history entry per drag
+      setTrackData(updatedTrackData, `point-drag-${pointIndex}`);
       setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
     },
     [trackData, setTrackData]
@@ -337,27 +737,252 @@ export function SplineEditor() {
         };
       }
 
-      // Update track data with new points
-      const updatedTrackData = {
-        ...trackData,
-        splinePath: {
-          ...trackData.splinePath,
-          points: newPoints,
-        },
-      };
+      // Regenerate spaces along the new spline, keeping corners in place
+      const { trackData: updatedTrackData, warnings } = rediscretizeTrack(
+        trackData,
+        { points: newPoints }
+      );
+      showCornerRemapWarnings(warnings);
 
-      setTrackData(updatedTrackData);
+      setTrackData(updatedTrackData, `handle-drag-${pointIndex}`);
       setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
     },
     [trackData, setTrackData]
   );
 
   const handleClear = useCallback(() => {
+    flushLibrarySave();
     setTrackData(null);
     setEditorState((prev) => ({ ...prev, currentTrack: null }));
     setSelectedPathId(null);
     setSelectedPointIndex(null);
-  }, [setTrackData]);
+    setPlaytestCars([]);
+    setPlaytestEngines({});
+    setSelectedCarId(null);
+    setPlaytestResult(null);
+    setSimulationReport(null);
+    setSuggestedCorners([]);
+  }, [flushLibrarySave, setTrackData]);
+
+  // Download the current track as a .heat-track.json file
+  const handleExport = useCallback(() => {
+    if (!trackData) return;
+
+    const fileContents = exportTrackData(trackData, "json");
+    const blob = new Blob([fileContents], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = getTrackExportFileName(trackData);
+    link.click();
+    URL.revokeObjectURL(url);
+
+    toaster.create({
+      title: "Track exported",
+      description: link.download,
+      type: "success",
+    });
+  }, [trackData]);
+
+  // Printed size of the board, for the export controls
+  const boardSizeMm = useMemo(() => {
+    if (!trackData || (trackData.splinePath.points ?? []).length < 2) {
+      return null;
+    }
+    const { widthMm, heightMm } = getBoardLayout(trackData);
+    return { width: widthMm, height: heightMm };
+  }, [trackData]);
+
+  // Download the board without editor overlays, ready for printing
+  const handleExportBoard = useCallback(
+    async (
+      format: "svg" | "png" | "pdf",
+      exportOptions: { widthMm?: number; dpi: number; paper: PaperSize }
+    ) => {
+      if (!trackData) return;
+
+      const options = { ...exportOptions, trackColor, countdownTextColor };
+      try {
+        const blob =
+          format === "svg"
+            ? new Blob([renderBoardSvg(trackData, options)], {
+                type: "image/svg+xml",
+              })
+            : format === "png"
+              ? await renderBoardPng(trackData, options)
+              : await renderBoardPdf(trackData, options);
+        const url = URL.createObjectURL(blob);
+
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = getBoardExportFileName(trackData, format);
+        link.click();
+        URL.revokeObjectURL(url);
+
+        const { widthMm: printedWidth, heightMm: printedHeight } =
+          getBoardLayout(trackData, options);
+        const details =
+          format === "pdf"
+            ? ` on ${getTileLayout(printedWidth, printedHeight, options).tiles.length} pages`
+            : format === "png"
+              ? ` at ${options.dpi} DPI`
+              : "";
+        toaster.create({
+          title: "Board exported",
+          description: `${link.download} - ${printedWidth.toFixed(0)} x ${printedHeight.toFixed(0)} mm${details}`,
+          type: "success",
+        });
+      } catch (error) {
+        toaster.create({
+          title: "Board export failed",
+          description: error instanceof Error ? error.message : String(error),
+          type: "error",
+        });
+      }
+    },
+    [trackData, trackColor, countdownTextColor]
+  );
+
+  // Load a track file, auto-detecting which format it was exported in
+  // Open a track in the editor, resetting per-track editor state
+  const loadTrack = useCallback(
+    (track: TrackData) => {
+      // Edits still waiting on the save delay would be lost with the track
+      flushLibrarySave();
+      setTrackData(track);
+      setEditorState((prev) => ({
+        ...prev,
+        currentTrack: track,
+        selectedCorner: null,
+      }));
+      setSelectedPathId(track.splinePath.id);
+      setSelectedPointIndex(null);
+      setPlaytestCars([]);
+      setPlaytestEngines({});
+      setSelectedCarId(null);
+      setPlaytestResult(null);
+      setSimulationReport(null);
+      setSuggestedCorners([]);
+    },
+    [flushLibrarySave, setTrackData]
+  );
+
+  const handleImport = useCallback(
+    (fileContents: string) => {
+      try {
+        const format = detectTrackFormat(fileContents);
+        const importedTrackData = importTrackData(fileContents, format);
+
+        loadTrack(importedTrackData);
+
+        if (importedTrackData.validationErrors.length > 0) {
+          toaster.create({
+            title: `Imported "${importedTrackData.metadata.name}" with ${importedTrackData.validationErrors.length} validation error(s)`,
+            description: (
+              <Box as="ul" listStyleType="disc" pl={4}>
+                {importedTrackData.validationErrors.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </Box>
+            ),
+            type: "warning",
+            closable: true,
+            duration: 10000,
+          });
+        } else {
+          toaster.create({
+            title: `Imported "${importedTrackData.metadata.name}"`,
+            type: "success",
+          });
+        }
+      } catch (error) {
+        toaster.create({
+          title: "Import failed",
+          description:
+            error instanceof Error ? error.message : "Unknown error",
+          type: "error",
+          closable: true,
+        });
+      }
+    },
+    [loadTrack]
+  );
+
+  // Track library handlers - the open track is saved automatically
+  const handleOpenLibraryTrack = useCallback(
+    (trackId: string) => {
+      const track = libraryTracks.find((t) => t.id === trackId);
+      if (track) loadTrack(track);
+    },
+    [libraryTracks, loadTrack]
+  );
+
+  const handleDuplicateLibraryTrack = useCallback(
+    (trackId: string) => {
+      // The open track may have edits the library hasn't saved yet
+      const track =
+        trackData?.id === trackId
+          ? trackData
+          : libraryTracks.find((t) => t.id === trackId);
+      if (!track) return;
+
+      const now = new Date().toISOString();
+      const copy: TrackData = {
+        ...track,
+        id: generateId(),
+        metadata: {
+          ...track.metadata,
+          name: `${track.metadata.name} (copy)`,
+          createdAt: now,
+          updatedAt: now,
+        },
+      };
+      saveLibraryTrack(copy);
+      loadTrack(copy);
+    },
+    [trackData, libraryTracks, saveLibraryTrack, loadTrack]
+  );
+
+  const handleRenameLibraryTrack = useCallback(
+    (trackId: string, name: string) => {
+      // The open track is renamed through the editor so it can be undone
+      if (trackData?.id === trackId) {
+        const updatedTrackData = {
+          ...trackData,
+          metadata: { ...trackData.metadata, name },
+        };
+        setTrackData(updatedTrackData);
+        setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
+        return;
+      }
+
+      const track = libraryTracks.find((t) => t.id === trackId);
+      if (!track) return;
+      saveLibraryTrack({
+        ...track,
+        metadata: {
+          ...track.metadata,
+          name,
+          updatedAt: new Date().toISOString(),
+        },
+      });
+    },
+    [trackData, libraryTracks, setTrackData, saveLibraryTrack]
+  );
+
+  const handleDeleteLibraryTrack = useCallback(
+    (trackId: string) => {
+      const track = libraryTracks.find((t) => t.id === trackId);
+      if (!track || !window.confirm(`Delete "${track.metadata.name}"?`)) {
+        return;
+      }
+
+      if (trackData?.id === trackId) handleClear();
+      removeLibraryTrack(trackId);
+    },
+    [libraryTracks, trackData, handleClear, removeLibraryTrack]
+  );
 
   const handlePathClick = useCallback((pathId: string) => {
     setSelectedPathId(pathId);
@@ -394,15 +1019,22 @@ export function SplineEditor() {
     [editorState.splineToolMode, trackData, setTrackData]
   );
 
+  // A new scan starts fitted to the canvas again
   const handleImageUpload = useCallback(
     (imageUrl: string) => {
       updateBackgroundImage(imageUrl);
+      setDraftImageTransform(null);
+      if (trackData?.backgroundImageTransform) {
+        setTrackData({ ...trackData, backgroundImageTransform: undefined });
+      }
     },
-    [updateBackgroundImage]
+    [updateBackgroundImage, setDraftImageTransform, trackData, setTrackData]
   );
 
   const handleImageRemove = useCallback(() => {
     removeBackgroundImage();
+    setImageEditMode(null);
+    setCalibrationPoints([]);
   }, [removeBackgroundImage]);
 
   // Update race segments and regenerate spaces
@@ -411,150 +1043,413 @@ export function SplineEditor() {
       setRaceSegments(newSegments);
 
       if (trackData) {
-        // Ensure we have Bezier segments - convert from points if needed
-        let bezierSegments = trackData.splinePath.segments;
-        if (!bezierSegments || bezierSegments.length === 0) {
-          const points = trackData.splinePath.points || [];
-          bezierSegments = pointsToBezierSegments(points, "C1");
-        }
-
-        // Regenerate spaces with new segment count using segments
-        const newSpaces = discretizePathToSpaces(bezierSegments, newSegments);
+        // Regenerate spaces, snapping corners to the nearest new space line
+        const { trackData: rediscretizedTrackData, warnings } =
+          rediscretizeTrack(trackData, { spaceCount: newSegments });
+        showCornerRemapWarnings(warnings);
 
+        // Update metadata with calculated values
         const updatedTrackData = {
-          ...trackData,
-          spaces: newSpaces,
-          corners: [], // Keep corners empty - user manages them manually
-          discretizationSettings: {
-            ...trackData.discretizationSettings,
-            targetSpacesPerLap: newSegments,
-            currentSpacesPerLap: newSegments,
-          },
+          ...rediscretizedTrackData,
+          metadata: updateTrackMetadata(
+            rediscretizedTrackData.metadata,
+            rediscretizedTrackData.spaces,
+            rediscretizedTrackData.corners,
+            0, // Total length would be calculated from segments
+            rediscretizedTrackData.cornerGroups,
+            rediscretizedTrackData.overpasses
+          ),
         };
 
-        // Update metadata with calculated values
-        const updatedMetadata = updateTrackMetadata(
-          updatedTrackData.metadata,
-          newSpaces,
-          [],
-          0 // Total length would be calculated from segments
-        );
-
-        updatedTrackData.metadata = updatedMetadata;
-
-        setTrackData(updatedTrackData);
+        setTrackData(updatedTrackData, "race-segments");
         setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
       }
     },
     [trackData, setTrackData]
   );
 
+  // Update spots per space and regenerate spaces
+  const handleSpotCountChange = useCallback(
+    (newSpotCount: number) => {
+      if (!trackData) return;
+
+      const { trackData: updatedTrackData, warnings } = rediscretizeTrack(
+        trackData,
+        { spotCount: newSpotCount }
+      );
+      showCornerRemapWarnings(warnings);
+
+      setTrackData(updatedTrackData);
+      setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
+    },
+    [trackData, setTrackData]
+  );
+
   // Update scale
   const handleScaleChange = useCallback(
     (newScale: number) => {
       setScale(newScale);
 
       if (trackData) {
-        const updatedTrackData = {
+        // Branches sit a track width off the main track, so they move with it
+        const updatedTrackData = regenerateBranches({
           ...trackData,
           discretizationSettings: {
             ...trackData.discretizationSettings,
             trackWidth: newScale, // trackWidth now represents scale %
           },
-        };
+        });
 
-        setTrackData(updatedTrackData);
+        setTrackData(updatedTrackData, "scale");
         setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
       }
     },
     [trackData, setTrackData]
   );
 
-  // Toggle visibility handlers
-  const handleDebugMode = useCallback(() => {
-    setEditorState((prev) => ({ ...prev, debugMode: !prev.debugMode }));
-  }, []);
+  // Width points narrow or widen the track, so spaces are regenerated
+  const applyWidthPoints = useCallback(
+    (widthPoints: TrackWidthPoint[], coalesceKey?: string) => {
+      if (!trackData) return;
 
-  const handleToggleTrack = useCallback(() => {
-    setShowTrack((prev) => !prev);
-  }, [setShowTrack]);
+      const { trackData: updatedTrackData, warnings } = rediscretizeTrack(
+        { ...trackData, widthPoints },
+        {}
+      );
+      showCornerRemapWarnings(warnings);
 
-  // Editing mode handler
-  const handleEditingModeChange = useCallback(
-    (mode: "spline" | "corners" | "metadata" | "appearance") => {
-      setEditorState((prev) => ({
-        ...prev,
-        editingMode: mode,
-        selectedCorner: null,
-      }));
-      setSelectedPointIndex(null);
+      setTrackData(updatedTrackData, coalesceKey);
+      setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
     },
-    []
+    [trackData, setTrackData]
   );
 
-  // Spline tool mode handler
-  const handleSplineToolModeChange = useCallback(
-    (mode: "select" | "add" | "remove") => {
-      setEditorState((prev) => ({
-        ...prev,
-        splineToolMode: mode,
-      }));
-      // Clear selection when switching modes
-      if (mode !== "select") {
-        setSelectedPointIndex(null);
-      }
+  const handleAddWidthPoint = useCallback(() => {
+    const widthPoints = trackData?.widthPoints ?? [];
+    applyWidthPoints([...widthPoints, createWidthPoint(widthPoints)]);
+  }, [trackData, applyWidthPoints]);
+
+  const handleWidthPointUpdate = useCallback(
+    (
+      widthPointId: string,
+      updates: Partial<Pick<TrackWidthPoint, "position" | "width">>
+    ) => {
+      applyWidthPoints(
+        (trackData?.widthPoints ?? []).map((point) =>
+          point.id === widthPointId ? { ...point, ...updates } : point
+        ),
+        `width-point-${widthPointId}`
+      );
     },
-    []
+    [trackData, applyWidthPoints]
   );
 
-  // Corner tool mode handler
-  const handleCornerToolModeChange = useCallback(
-    (mode: "select" | "add" | "remove") => {
-      setEditorState((prev) => ({
-        ...prev,
-        cornerToolMode: mode,
-        selectedCorner: mode !== "select" ? null : prev.selectedCorner,
-      }));
+  const handleWidthPointRemove = useCallback(
+    (widthPointId: string) => {
+      applyWidthPoints(
+        (trackData?.widthPoints ?? []).filter(
+          (point) => point.id !== widthPointId
+        )
+      );
     },
-    []
+    [trackData, applyWidthPoints]
   );
 
-  // Metadata change handler
-  const handleMetadataChange = useCallback(
-    (updatedMetadata: any) => {
-      if (trackData) {
-        const updatedTrackData = {
-          ...trackData,
-          metadata: updatedMetadata,
-        };
-        setTrackData(updatedTrackData);
-        setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
-      }
+  // Lane overrides change the spots, so spaces are regenerated
+  const applyLaneOverrides = useCallback(
+    (laneOverrides: LaneOverride[], coalesceKey?: string) => {
+      if (!trackData) return;
+
+      const { trackData: updatedTrackData, warnings } = rediscretizeTrack(
+        { ...trackData, laneOverrides },
+        {}
+      );
+      showCornerRemapWarnings(warnings);
+
+      setTrackData(updatedTrackData, coalesceKey);
+      setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
+      // Cars on spots that no longer exist are taken off the board
+      setPlaytestCars((prev) =>
+        prev.filter(
+          (car) =>
+            car.branchId !== undefined ||
+            car.spotIndex <
+              (updatedTrackData.spaces[car.spaceIndex]?.spots.length ?? 0)
+        )
+      );
     },
     [trackData, setTrackData]
   );
 
-  // Helper function to calculate distance from point to line segment
-  const distanceToLineSegment = useCallback(
-    (
-      px: number,
-      py: number,
-      x1: number,
-      y1: number,
-      x2: number,
-      y2: number
-    ): number => {
-      const A = px - x1;
-      const B = py - y1;
-      const C = x2 - x1;
-      const D = y2 - y1;
+  const handleAddLaneOverride = useCallback(() => {
+    if (!trackData) return;
 
-      const dot = A * C + B * D;
-      const lenSq = C * C + D * D;
-      let param = -1;
-      if (lenSq !== 0) param = dot / lenSq;
+    const selectedSpace = trackData.spaces.find(
+      (space) => space.id === editorState.selectedSpace
+    );
+    applyLaneOverrides([
+      ...(trackData.laneOverrides ?? []),
+      createLaneOverride(trackData, selectedSpace?.index ?? 0),
+    ]);
+  }, [trackData, editorState.selectedSpace, applyLaneOverrides]);
+
+  const handleLaneOverrideUpdate = useCallback(
+    (laneOverrideId: string, updates: Partial<Omit<LaneOverride, "id">>) => {
+      applyLaneOverrides(
+        (trackData?.laneOverrides ?? []).map((override) => {
+          if (override.id !== laneOverrideId) return override;
+
+          const updated = { ...override, ...updates };
+          // Fewer spots can leave the race line off the edge
+          return {
+            ...updated,
+            raceLineSpotIndex: Math.min(
+              updated.raceLineSpotIndex,
+              updated.spotCount - 1
+            ),
+          };
+        }),
+        `lane-override-${laneOverrideId}`
+      );
+    },
+    [trackData, applyLaneOverrides]
+  );
 
-      let xx, yy;
+  const handleLaneOverrideRemove = useCallback(
+    (laneOverrideId: string) => {
+      applyLaneOverrides(
+        (trackData?.laneOverrides ?? []).filter(
+          (override) => override.id !== laneOverrideId
+        )
+      );
+    },
+    [trackData, applyLaneOverrides]
+  );
+
+  // Bridges and tunnels - the board's tunnel count follows them
+  const applyOverpasses = useCallback(
+    (overpasses: TrackOverpass[], coalesceKey?: string) => {
+      if (!trackData) return;
+
+      const updatedTrackData = {
+        ...trackData,
+        overpasses,
+        metadata: updateTrackMetadata(
+          trackData.metadata,
+          trackData.spaces,
+          trackData.corners,
+          trackData.metadata.boardMetadata.trackLength,
+          trackData.cornerGroups,
+          overpasses
+        ),
+      };
+      setTrackData(updatedTrackData, coalesceKey);
+      setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
+    },
+    [trackData, setTrackData]
+  );
+
+  const handleAddOverpass = useCallback(
+    (kind: TrackOverpass["kind"]) => {
+      if (!trackData) return;
+
+      const overpass = createOverpass(
+        trackData,
+        kind,
+        validationResult?.geometryValidation.intersections
+      );
+      if (!overpass) {
+        toaster.create({
+          title: "No crossing to cover",
+          description: "Every place the track crosses itself has an overpass",
+          type: "info",
+        });
+        return;
+      }
+      applyOverpasses([...(trackData.overpasses ?? []), overpass]);
+    },
+    [trackData, validationResult, applyOverpasses]
+  );
+
+  const handleOverpassUpdate = useCallback(
+    (overpassId: string, updates: Partial<Omit<TrackOverpass, "id">>) => {
+      applyOverpasses(
+        (trackData?.overpasses ?? []).map((overpass) =>
+          overpass.id === overpassId ? { ...overpass, ...updates } : overpass
+        ),
+        `overpass-${overpassId}`
+      );
+    },
+    [trackData, applyOverpasses]
+  );
+
+  const handleOverpassRemove = useCallback(
+    (overpassId: string) => {
+      applyOverpasses(
+        (trackData?.overpasses ?? []).filter(
+          (overpass) => overpass.id !== overpassId
+        )
+      );
+    },
+    [trackData, applyOverpasses]
+  );
+
+  // Pit lanes and alternative routes
+  const handleAddBranch = useCallback(
+    (kind: TrackBranch["kind"]) => {
+      if (!trackData) return;
+
+      const updatedTrackData = {
+        ...trackData,
+        branches: [
+          ...(trackData.branches ?? []),
+          createBranch(trackData, kind),
+        ],
+      };
+      setTrackData(updatedTrackData);
+      setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
+    },
+    [trackData, setTrackData]
+  );
+
+  const handleBranchUpdate = useCallback(
+    (
+      branchId: string,
+      {
+        spaceCount,
+        ...updates
+      }: Partial<
+        Pick<
+          TrackBranch,
+          "name" | "splitSpaceIndex" | "joinSpaceIndex" | "side"
+        >
+      > & { spaceCount?: number }
+    ) => {
+      if (!trackData) return;
+
+      const updatedTrackData = {
+        ...trackData,
+        branches: (trackData.branches ?? []).map((branch) =>
+          branch.id === branchId
+            ? buildBranch(
+                trackData,
+                { ...branch, ...updates },
+                spaceCount ?? branch.spaces.length
+              )
+            : branch
+        ),
+      };
+      setTrackData(updatedTrackData, `branch-${branchId}`);
+      setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
+    },
+    [trackData, setTrackData]
+  );
+
+  const handleBranchRemove = useCallback(
+    (branchId: string) => {
+      if (!trackData) return;
+
+      const updatedTrackData = {
+        ...trackData,
+        branches: trackData.branches?.filter(
+          (branch) => branch.id !== branchId
+        ),
+      };
+      setTrackData(updatedTrackData);
+      setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
+      setPlaytestCars((prev) =>
+        prev.filter((car) => car.branchId !== branchId)
+      );
+    },
+    [trackData, setTrackData]
+  );
+
+  // Toggle visibility handlers
+  const handleDebugMode = useCallback(() => {
+    setEditorState((prev) => ({ ...prev, debugMode: !prev.debugMode }));
+  }, []);
+
+  const handleToggleTrack = useCallback(() => {
+    setShowTrack((prev) => !prev);
+  }, [setShowTrack]);
+
+  // Editing mode handler
+  const handleEditingModeChange = useCallback(
+    (mode: "spline" | "corners" | "metadata" | "appearance" | "playtest") => {
+      setEditorState((prev) => ({
+        ...prev,
+        editingMode: mode,
+        selectedCorner: null,
+      }));
+      setSelectedPointIndex(null);
+    },
+    []
+  );
+
+  // Spline tool mode handler
+  const handleSplineToolModeChange = useCallback(
+    (mode: "select" | "add" | "remove") => {
+      setEditorState((prev) => ({
+        ...prev,
+        splineToolMode: mode,
+      }));
+      // Clear selection when switching modes
+      if (mode !== "select") {
+        setSelectedPointIndex(null);
+      }
+    },
+    []
+  );
+
+  // Corner tool mode handler
+  const handleCornerToolModeChange = useCallback(
+    (mode: "select" | "add" | "legend" | "remove") => {
+      setEditorState((prev) => ({
+        ...prev,
+        cornerToolMode: mode,
+        selectedCorner: mode !== "select" ? null : prev.selectedCorner,
+      }));
+    },
+    []
+  );
+
+  // Metadata change handler
+  const handleMetadataChange = useCallback(
+    (updatedMetadata: any) => {
+      if (trackData) {
+        const updatedTrackData = {
+          ...trackData,
+          metadata: updatedMetadata,
+        };
+        // Typing in a metadata field is one history entry
+        setTrackData(updatedTrackData, "metadata");
+        setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
+      }
+    },
+    [trackData, setTrackData]
+  );
+
+  // Helper function to calculate distance from point to line segment
+  const distanceToLineSegment = useCallback(
+    (
+      px: number,
+      py: number,
+      x1: number,
+      y1: number,
+      x2: number,
+      y2: number
+    ): number => {
+      const A = px - x1;
+      const B = py - y1;
+      const C = x2 - x1;
+      const D = y2 - y1;
+
+      const dot = A * C + B * D;
+      const lenSq = C * C + D * D;
+      let param = -1;
+      if (lenSq !== 0) param = dot / lenSq;
+
+      let xx, yy;
 
       if (param < 0) {
         xx = x1;
@@ -636,13 +1531,12 @@ export function SplineEditor() {
 
       newPoints.splice(bestInsertIndex, 0, newPoint);
 
-      const updatedTrackData = {
-        ...trackData,
-        splinePath: {
-          ...trackData.splinePath,
-          points: newPoints,
-        },
-      };
+      // Regenerate spaces along the new spline, keeping corners in place
+      const { trackData: updatedTrackData, warnings } = rediscretizeTrack(
+        trackData,
+        { points: newPoints }
+      );
+      showCornerRemapWarnings(warnings);
 
       setTrackData(updatedTrackData);
       setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
@@ -661,13 +1555,11 @@ export function SplineEditor() {
     const newPoints = [...points];
     newPoints.splice(selectedPointIndex, 1);
 
-    const updatedTrackData = {
-      ...trackData,
-      splinePath: {
-        ...trackData.splinePath,
-        points: newPoints,
-      },
-    };
+    const { trackData: updatedTrackData, warnings } = rediscretizeTrack(
+      trackData,
+      { points: newPoints }
+    );
+    showCornerRemapWarnings(warnings);
 
     setTrackData(updatedTrackData);
     setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
@@ -731,9 +1623,10 @@ export function SplineEditor() {
       // Debug print: log space index and position
       console.log(`[handleAddCornerAtSpace] Adding corner at space index: ${spaceIndex}`);
 
-      const newCorner: Corner = {
+      const newCorner = updateCornerGeometry(trackData, {
         id: generateId(),
         spaceIndex: spaceIndex,
+        arcPosition: getSpaceLineArcPosition(trackData, spaceIndex),
         speedLimit: 5, // Default speed limit
         position: space.position,
         isAutoSuggested: false,
@@ -746,7 +1639,7 @@ export function SplineEditor() {
         entryAngle: 0,
         exitAngle: 0,
         radius: 0,
-      };
+      });
 
       const updatedTrackData = {
         ...trackData,
@@ -777,6 +1670,134 @@ export function SplineEditor() {
     [trackData, findNearestSpace, handleAddCornerAtSpace]
   );
 
+  // Update the curvature threshold used for corner suggestions
+  const handleCornerSuggestionThresholdChange = useCallback(
+    (threshold: number) => {
+      if (!trackData) return;
+
+      const updatedTrackData = {
+        ...trackData,
+        discretizationSettings: {
+          ...trackData.discretizationSettings,
+          curvatureThreshold: threshold,
+        },
+      };
+
+      // Keystrokes while the field has focus are one undo step
+      setTrackData(updatedTrackData, "curvature-threshold");
+      setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
+    },
+    [trackData, setTrackData]
+  );
+
+  // Preview corners suggested from the track curvature
+  const handleSuggestCorners = useCallback(() => {
+    if (!trackData) return;
+
+    const suggestions = autoSuggestCorners(
+      trackData,
+      trackData.discretizationSettings.curvatureThreshold,
+      cornerSuggestionSpacing,
+      trackData.corners,
+      speedLimitModel
+    ).map(
+      (corner): Corner => ({
+        ...corner,
+        innerSide: trackData.metadata.raceDirection ? "left" : "right", // Match manually placed corners
+        badgeSide: trackData.metadata.raceDirection ? "left" : "right",
+      })
+    );
+
+    setSuggestedCorners(suggestions);
+
+    if (suggestions.length === 0) {
+      toaster.create({
+        title: "No corners suggested",
+        description: "Try a lower curvature threshold or spacing",
+        type: "info",
+      });
+    }
+  }, [trackData, cornerSuggestionSpacing, speedLimitModel]);
+
+  // Fit speed limit suggestions to this track's corners, replacing any
+  // samples an earlier calibration took from it
+  const handleCalibrateSpeedLimits = useCallback(() => {
+    if (!trackData) return;
+
+    if (trackData.corners.length === 0) {
+      toaster.create({
+        title: "No corners to calibrate from",
+        description: "Place the reference board's corners and speed limits",
+        type: "info",
+      });
+      return;
+    }
+
+    const samples = collectSpeedLimitSamples(trackData);
+    setSpeedLimitSamples((prev) => [
+      ...prev.filter((sample) => sample.trackId !== trackData.id),
+      ...samples,
+    ]);
+    toaster.create({
+      title: "Speed limits calibrated",
+      description: `${samples.length} corners from ${trackData.metadata.name}`,
+      type: "success",
+    });
+  }, [trackData, setSpeedLimitSamples]);
+
+  // Shape of the selected corner as the track is now, and the speed limit
+  // the model suggests for it
+  const selectedCornerGeometry = useMemo(() => {
+    const corner = trackData?.corners.find(
+      (c) => c.id === editorState.selectedCorner
+    );
+    if (!trackData || !corner) return undefined;
+
+    return measureCornerGeometry(trackData, corner.spaceIndex);
+  }, [trackData, editorState.selectedCorner]);
+
+  const selectedCornerSpeedLimit = useMemo(
+    () =>
+      selectedCornerGeometry &&
+      suggestSpeedLimit(selectedCornerGeometry, speedLimitModel),
+    [selectedCornerGeometry, speedLimitModel]
+  );
+
+  // Accept suggested corners, adding them to the track
+  const acceptSuggestedCorners = useCallback(
+    (cornerIds: string[]) => {
+      if (!trackData) return;
+
+      const accepted = suggestedCorners
+        .filter((c) => cornerIds.includes(c.id))
+        .map((c) => ({
+          ...c,
+          arcPosition: getSpaceLineArcPosition(trackData, c.spaceIndex),
+        }));
+      const updatedTrackData = {
+        ...trackData,
+        corners: [...trackData.corners, ...accepted],
+      };
+
+      setTrackData(updatedTrackData);
+      setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
+      setSuggestedCorners((prev) =>
+        prev.filter((c) => !cornerIds.includes(c.id))
+      );
+    },
+    [trackData, suggestedCorners, setTrackData]
+  );
+
+  const handleAcceptSuggestedCorner = useCallback(
+    (cornerId: string) => acceptSuggestedCorners([cornerId]),
+    [acceptSuggestedCorners]
+  );
+
+  const handleAcceptAllSuggestedCorners = useCallback(
+    () => acceptSuggestedCorners(suggestedCorners.map((c) => c.id)),
+    [acceptSuggestedCorners, suggestedCorners]
+  );
+
   // Handle corner badge click for selection/removal
   const handleCornerClick = useCallback(
     (cornerId: string) => {
@@ -784,9 +1805,29 @@ export function SplineEditor() {
 
       // In remove mode, remove the corner immediately
       if (editorState.cornerToolMode === "remove") {
+        const corners = trackData.corners.filter((c) => c.id !== cornerId);
+        const cornerGroups = removeCornerFromGroups(
+          trackData.cornerGroups,
+          cornerId
+        );
         const updatedTrackData = {
           ...trackData,
-          corners: trackData.corners.filter((c) => c.id !== cornerId),
+          corners,
+          cornerGroups,
+          metadata: updateTrackMetadata(
+            trackData.metadata,
+            trackData.spaces,
+            corners,
+            trackData.metadata.boardMetadata.trackLength,
+            cornerGroups,
+            trackData.overpasses
+          ),
+          legendLines: trackData.legendLines?.filter(
+            (legendLine) => legendLine.cornerId !== cornerId
+          ),
+          roadConditions: trackData.roadConditions?.filter(
+            (condition) => condition.cornerId !== cornerId
+          ),
         };
 
         setTrackData(updatedTrackData);
@@ -814,6 +1855,196 @@ export function SplineEditor() {
     ]
   );
 
+  // Legend lines for Legends mode, one per corner
+  const handleLegendSpaceClick = useCallback(
+    (spaceIndex: number) => {
+      if (!trackData) return;
+
+      const updatedTrackData = placeLegendLine(trackData, spaceIndex);
+      const legendLine = updatedTrackData.legendLines?.find(
+        (line) => line.spaceIndex === spaceIndex
+      );
+
+      setTrackData(updatedTrackData);
+      setEditorState((prev) => ({
+        ...prev,
+        currentTrack: updatedTrackData,
+        selectedCorner: legendLine?.cornerId ?? prev.selectedCorner,
+      }));
+    },
+    [trackData, setTrackData]
+  );
+
+  const handleLegendLineRemove = useCallback(
+    (cornerId: string) => {
+      if (!trackData) return;
+
+      const updatedTrackData = {
+        ...trackData,
+        legendLines: trackData.legendLines?.filter(
+          (legendLine) => legendLine.cornerId !== cornerId
+        ),
+      };
+      setTrackData(updatedTrackData);
+      setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
+    },
+    [trackData, setTrackData]
+  );
+
+  const handleLegendClick = useCallback(
+    (cornerId: string) => {
+      if (editorState.editingMode !== "corners") return;
+
+      if (editorState.cornerToolMode === "remove") {
+        handleLegendLineRemove(cornerId);
+        return;
+      }
+
+      setEditorState((prev) => ({ ...prev, selectedCorner: cornerId }));
+    },
+    [
+      editorState.editingMode,
+      editorState.cornerToolMode,
+      handleLegendLineRemove,
+    ]
+  );
+
+  // Update the selected corner's legend line
+  const handleLegendLineUpdate = useCallback(
+    (
+      updates: Partial<Pick<LegendLine, "spaceIndex" | "diamondSpaceIndex">>
+    ) => {
+      if (!trackData || !editorState.selectedCorner) return;
+
+      const updatedTrackData = {
+        ...trackData,
+        legendLines: trackData.legendLines?.map((legendLine) =>
+          legendLine.cornerId === editorState.selectedCorner
+            ? { ...legendLine, ...updates }
+            : legendLine
+        ),
+      };
+      setTrackData(updatedTrackData, `legend-${editorState.selectedCorner}`);
+      setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
+    },
+    [trackData, editorState.selectedCorner, setTrackData]
+  );
+
+  // Linked corners - the board's chicane count follows the groups
+  const applyCornerGroups = useCallback(
+    (updatedTrackData: TrackData) => {
+      const withMetadata = {
+        ...updatedTrackData,
+        metadata: updateTrackMetadata(
+          updatedTrackData.metadata,
+          updatedTrackData.spaces,
+          updatedTrackData.corners,
+          updatedTrackData.metadata.boardMetadata.trackLength,
+          updatedTrackData.cornerGroups,
+          updatedTrackData.overpasses
+        ),
+      };
+      setTrackData(withMetadata);
+      setEditorState((prev) => ({ ...prev, currentTrack: withMetadata }));
+    },
+    [setTrackData]
+  );
+
+  const handleLinkCornerWithNext = useCallback(() => {
+    if (!trackData || !editorState.selectedCorner) return;
+    applyCornerGroups(
+      linkCornerWithNext(trackData, editorState.selectedCorner)
+    );
+  }, [trackData, editorState.selectedCorner, applyCornerGroups]);
+
+  const handleCornerGroupUpdate = useCallback(
+    (groupId: string, kind: CornerGroup["kind"]) => {
+      if (!trackData) return;
+      applyCornerGroups({
+        ...trackData,
+        cornerGroups: trackData.cornerGroups?.map((group) =>
+          group.id === groupId ? { ...group, kind } : group
+        ),
+      });
+    },
+    [trackData, applyCornerGroups]
+  );
+
+  const handleCornerGroupRemove = useCallback(
+    (groupId: string) => {
+      if (!trackData) return;
+      applyCornerGroups({
+        ...trackData,
+        cornerGroups: trackData.cornerGroups?.filter(
+          (group) => group.id !== groupId
+        ),
+      });
+    },
+    [trackData, applyCornerGroups]
+  );
+
+  // Road condition tokens on the selected corner or the sector before it
+  const handleAddRoadCondition = useCallback(
+    (kind: RoadConditionKind) => {
+      if (!trackData || !editorState.selectedCorner) return;
+
+      const updatedTrackData = {
+        ...trackData,
+        roadConditions: [
+          ...(trackData.roadConditions ?? []),
+          { id: generateId(), kind, cornerId: editorState.selectedCorner },
+        ],
+      };
+      setTrackData(updatedTrackData);
+      setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
+    },
+    [trackData, editorState.selectedCorner, setTrackData]
+  );
+
+  const handleRoadConditionRemove = useCallback(
+    (conditionId: string) => {
+      if (!trackData) return;
+
+      const updatedTrackData = {
+        ...trackData,
+        roadConditions: trackData.roadConditions?.filter(
+          (condition) => condition.id !== conditionId
+        ),
+      };
+      setTrackData(updatedTrackData);
+      setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
+    },
+    [trackData, setTrackData]
+  );
+
+  // Tokens are removed by clicking them in remove mode
+  const handleRoadConditionClick = useCallback(
+    (conditionId: string) => {
+      if (editorState.editingMode !== "corners") return;
+
+      if (editorState.cornerToolMode === "remove") {
+        handleRoadConditionRemove(conditionId);
+        return;
+      }
+
+      const condition = trackData?.roadConditions?.find(
+        (c) => c.id === conditionId
+      );
+      if (condition) {
+        setEditorState((prev) => ({
+          ...prev,
+          selectedCorner: condition.cornerId,
+        }));
+      }
+    },
+    [
+      trackData,
+      editorState.editingMode,
+      editorState.cornerToolMode,
+      handleRoadConditionRemove,
+    ]
+  );
+
   // Handle space click (legacy - for backward compatibility if needed)
   const handleSpaceClick = useCallback(
     (_spaceIndex: number) => {
@@ -830,12 +2061,16 @@ export function SplineEditor() {
 
       const updatedTrackData = {
         ...trackData,
-        corners: trackData.corners.map((c) =>
-          c.id === editorState.selectedCorner ? { ...c, ...updates } : c
-        ),
+        corners: trackData.corners.map((c) => {
+          if (c.id !== editorState.selectedCorner) return c;
+          // Difficulty weighs the speed limit against the corner's shape
+          return updates.speedLimit !== undefined
+            ? updateCornerGeometry(trackData, { ...c, ...updates })
+            : { ...c, ...updates };
+        }),
       };
 
-      setTrackData(updatedTrackData);
+      setTrackData(updatedTrackData, `corner-${editorState.selectedCorner}`);
       setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
     },
     [trackData, editorState.selectedCorner, setTrackData]
@@ -873,7 +2108,12 @@ export function SplineEditor() {
       ...trackData,
       corners: trackData.corners.map((c) =>
         c.id === editorState.selectedCorner
-          ? { ...c, spaceIndex: newSpaceIndex, position: newSpace.position }
+          ? updateCornerGeometry(trackData, {
+              ...c,
+              spaceIndex: newSpaceIndex,
+              arcPosition: getSpaceLineArcPosition(trackData, newSpaceIndex),
+              position: newSpace.position,
+            })
           : c
       ),
     };
@@ -914,7 +2154,12 @@ export function SplineEditor() {
       ...trackData,
       corners: trackData.corners.map((c) =>
         c.id === editorState.selectedCorner
-          ? { ...c, spaceIndex: newSpaceIndex, position: newSpace.position }
+          ? updateCornerGeometry(trackData, {
+              ...c,
+              spaceIndex: newSpaceIndex,
+              arcPosition: getSpaceLineArcPosition(trackData, newSpaceIndex),
+              position: newSpace.position,
+            })
           : c
       ),
     };
@@ -945,6 +2190,285 @@ export function SplineEditor() {
     [trackData, editorState.editingMode, setTrackData]
   );
 
+  // Place a new car on a spot, or move the selected car there
+  const handlePlaytestSpotClick = useCallback(
+    (spaceIndex: number, spotIndex: number) => {
+      if (playtestAnimation) return;
+
+      const isTaken = playtestCars.some(
+        (car) =>
+          car.branchId === undefined &&
+          car.spaceIndex === spaceIndex &&
+          car.spotIndex === spotIndex
+      );
+      if (isTaken) return;
+
+      if (selectedCarId) {
+        setPlaytestCars((prev) =>
+          applyCarPosition(prev, { carId: selectedCarId, spaceIndex, spotIndex })
+        );
+      } else {
+        const newCar: CarPosition = { carId: generateId(), spaceIndex, spotIndex };
+        setPlaytestCars((prev) => [...prev, newCar]);
+        // New cars start from the values entered with no car selected
+        setPlaytestEngines((prev) => ({
+          ...prev,
+          [newCar.carId]: {
+            heat: playtestInput.heat,
+            gear: playtestInput.gear,
+          },
+        }));
+        setSelectedCarId(newCar.carId);
+      }
+      setPlaytestResult(null);
+    },
+    [playtestAnimation, playtestCars, playtestInput, selectedCarId]
+  );
+
+  // Clicking the selected car again deselects it so the next spot click adds a car
+  const handlePlaytestCarClick = useCallback(
+    (carId: string) => {
+      if (playtestAnimation) return;
+      setSelectedCarId((prev) => (prev === carId ? null : carId));
+      setPlaytestResult(null);
+    },
+    [playtestAnimation]
+  );
+
+  const handlePlaytestInputChange = useCallback(
+    (updates: Partial<Omit<TurnInput, "carId">>) => {
+      const { heat, gear, ...turnUpdates } = updates;
+      if (!selectedCarId) {
+        setPlaytestInput((prev) => ({ ...prev, ...updates }));
+        return;
+      }
+
+      setPlaytestInput((prev) => ({ ...prev, ...turnUpdates }));
+      setPlaytestEngines((prev) => {
+        const engine = prev[selectedCarId] ?? {
+          heat: playtestInput.heat,
+          gear: playtestInput.gear,
+        };
+        return {
+          ...prev,
+          [selectedCarId]: {
+            heat: heat ?? engine.heat,
+            gear: gear ?? engine.gear,
+          },
+        };
+      });
+    },
+    [selectedCarId, playtestInput]
+  );
+
+  // Resolve a turn for the selected car and animate it along the spaces
+  const handleRunTurn = useCallback(() => {
+    if (!trackData || !selectedCarId) return;
+
+    let result: TurnResult;
+    try {
+      result = resolveTurn(trackData, playtestCars, {
+        ...selectedCarInput,
+        carId: selectedCarId,
+      });
+    } catch (error) {
+      toaster.create({
+        title: "Turn failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        type: "error",
+      });
+      return;
+    }
+
+    const { move } = result;
+    const frames: CarPosition[] = [
+      move.from,
+      ...move.steps.map((step) => ({
+        carId: move.carId,
+        branchId: step.branchId,
+        spaceIndex: step.spaceIndex,
+        spotIndex: move.from.spotIndex,
+      })),
+      move.to,
+      result.finalPosition,
+    ].filter(
+      (frame, index, all) =>
+        index === 0 ||
+        frame.branchId !== all[index - 1]?.branchId ||
+        frame.spaceIndex !== all[index - 1]?.spaceIndex ||
+        frame.spotIndex !== all[index - 1]?.spotIndex
+    );
+
+    setPlaytestCars((prev) => applyCarPosition(prev, result.finalPosition));
+    setPlaytestResult(result);
+    setPlaytestEngines((prev) => ({
+      ...prev,
+      [selectedCarId]: { heat: result.heatRemaining, gear: result.gear },
+    }));
+    setPlaytestAnimation({ frames, frameIndex: 0 });
+  }, [trackData, selectedCarId, playtestCars, selectedCarInput]);
+
+  const handleRemoveCar = useCallback(() => {
+    if (!selectedCarId) return;
+    setPlaytestCars((prev) => prev.filter((car) => car.carId !== selectedCarId));
+    setPlaytestEngines((prev) => {
+      const { [selectedCarId]: _removed, ...rest } = prev;
+      return rest;
+    });
+    setSelectedCarId(null);
+    setPlaytestResult(null);
+  }, [selectedCarId]);
+
+  const handleClearCars = useCallback(() => {
+    setPlaytestCars([]);
+    setPlaytestEngines({});
+    setSelectedCarId(null);
+    setPlaytestResult(null);
+  }, []);
+
+  // While animating, draw the moving car at its current frame
+  const animatedCar = playtestAnimation?.frames[playtestAnimation.frameIndex];
+  const displayedCars = animatedCar
+    ? applyCarPosition(playtestCars, animatedCar)
+    : playtestCars;
+
+  // Run AI races on the track and store the measured difficulty
+  const handleRunSimulation = useCallback(async () => {
+    if (!trackData) return;
+
+    simulationRef.current?.abort();
+    const simulation = new AbortController();
+    simulationRef.current = simulation;
+    setIsSimulating(true);
+    setSimulationProgress(0);
+
+    try {
+      const report = await simulateRaces(trackData, {
+        signal: simulation.signal,
+        onProgress: (completedRaces, races) =>
+          setSimulationProgress(completedRaces / races),
+      });
+      const updatedTrackData = {
+        ...trackData,
+        metadata: {
+          ...trackData.metadata,
+          boardMetadata: {
+            ...trackData.metadata.boardMetadata,
+            difficulty: report.difficulty,
+          },
+        },
+      };
+
+      setSimulationReport(report);
+      setTrackData(updatedTrackData);
+      setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
+    } catch (error) {
+      if (simulation.signal.aborted) return;
+      toaster.create({
+        title: "Simulation failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        type: "error",
+      });
+    } finally {
+      // Runs that were cancelled or replaced have already handed over
+      if (simulationRef.current === simulation) {
+        simulationRef.current = null;
+        setIsSimulating(false);
+      }
+    }
+  }, [trackData, setTrackData]);
+
+  const handleCancelSimulation = useCallback(() => {
+    simulationRef.current?.abort();
+    simulationRef.current = null;
+    setIsSimulating(false);
+  }, []);
+
+  // A report only describes the track it ran on, so edits stop the run
+  useEffect(() => {
+    handleCancelSimulation();
+  }, [trackData, handleCancelSimulation]);
+
+  // Select the corner, space or segment a validation issue points at
+  const handleValidationIssueClick = useCallback(
+    (issue: TrackValidationIssue) => {
+      if (!trackData || !issue.target) return;
+
+      switch (issue.target.type) {
+        case "corner": {
+          const { cornerId } = issue.target;
+          setEditorState((prev) => ({
+            ...prev,
+            editingMode: "corners",
+            cornerToolMode: "select",
+            selectedCorner: cornerId,
+          }));
+          break;
+        }
+        case "space": {
+          const { spaceIndex } = issue.target;
+          const space = trackData.spaces.find((s) => s.index === spaceIndex);
+          setEditorState((prev) => ({
+            ...prev,
+            selectedSpace: space?.id ?? null,
+          }));
+          break;
+        }
+        case "segment":
+        case "intersection":
+          setEditorState((prev) => ({
+            ...prev,
+            editingMode: "spline",
+            splineToolMode: "select",
+          }));
+          setSelectedPathId(trackData.splinePath.id);
+          setSelectedPointIndex(issue.target.segmentIndex);
+          break;
+      }
+    },
+    [trackData]
+  );
+
+  // Allow a self-intersection as a deliberate crossover (e.g. a bridge)
+  const handleAllowCrossover = useCallback(
+    (point: Point) => {
+      if (!trackData) return;
+
+      const updatedTrackData: TrackData = {
+        ...trackData,
+        crossovers: [
+          ...(trackData.crossovers ?? []),
+          { id: generateId(), position: point },
+        ],
+      };
+      setTrackData(updatedTrackData);
+      setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
+    },
+    [trackData, setTrackData]
+  );
+
+  // Clicking a crossing marker toggles its crossover
+  const handleIntersectionClick = useCallback(
+    (intersection: TrackIntersection) => {
+      if (!trackData) return;
+
+      if (!intersection.crossoverId) {
+        handleAllowCrossover(intersection.point);
+        return;
+      }
+
+      const updatedTrackData: TrackData = {
+        ...trackData,
+        crossovers: trackData.crossovers?.filter(
+          (crossover) => crossover.id !== intersection.crossoverId
+        ),
+      };
+      setTrackData(updatedTrackData);
+      setEditorState((prev) => ({ ...prev, currentTrack: updatedTrackData }));
+    },
+    [trackData, setTrackData, handleAllowCrossover]
+  );
+
   // Generate SVG path string for current drawing
   const currentPathString =
     currentPath.length > 1
@@ -964,23 +2488,35 @@ export function SplineEditor() {
         ref={svgRef}
         height={dimensions.height}
         style={{
-          cursor: isDrawing ? "crosshair" : "default",
+          cursor: isPanning
+            ? "grabbing"
+            : isPanMode
+              ? "grab"
+              : isDrawing
+                ? "crosshair"
+                : "default",
           userSelect: "none",
         }}
+        viewBox={viewBox}
         width={dimensions.width}
+        onClickCapture={handlePanClick}
         onMouseDown={handleMouseDown}
+        onMouseDownCapture={handlePanMouseDown}
         onMouseLeave={handleMouseUp}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
       >
         {/* Background image */}
-        {isImageLoaded && backgroundImage && (
+        {isImageLoaded && backgroundImage && imageSize && imageTransform && (
           <image
-            height={dimensions.height}
+            height={imageSize.height}
             href={backgroundImage}
-            preserveAspectRatio="xMidYMid meet"
+            opacity={imageTransform.opacity}
             style={{ pointerEvents: "none" }}
-            width={dimensions.width}
+            transform={imageTransformToSvg(imageTransform)}
+            width={imageSize.width}
+            x={-imageSize.width / 2}
+            y={-imageSize.height / 2}
           />
         )}
 
@@ -988,24 +2524,40 @@ export function SplineEditor() {
         {isLoaded && trackData && showTrack && (
           <RaceTrack
             key={`track-${trackData.id}`}
+            branches={trackData.branches}
+            cars={displayedCars}
             closed={trackData.splinePath.closed}
+            cornerGroups={trackData.cornerGroups}
             corners={trackData.corners}
             cornerToolMode={editorState.cornerToolMode}
             countdownTextColor={countdownTextColor}
             debugMode={editorState.debugMode}
             editingMode={editorState.editingMode}
+            legendLines={trackData.legendLines}
+            overpasses={trackData.overpasses}
             points={trackData.splinePath.points || []}
             raceDirection={trackData.metadata.raceDirection}
+            roadConditions={trackData.roadConditions}
             scale={trackData.discretizationSettings.trackWidth}
             segments={raceSegments}
+            selectedCarId={selectedCarId}
             selectedCorner={editorState.selectedCorner}
+            selectedSpace={editorState.selectedSpace}
             spaces={trackData.spaces}
             startFinishSpaceIndex={trackData.metadata.startFinishSpaceIndex}
+            suggestedCorners={suggestedCorners}
             trackColor={trackColor}
+            widthPoints={trackData.widthPoints}
+            onCarClick={handlePlaytestCarClick}
             onCornerClick={handleCornerClick}
             onCornerSpaceClick={handleAddCornerAtSpace}
+            onLegendClick={handleLegendClick}
+            onLegendSpaceClick={handleLegendSpaceClick}
+            onRoadConditionClick={handleRoadConditionClick}
             onSpaceClick={handleSpaceClick}
+            onSpotClick={handlePlaytestSpotClick}
             onStartFinishClick={handleStartFinishClick}
+            onSuggestedCornerClick={handleAcceptSuggestedCorner}
             onTrackClickWithCoords={handleAddCornerAtCoords}
           />
         )}
@@ -1025,6 +2577,9 @@ export function SplineEditor() {
             }
             strokeWidth={trackData.splinePath.strokeWidth}
             toolMode={editorState.splineToolMode}
+            zoom={viewport.zoom}
+            onDragEnd={endGesture}
+            onDragStart={beginGesture}
             onHandleDrag={(index, type, x, y) =>
               handleHandleDrag(trackData.splinePath.id, index, type, x, y)
             }
@@ -1039,6 +2594,23 @@ export function SplineEditor() {
           />
         )}
 
+        {/* Self-intersections and allowed crossovers - on top of the spline editor */}
+        {isLoaded &&
+          trackData &&
+          showTrack &&
+          validationResult?.geometryValidation.intersections.map(
+            (intersection) => (
+              <IntersectionMarker
+                key={`intersection-${intersection.point.x}-${intersection.point.y}`}
+                isCrossover={!!intersection.crossoverId}
+                scale={trackData.discretizationSettings.trackWidth}
+                x={intersection.point.x}
+                y={intersection.point.y}
+                onClick={() => handleIntersectionClick(intersection)}
+              />
+            )
+          )}
+
         {/* Render current drawing path TODO*/}
         {isDrawing && currentPath.length > 1 && (
           <path
@@ -1051,42 +2623,176 @@ export function SplineEditor() {
             strokeWidth={3}
           />
         )}
+
+        {/* Moving or calibrating the background image - on top of everything */}
+        {backgroundImage && imageEditMode && imageTransform && (
+          <ImageEditOverlay
+            calibrationPoints={calibrationPoints}
+            height={dimensions.height}
+            mode={imageEditMode}
+            transform={imageTransform}
+            viewport={viewport}
+            width={dimensions.width}
+            onCalibrationClick={handleCalibrationClick}
+            onDragEnd={endGesture}
+            onDragStart={beginGesture}
+            onTransformChange={handleImageTransformChange}
+          />
+        )}
       </svg>
 
+      <ZoomControls
+        canFitImage={!!imageSize}
+        zoom={viewport.zoom}
+        onFitImage={handleFitToImage}
+        onFitTrack={handleFitToTrack}
+        onReset={resetViewport}
+        onZoomIn={() => zoomBy(ZOOM_STEP)}
+        onZoomOut={() => zoomBy(1 / ZOOM_STEP)}
+      />
+
+      {isLibraryOpen && isLibraryLoaded && (
+        <TrackLibrary
+          currentTrackId={trackData?.id ?? null}
+          tracks={libraryTracks}
+          onClose={() => setIsLibraryOpen(false)}
+          onCreate={handleClear}
+          onDelete={handleDeleteLibraryTrack}
+          onDuplicate={handleDuplicateLibraryTrack}
+          onOpen={handleOpenLibraryTrack}
+          onRename={handleRenameLibraryTrack}
+        />
+      )}
+
+      {isLoaded && validationResult && (
+        <ValidationPanel
+          result={validationResult}
+          onAllowCrossover={handleAllowCrossover}
+          onIssueClick={handleValidationIssueClick}
+        />
+      )}
+
       <Toolbar
         _onRemoveSelectedPoint={handleRemoveSelectedPoint}
         _selectedPointIndex={selectedPointIndex}
+        boardScale={trackData?.boardScale}
+        boardSizeMm={boardSizeMm}
+        branches={trackData?.branches}
+        calibrationPointCount={calibrationPoints.length}
+        canAddBranch={(trackData?.spaces.length ?? 0) >= 4}
+        canCalibrate={!!trackData}
+        canExport={!!trackData}
+        canRedo={canRedo}
+        canUndo={canUndo}
+        cornerSuggestionSpacing={cornerSuggestionSpacing}
+        cornerSuggestionThreshold={
+          trackData?.discretizationSettings.curvatureThreshold
+        }
         cornerToolMode={editorState.cornerToolMode}
         countdownTextColor={countdownTextColor}
         debugMode={editorState.debugMode}
         editingMode={editorState.editingMode}
         hasImage={!!backgroundImage}
+        hasSelectedCar={!!selectedCarId}
+        imageEditMode={imageEditMode}
+        imageTransform={imageTransform}
+        isLibraryOpen={isLibraryOpen}
+        isPlaytestAnimating={!!playtestAnimation}
+        isSimulating={isSimulating}
+        laneOverrides={trackData?.laneOverrides}
+        overpasses={trackData?.overpasses}
+        playtestInput={selectedCarInput}
+        playtestResult={playtestResult}
         raceSegments={raceSegments}
+        roadConditions={trackData?.roadConditions}
         scale={scale}
         selectedCorner={trackData?.corners.find(
           (c) => c.id === editorState.selectedCorner
         )}
+        selectedCornerGeometry={selectedCornerGeometry}
+        selectedCornerGroup={trackData?.cornerGroups?.find((group) =>
+          group.cornerIds.includes(editorState.selectedCorner ?? "")
+        )}
+        selectedCornerSpeedLimit={selectedCornerSpeedLimit}
+        selectedLegendLine={trackData?.legendLines?.find(
+          (legendLine) => legendLine.cornerId === editorState.selectedCorner
+        )}
         showTrack={showTrack}
+        simulationProgress={simulationProgress}
+        simulationReport={simulationReport}
+        speedLimitModel={speedLimitModel}
         splineToolMode={editorState.splineToolMode}
+        spotCount={trackData?.discretizationSettings.spotCount}
+        suggestedCornerCount={suggestedCorners.length}
         trackColor={trackColor}
         trackMetadata={trackData?.metadata}
+        widthPoints={trackData?.widthPoints}
+        onAcceptAllSuggestedCorners={handleAcceptAllSuggestedCorners}
+        onAddBranch={handleAddBranch}
+        onAddLaneOverride={handleAddLaneOverride}
+        onAddOverpass={handleAddOverpass}
+        onAddRoadCondition={handleAddRoadCondition}
+        onAddWidthPoint={handleAddWidthPoint}
+        onApplyCalibration={handleApplyCalibration}
+        onBranchRemove={handleBranchRemove}
+        onBranchUpdate={handleBranchUpdate}
+        onCalibrateSpeedLimits={handleCalibrateSpeedLimits}
+        onCancelSimulation={handleCancelSimulation}
         onClear={handleClear}
+        onClearCars={handleClearCars}
+        onCornerGroupRemove={handleCornerGroupRemove}
+        onCornerGroupUpdate={handleCornerGroupUpdate}
+        onCornerLinkWithNext={handleLinkCornerWithNext}
         onCornerMoveBackward={handleMoveCornerBackward}
         onCornerMoveForward={handleMoveCornerForward}
+        onCornerSuggestionSpacingChange={setCornerSuggestionSpacing}
+        onCornerSuggestionThresholdChange={
+          handleCornerSuggestionThresholdChange
+        }
         onCornerToolModeChange={handleCornerToolModeChange}
         onCornerUpdate={handleUpdateCorner}
         onCountdownTextColorChange={setCountdownTextColor}
+        onDismissSuggestedCorners={() => setSuggestedCorners([])}
         onEditingModeChange={handleEditingModeChange}
+        onExport={handleExport}
+        onExportBoard={handleExportBoard}
+        onFieldEditEnd={endGesture}
+        onFieldEditStart={beginGesture}
+        onImageEditModeChange={handleImageEditModeChange}
         onImageRemove={handleImageRemove}
+        onImageTransformChange={handleImageTransformChange}
+        onImageTransformReset={handleImageTransformReset}
         onImageUpload={handleImageUpload}
+        onImport={handleImport}
+        onLaneOverrideRemove={handleLaneOverrideRemove}
+        onLaneOverrideUpdate={handleLaneOverrideUpdate}
+        onLegendLineRemove={handleLegendLineRemove}
+        onLegendLineUpdate={handleLegendLineUpdate}
         onMetadataChange={handleMetadataChange}
+        onOverpassRemove={handleOverpassRemove}
+        onOverpassUpdate={handleOverpassUpdate}
+        onPlaytestInputChange={handlePlaytestInputChange}
         onRaceSegmentsChange={handleRaceSegmentsChange}
+        onRedo={handleRedo}
+        onRemoveCar={handleRemoveCar}
+        onResetSpeedLimitModel={() => setSpeedLimitSamples([])}
+        onRoadConditionRemove={handleRoadConditionRemove}
+        onRunSimulation={handleRunSimulation}
+        onRunTurn={handleRunTurn}
         onScaleChange={handleScaleChange}
         onSplineToolModeChange={handleSplineToolModeChange}
+        onSpotCountChange={handleSpotCountChange}
+        onSuggestCorners={handleSuggestCorners}
         onToggleDebug={handleDebugMode}
+        onToggleLibrary={() => setIsLibraryOpen((prev) => !prev)}
         onToggleTrack={handleToggleTrack}
         onTrackColorChange={setTrackColor}
+        onUndo={handleUndo}
+        onWidthPointRemove={handleWidthPointRemove}
+        onWidthPointUpdate={handleWidthPointUpdate}
       />
+
+      <Toaster />
     </Box>
   );
 }
@@ -2,44 +2,122 @@
 
 /* eslint-disable simple-import-sort/imports */
 import { Box, HStack, Input, Text, VStack } from "@chakra-ui/react";
-import React, { useRef } from "react";
+import React, { useRef, useState } from "react";
 import {
   FaArrowsLeftRight,
   FaChevronLeft,
+  FaChartLine,
   FaChevronRight,
+  FaCrosshairs,
+  FaDownload,
   FaEye,
   FaEyeSlash,
+  FaFileImage,
+  FaFilePdf,
   FaFlagCheckered,
+  FaFolderOpen,
+  FaHand,
   FaHandPointer,
+  FaHelmetSafety,
   FaImage,
+  FaLink,
+  FaLinkSlash,
   FaMinus,
+  FaPlay,
   FaPlus,
+  FaRotateLeft,
+  FaRotateRight,
   FaTrash,
+  FaUpload,
+  FaWandMagicSparkles,
   FaX,
 } from "react-icons/fa6";
 import { RetroButton } from "./chakra/RetroButton";
 import { RetroColorInput } from "./chakra/RetroColorInput";
 import { RetroInput } from "./chakra/RetroInput";
 
-import { Corner } from "@/types/spline";
+import { PAPER_SIZES, PaperSize } from "@/utils/boardPdf";
+import {
+  BackgroundImageTransform,
+  BoardScale,
+  Corner,
+  CornerGeometry,
+  CornerGroup,
+  LaneOverride,
+  LegendLine,
+  RaceSimulationReport,
+  RoadCondition,
+  RoadConditionKind,
+  SpeedLimitModel,
+  SpeedLimitSuggestion,
+  TrackBranch,
+  TrackOverpass,
+  TrackWidthPoint,
+  TurnInput,
+  TurnResult,
+} from "@/types/spline";
+
+// Road condition tokens, corner kinds first, then sector kinds
+const ROAD_CONDITION_OPTIONS: { kind: RoadConditionKind; label: string }[] = [
+  { kind: "speed-limit-up", label: "Limit +1" },
+  { kind: "speed-limit-down", label: "Limit -1" },
+  { kind: "overheat", label: "Overheat" },
+  { kind: "slipstream-boost", label: "Sector Slipstream +1" },
+  { kind: "free-cooling", label: "Sector Cooling +1" },
+];
+
+// History gesture held while a toolbar field has focus
+const FIELD_EDIT_GESTURE = "toolbar-field";
 
 interface ToolbarProps {
   onClear: () => void;
+  onExport: () => void;
+  onImport: (fileContents: string) => void;
+  canExport: boolean;
+  // Track library sidebar
+  isLibraryOpen?: boolean;
+  onToggleLibrary?: () => void;
+  // Undo/redo of track edits
+  canUndo?: boolean;
+  canRedo?: boolean;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  // Typing into one field is a single undo step
+  onFieldEditStart?: (gestureId: string) => void;
+  onFieldEditEnd?: (gestureId: string) => void;
   onImageUpload: (imageUrl: string) => void;
   onImageRemove: () => void;
   hasImage: boolean;
+  // Background image placement and board calibration
+  imageTransform?: BackgroundImageTransform | null;
+  onImageTransformChange?: (transform: BackgroundImageTransform) => void;
+  onImageTransformReset?: () => void;
+  imageEditMode?: "move" | "calibrate" | null;
+  onImageEditModeChange?: (mode: "move" | "calibrate" | null) => void;
+  canCalibrate?: boolean;
+  calibrationPointCount?: number;
+  boardScale?: BoardScale;
+  onApplyCalibration?: (distance: number, unit: BoardScale["unit"]) => void;
+  // Print-ready board export
+  boardSizeMm?: { width: number; height: number } | null;
+  onExportBoard?: (
+    format: "svg" | "png" | "pdf",
+    options: { widthMm?: number; dpi: number; paper: PaperSize }
+  ) => void;
   scale: number;
   onScaleChange: (value: number) => void;
   raceSegments: number;
   onRaceSegmentsChange: (value: number) => void;
+  spotCount?: number;
+  onSpotCountChange?: (value: number) => void;
   // New props for Section B features
   debugMode: boolean;
   onToggleDebug: () => void;
   showTrack: boolean;
   onToggleTrack: () => void;
-  editingMode: "spline" | "corners" | "metadata" | "appearance";
+  editingMode: "spline" | "corners" | "metadata" | "appearance" | "playtest";
   onEditingModeChange: (
-    mode: "spline" | "corners" | "metadata" | "appearance"
+    mode: "spline" | "corners" | "metadata" | "appearance" | "playtest"
   ) => void;
   trackColor?: string;
   onTrackColorChange?: (color: string) => void;
@@ -55,7 +133,10 @@ interface ToolbarProps {
       spacesPerLap: number;
       heatCardCount: number;
       stressCardCount: number;
+      chicanes?: number;
+      tunnels?: number;
     };
+    tags?: string[];
   };
   onMetadataChange?: (metadata: any) => void;
   // Manual point editing props
@@ -64,26 +145,132 @@ interface ToolbarProps {
   // Spline tool mode props
   splineToolMode?: "select" | "add" | "remove";
   onSplineToolModeChange?: (mode: "select" | "add" | "remove") => void;
+  // Pit lanes and alternative routes
+  branches?: TrackBranch[];
+  canAddBranch?: boolean;
+  onAddBranch?: (kind: TrackBranch["kind"]) => void;
+  onBranchUpdate?: (
+    branchId: string,
+    updates: Partial<
+      Pick<TrackBranch, "name" | "splitSpaceIndex" | "joinSpaceIndex" | "side">
+    > & { spaceCount?: number }
+  ) => void;
+  onBranchRemove?: (branchId: string) => void;
+  // Track width control points
+  widthPoints?: TrackWidthPoint[];
+  onAddWidthPoint?: () => void;
+  onWidthPointUpdate?: (
+    widthPointId: string,
+    updates: Partial<Pick<TrackWidthPoint, "position" | "width">>
+  ) => void;
+  onWidthPointRemove?: (widthPointId: string) => void;
+  // Per-space lane layouts
+  laneOverrides?: LaneOverride[];
+  onAddLaneOverride?: () => void;
+  onLaneOverrideUpdate?: (
+    laneOverrideId: string,
+    updates: Partial<Omit<LaneOverride, "id">>
+  ) => void;
+  onLaneOverrideRemove?: (laneOverrideId: string) => void;
+  // Bridges and tunnels where the track crosses itself
+  overpasses?: TrackOverpass[];
+  onAddOverpass?: (kind: TrackOverpass["kind"]) => void;
+  onOverpassUpdate?: (
+    overpassId: string,
+    updates: Partial<Omit<TrackOverpass, "id">>
+  ) => void;
+  onOverpassRemove?: (overpassId: string) => void;
   // Corner tool mode props
-  cornerToolMode?: "select" | "add" | "remove";
-  onCornerToolModeChange?: (mode: "select" | "add" | "remove") => void;
+  cornerToolMode?: "select" | "add" | "legend" | "remove";
+  onCornerToolModeChange?: (
+    mode: "select" | "add" | "legend" | "remove"
+  ) => void;
   // Corner editing props
   selectedCorner?: Corner | undefined;
   onCornerUpdate?: (updates: Partial<Corner>) => void;
+  // Legend line of the selected corner
+  selectedLegendLine?: LegendLine;
+  onLegendLineUpdate?: (
+    updates: Partial<Pick<LegendLine, "spaceIndex" | "diamondSpaceIndex">>
+  ) => void;
+  onLegendLineRemove?: (cornerId: string) => void;
+  // Group of the selected corner - chicanes and double apexes
+  selectedCornerGroup?: CornerGroup;
+  onCornerLinkWithNext?: () => void;
+  onCornerGroupUpdate?: (groupId: string, kind: CornerGroup["kind"]) => void;
+  onCornerGroupRemove?: (groupId: string) => void;
+  // Road condition tokens on corners and their sectors
+  roadConditions?: RoadCondition[];
+  onAddRoadCondition?: (kind: RoadConditionKind) => void;
+  onRoadConditionRemove?: (conditionId: string) => void;
   // Corner movement props
   onCornerMoveBackward?: () => void;
   onCornerMoveForward?: () => void;
+  // Corner suggestion props
+  cornerSuggestionThreshold?: number;
+  onCornerSuggestionThresholdChange?: (value: number) => void;
+  cornerSuggestionSpacing?: number;
+  onCornerSuggestionSpacingChange?: (value: number) => void;
+  suggestedCornerCount?: number;
+  onSuggestCorners?: () => void;
+  onAcceptAllSuggestedCorners?: () => void;
+  onDismissSuggestedCorners?: () => void;
+  // Speed limit model and what it suggests for the selected corner
+  speedLimitModel?: SpeedLimitModel;
+  selectedCornerSpeedLimit?: SpeedLimitSuggestion;
+  selectedCornerGeometry?: CornerGeometry;
+  onCalibrateSpeedLimits?: () => void;
+  onResetSpeedLimitModel?: () => void;
+  // Play-test props
+  playtestInput?: Omit<TurnInput, "carId">;
+  onPlaytestInputChange?: (updates: Partial<Omit<TurnInput, "carId">>) => void;
+  playtestResult?: TurnResult | null;
+  hasSelectedCar?: boolean;
+  isPlaytestAnimating?: boolean;
+  onRunTurn?: () => void;
+  onRemoveCar?: () => void;
+  onClearCars?: () => void;
+  // Race simulation props
+  simulationReport?: RaceSimulationReport | null;
+  isSimulating?: boolean;
+  simulationProgress?: number; // 0-1 of the races run so far
+  onRunSimulation?: () => void;
+  onCancelSimulation?: () => void;
 }
 
 export function Toolbar({
   onClear,
+  onExport,
+  onImport,
+  canExport,
+  isLibraryOpen = false,
+  onToggleLibrary,
+  canUndo = false,
+  canRedo = false,
+  onUndo,
+  onRedo,
+  onFieldEditStart,
+  onFieldEditEnd,
   onImageUpload,
   onImageRemove,
   raceSegments,
   onRaceSegmentsChange,
+  spotCount,
+  onSpotCountChange,
   scale,
   onScaleChange,
   hasImage,
+  imageTransform,
+  onImageTransformChange,
+  onImageTransformReset,
+  imageEditMode = null,
+  onImageEditModeChange,
+  canCalibrate = false,
+  calibrationPointCount = 0,
+  boardScale,
+  onApplyCalibration,
+  boardSizeMm,
+  onExportBoard,
   debugMode,
   onToggleDebug,
   showTrack,
@@ -96,18 +283,89 @@ export function Toolbar({
   _onRemoveSelectedPoint,
   splineToolMode = "select",
   onSplineToolModeChange,
+  branches = [],
+  canAddBranch = false,
+  onAddBranch,
+  onBranchUpdate,
+  onBranchRemove,
+  widthPoints = [],
+  onAddWidthPoint,
+  onWidthPointUpdate,
+  onWidthPointRemove,
+  laneOverrides = [],
+  onAddLaneOverride,
+  onLaneOverrideUpdate,
+  onLaneOverrideRemove,
+  overpasses = [],
+  onAddOverpass,
+  onOverpassUpdate,
+  onOverpassRemove,
   cornerToolMode = "select",
   onCornerToolModeChange,
   selectedCorner,
   onCornerUpdate,
+  selectedLegendLine,
+  onLegendLineUpdate,
+  onLegendLineRemove,
+  selectedCornerGroup,
+  onCornerLinkWithNext,
+  onCornerGroupUpdate,
+  onCornerGroupRemove,
+  roadConditions = [],
+  onAddRoadCondition,
+  onRoadConditionRemove,
   trackColor,
   onTrackColorChange,
   countdownTextColor,
   onCountdownTextColorChange,
   onCornerMoveBackward,
   onCornerMoveForward,
+  cornerSuggestionThreshold = 0.1,
+  onCornerSuggestionThresholdChange,
+  cornerSuggestionSpacing = 3,
+  onCornerSuggestionSpacingChange,
+  suggestedCornerCount = 0,
+  onSuggestCorners,
+  onAcceptAllSuggestedCorners,
+  onDismissSuggestedCorners,
+  speedLimitModel,
+  selectedCornerSpeedLimit,
+  selectedCornerGeometry,
+  onCalibrateSpeedLimits,
+  onResetSpeedLimitModel,
+  playtestInput,
+  onPlaytestInputChange,
+  playtestResult,
+  hasSelectedCar = false,
+  isPlaytestAnimating = false,
+  onRunTurn,
+  onRemoveCar,
+  onClearCars,
+  simulationReport,
+  isSimulating = false,
+  simulationProgress = 0,
+  onRunSimulation,
+  onCancelSimulation,
 }: ToolbarProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const trackFileInputRef = useRef<HTMLInputElement>(null);
+  const [calibrationDistance, setCalibrationDistance] = useState("");
+  const [calibrationUnit, setCalibrationUnit] = useState<BoardScale["unit"]>(
+    boardScale?.unit ?? "cm"
+  );
+  const [printWidthMm, setPrintWidthMm] = useState("");
+  const [printDpi, setPrintDpi] = useState(300);
+  const [printPaper, setPrintPaper] = useState<PaperSize>("a4");
+
+  // Empty width prints at the calibrated (1:1) size
+  const handleExportBoard = (format: "svg" | "png" | "pdf") => {
+    const widthMm = parseFloat(printWidthMm);
+    onExportBoard?.(format, {
+      widthMm: widthMm > 0 ? widthMm : undefined,
+      dpi: printDpi,
+      paper: printPaper,
+    });
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -126,6 +384,23 @@ export function Toolbar({
     }
   };
 
+  const handleTrackFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const fileContents = event.target?.result as string;
+      onImport(fileContents);
+    };
+    reader.readAsText(file);
+
+    // Reset input so the same file can be selected again
+    if (trackFileInputRef.current) {
+      trackFileInputRef.current.value = "";
+    }
+  };
+
   const handleRaceSegmentsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseInt(e.target.value, 10);
     if (!isNaN(value) && value > 0) {
@@ -133,6 +408,13 @@ export function Toolbar({
     }
   };
 
+  const handleSpotCountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10);
+    if (!isNaN(value) && value > 0) {
+      onSpotCountChange?.(value);
+    }
+  };
+
   const handleScaleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseInt(e.target.value, 10);
     if (!isNaN(value) && value > 0) {
@@ -140,6 +422,15 @@ export function Toolbar({
     }
   };
 
+  const handleImageTransformChange = (
+    field: keyof BackgroundImageTransform,
+    value: number
+  ) => {
+    if (imageTransform && !isNaN(value)) {
+      onImageTransformChange?.({ ...imageTransform, [field]: value });
+    }
+  };
+
   const handleMetadataChange = (field: string, value: any) => {
     if (onMetadataChange && trackMetadata) {
       const updatedMetadata = {
@@ -163,6 +454,15 @@ export function Toolbar({
     }
   };
 
+  const handlePlaytestInputChange =
+    (field: "speed" | "boost" | "heat" | "gear") =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = parseInt(e.target.value, 10);
+      if (!isNaN(value) && value >= 0) {
+        onPlaytestInputChange?.({ [field]: value });
+      }
+    };
+
   const getModeInfo = () => {
     switch (editingMode) {
       case "spline":
@@ -189,6 +489,12 @@ export function Toolbar({
           text: "Track Appearance Mode",
           description: "Customize track visuals",
         };
+      case "playtest":
+        return {
+          color: "red.400",
+          text: "Play-Test Mode",
+          description: "Place cars on spots and test moves",
+        };
     }
   };
 
@@ -221,6 +527,16 @@ export function Toolbar({
       top={0}
       width="100%"
       zIndex={1000}
+      onBlur={(e) => {
+        if (e.target instanceof HTMLInputElement) {
+          onFieldEditEnd?.(FIELD_EDIT_GESTURE);
+        }
+      }}
+      onFocus={(e) => {
+        if (e.target instanceof HTMLInputElement) {
+          onFieldEditStart?.(FIELD_EDIT_GESTURE);
+        }
+      }}
     >
       <VStack align="stretch" gap={3}>
         {/* Mode Status Bar (gauge + checkered flag) */}
@@ -265,7 +581,9 @@ export function Toolbar({
                     ? "⚠️"
                     : editingMode === "metadata"
                       ? "📋"
-                      : "🎨"}
+                      : editingMode === "playtest"
+                        ? "🏎️"
+                        : "🎨"}
               </Text>
             </Box>
 
@@ -322,6 +640,13 @@ export function Toolbar({
               >
                 {editingMode === "appearance" && <FaFlagCheckered />}Appearance
               </RetroButton>
+              <RetroButton
+                isToggled={editingMode === "playtest"}
+                size="sm"
+                onClick={() => onEditingModeChange("playtest")}
+              >
+                {editingMode === "playtest" && <FaFlagCheckered />}Play-Test
+              </RetroButton>
             </HStack>
 
             {/* Visual Toggles */}
@@ -366,6 +691,51 @@ export function Toolbar({
               </RetroButton>
             )}
 
+            {/* Track Library */}
+            <RetroButton
+              isToggled={isLibraryOpen}
+              size="sm"
+              onClick={onToggleLibrary}
+            >
+              <FaFolderOpen /> Library
+            </RetroButton>
+
+            {/* History Controls */}
+            <RetroButton
+              disabled={!canUndo}
+              size="sm"
+              title="Undo (Ctrl+Z)"
+              onClick={onUndo}
+            >
+              <FaRotateLeft /> Undo
+            </RetroButton>
+            <RetroButton
+              disabled={!canRedo}
+              size="sm"
+              title="Redo (Ctrl+Shift+Z)"
+              onClick={onRedo}
+            >
+              <FaRotateRight /> Redo
+            </RetroButton>
+
+            {/* Track File Controls */}
+            <Input
+              ref={trackFileInputRef}
+              accept=".json,application/json"
+              display="none"
+              type="file"
+              onChange={handleTrackFileChange}
+            />
+            <RetroButton
+              size="sm"
+              onClick={() => trackFileInputRef.current?.click()}
+            >
+              <FaUpload /> Import
+            </RetroButton>
+            <RetroButton disabled={!canExport} size="sm" onClick={onExport}>
+              <FaDownload /> Export
+            </RetroButton>
+
             <RetroButton size="sm" onClick={onClear}>
               <FaTrash /> Clear All
             </RetroButton>
@@ -403,6 +773,190 @@ export function Toolbar({
               </HStack>
             )}
 
+            {/* Branch Controls - pit lanes and alternative routes */}
+            {editingMode === "spline" && (
+              <VStack align="stretch" gap={2}>
+                <HStack gap={2} justify="center" wrap="wrap">
+                  <Text fontSize="sm" fontWeight="medium" whiteSpace="nowrap">
+                    Branches:
+                  </Text>
+                  <RetroButton
+                    disabled={!canAddBranch}
+                    size="sm"
+                    onClick={() => onAddBranch?.("pit-lane")}
+                  >
+                    <FaPlus /> Pit Lane
+                  </RetroButton>
+                  <RetroButton
+                    disabled={!canAddBranch}
+                    size="sm"
+                    onClick={() => onAddBranch?.("alternative")}
+                  >
+                    <FaPlus /> Alternative Route
+                  </RetroButton>
+                </HStack>
+
+                {branches.map((branch) => (
+                  <HStack key={branch.id} gap={2} justify="center" wrap="wrap">
+                    <RetroInput
+                      size="sm"
+                      value={branch.name}
+                      width="120px"
+                      onChange={(e) =>
+                        onBranchUpdate?.(branch.id, { name: e.target.value })
+                      }
+                    />
+                    <Text fontSize="sm" whiteSpace="nowrap">
+                      Split:
+                    </Text>
+                    <RetroInput
+                      max={raceSegments - 1}
+                      min={0}
+                      size="sm"
+                      type="number"
+                      value={branch.splitSpaceIndex}
+                      width="60px"
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        if (
+                          !isNaN(value) &&
+                          value >= 0 &&
+                          value < raceSegments
+                        ) {
+                          onBranchUpdate?.(branch.id, {
+                            splitSpaceIndex: value,
+                          });
+                        }
+                      }}
+                    />
+                    <Text fontSize="sm" whiteSpace="nowrap">
+                      Join:
+                    </Text>
+                    <RetroInput
+                      max={raceSegments - 1}
+                      min={0}
+                      size="sm"
+                      type="number"
+                      value={branch.joinSpaceIndex}
+                      width="60px"
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        if (
+                          !isNaN(value) &&
+                          value >= 0 &&
+                          value < raceSegments
+                        ) {
+                          onBranchUpdate?.(branch.id, {
+                            joinSpaceIndex: value,
+                          });
+                        }
+                      }}
+                    />
+                    <Text fontSize="sm" whiteSpace="nowrap">
+                      Spaces:
+                    </Text>
+                    <RetroInput
+                      min={1}
+                      size="sm"
+                      type="number"
+                      value={branch.spaces.length}
+                      width="60px"
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        if (!isNaN(value) && value > 0) {
+                          onBranchUpdate?.(branch.id, { spaceCount: value });
+                        }
+                      }}
+                    />
+                    <RetroButton
+                      size="sm"
+                      onClick={() =>
+                        onBranchUpdate?.(branch.id, {
+                          side: branch.side === "left" ? "right" : "left",
+                        })
+                      }
+                    >
+                      <FaArrowsLeftRight />{" "}
+                      {branch.side === "left" ? "Left" : "Right"}
+                    </RetroButton>
+                    <RetroButton
+                      size="sm"
+                      onClick={() => onBranchRemove?.(branch.id)}
+                    >
+                      <FaTrash />
+                    </RetroButton>
+                  </HStack>
+                ))}
+              </VStack>
+            )}
+
+            {/* Width Controls - narrow or widen the track along the lap */}
+            {editingMode === "spline" && (
+              <VStack align="stretch" gap={2}>
+                <HStack gap={2} justify="center" wrap="wrap">
+                  <Text fontSize="sm" fontWeight="medium" whiteSpace="nowrap">
+                    Width:
+                  </Text>
+                  <RetroButton
+                    disabled={!canExport}
+                    size="sm"
+                    onClick={onAddWidthPoint}
+                  >
+                    <FaPlus /> Width Point
+                  </RetroButton>
+                </HStack>
+
+                {[...widthPoints]
+                  .sort((a, b) => a.position - b.position)
+                  .map((point) => (
+                    <HStack key={point.id} gap={2} justify="center" wrap="wrap">
+                      <Text fontSize="sm" whiteSpace="nowrap">
+                        At (% of lap):
+                      </Text>
+                      <RetroInput
+                        max={99}
+                        min={0}
+                        size="sm"
+                        type="number"
+                        value={Math.round(point.position * 100)}
+                        width="60px"
+                        onChange={(e) => {
+                          const value = parseInt(e.target.value, 10);
+                          if (!isNaN(value) && value >= 0 && value < 100) {
+                            onWidthPointUpdate?.(point.id, {
+                              position: value / 100,
+                            });
+                          }
+                        }}
+                      />
+                      <Text fontSize="sm" whiteSpace="nowrap">
+                        Width (%):
+                      </Text>
+                      <RetroInput
+                        max={300}
+                        min={10}
+                        size="sm"
+                        type="number"
+                        value={point.width}
+                        width="70px"
+                        onChange={(e) => {
+                          const value = parseInt(e.target.value, 10);
+                          if (!isNaN(value) && value >= 10 && value <= 300) {
+                            onWidthPointUpdate?.(point.id, { width: value });
+                          }
+                        }}
+                      />
+                      <RetroButton
+                        size="sm"
+                        onClick={() => onWidthPointRemove?.(point.id)}
+                      >
+                        <FaTrash />
+                      </RetroButton>
+                    </HStack>
+                  ))}
+              </VStack>
+            )}
+
             {/* Corner Tool Mode Controls */}
             {editingMode === "corners" && (
               <HStack gap={2} justify="center" wrap="wrap">
@@ -423,6 +977,13 @@ export function Toolbar({
                 >
                   <FaPlus /> Add Corner
                 </RetroButton>
+                <RetroButton
+                  isToggled={cornerToolMode === "legend"}
+                  size="sm"
+                  onClick={() => onCornerToolModeChange?.("legend")}
+                >
+                  <FaHelmetSafety /> Legend Line
+                </RetroButton>
                 <RetroButton
                   isToggled={cornerToolMode === "remove"}
                   size="sm"
@@ -433,6 +994,90 @@ export function Toolbar({
               </HStack>
             )}
 
+            {/* Corner Suggestion Controls */}
+            {editingMode === "corners" && (
+              <HStack gap={4} justify="center" wrap="wrap">
+                <HStack gap={2}>
+                  <Text fontSize="sm" whiteSpace="nowrap">
+                    Curvature Threshold:
+                  </Text>
+                  <RetroInput
+                    min={0}
+                    size="sm"
+                    step={0.001}
+                    type="number"
+                    value={cornerSuggestionThreshold}
+                    width="80px"
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (!isNaN(value) && value >= 0) {
+                        onCornerSuggestionThresholdChange?.(value);
+                      }
+                    }}
+                  />
+                </HStack>
+
+                <HStack gap={2}>
+                  <Text fontSize="sm" whiteSpace="nowrap">
+                    Min Spacing:
+                  </Text>
+                  <RetroInput
+                    min={1}
+                    size="sm"
+                    type="number"
+                    value={cornerSuggestionSpacing}
+                    width="60px"
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      if (!isNaN(value) && value > 0) {
+                        onCornerSuggestionSpacingChange?.(value);
+                      }
+                    }}
+                  />
+                </HStack>
+
+                <RetroButton size="sm" onClick={onSuggestCorners}>
+                  <FaWandMagicSparkles /> Auto-suggest Corners
+                </RetroButton>
+
+                {suggestedCornerCount > 0 && (
+                  <>
+                    <RetroButton size="sm" onClick={onAcceptAllSuggestedCorners}>
+                      <FaPlus /> Accept All ({suggestedCornerCount})
+                    </RetroButton>
+                    <RetroButton size="sm" onClick={onDismissSuggestedCorners}>
+                      <FaX /> Dismiss
+                    </RetroButton>
+                    <Text color="gray.300" fontSize="xs">
+                      Click a faded badge to accept one corner
+                    </Text>
+                  </>
+                )}
+              </HStack>
+            )}
+
+            {/* Speed limit model - calibrated from reference boards */}
+            {editingMode === "corners" && (
+              <HStack gap={2} justify="center" wrap="wrap">
+                <Text fontSize="sm" whiteSpace="nowrap">
+                  Speed Model:
+                </Text>
+                <Text color="gray.300" fontSize="sm" whiteSpace="nowrap">
+                  {speedLimitModel && speedLimitModel.sampleCount > 0
+                    ? `${speedLimitModel.sampleCount} reference corners, ±${speedLimitModel.residual.toFixed(1)}`
+                    : "Built-in"}
+                </Text>
+                <RetroButton size="sm" onClick={onCalibrateSpeedLimits}>
+                  <FaCrosshairs /> Calibrate from Track
+                </RetroButton>
+                {speedLimitModel && speedLimitModel.sampleCount > 0 && (
+                  <RetroButton size="sm" onClick={onResetSpeedLimitModel}>
+                    <FaRotateLeft /> Reset
+                  </RetroButton>
+                )}
+              </HStack>
+            )}
+
             {/* Corner Editing Controls */}
             {editingMode === "corners" && selectedCorner && (
               <HStack gap={4} justify="center" wrap="wrap">
@@ -450,11 +1095,55 @@ export function Toolbar({
                     onChange={(e) =>
                       onCornerUpdate?.({
                         speedLimit: parseInt(e.target.value, 10),
+                        speedLimitConfidence: undefined,
                       })
                     }
                   />
                 </HStack>
 
+                {selectedCornerSpeedLimit && (
+                  <HStack gap={2}>
+                    <Text fontSize="sm" whiteSpace="nowrap">
+                      Suggested: {selectedCornerSpeedLimit.speedLimit} (
+                      {Math.round(selectedCornerSpeedLimit.confidence * 100)}%
+                      sure)
+                    </Text>
+                    <RetroButton
+                      size="sm"
+                      onClick={() =>
+                        onCornerUpdate?.({
+                          speedLimit: selectedCornerSpeedLimit.speedLimit,
+                          speedLimitConfidence:
+                            selectedCornerSpeedLimit.confidence,
+                        })
+                      }
+                    >
+                      Use
+                    </RetroButton>
+                  </HStack>
+                )}
+
+                {/* Measured shape of the corner's curve */}
+                {selectedCornerGeometry && (
+                  <HStack gap={2}>
+                    <Text fontSize="sm" whiteSpace="nowrap">
+                      Geometry:
+                    </Text>
+                    <Text color="gray.300" fontSize="sm" whiteSpace="nowrap">
+                      Turn {Math.round(selectedCornerGeometry.turnAngle)}° -
+                      Radius {selectedCornerGeometry.radius.toFixed(1)} spaces -
+                      Entry {Math.round(selectedCornerGeometry.entryAngle)}° to
+                      Exit {Math.round(selectedCornerGeometry.exitAngle)}° -
+                      Apex{" "}
+                      {Math.abs(selectedCornerGeometry.apexOffset).toFixed(1)}{" "}
+                      {selectedCornerGeometry.apexOffset < 0
+                        ? "before"
+                        : "after"}{" "}
+                      the line
+                    </Text>
+                  </HStack>
+                )}
+
                 <HStack gap={2}>
                   <Text fontSize="sm" whiteSpace="nowrap">
                     Inner Side:
@@ -498,6 +1187,166 @@ export function Toolbar({
                     <FaChevronRight />
                   </RetroButton>
                 </HStack>
+
+                {/* Linked corners - checked once and counted down together */}
+                <HStack gap={2}>
+                  <Text fontSize="sm" whiteSpace="nowrap">
+                    Group:
+                  </Text>
+                  <RetroButton size="sm" onClick={onCornerLinkWithNext}>
+                    <FaLink /> Link Next
+                  </RetroButton>
+                  {selectedCornerGroup && (
+                    <>
+                      <RetroButton
+                        isToggled={selectedCornerGroup.kind === "chicane"}
+                        size="sm"
+                        onClick={() =>
+                          onCornerGroupUpdate?.(
+                            selectedCornerGroup.id,
+                            "chicane"
+                          )
+                        }
+                      >
+                        Chicane
+                      </RetroButton>
+                      <RetroButton
+                        isToggled={selectedCornerGroup.kind === "double-apex"}
+                        size="sm"
+                        onClick={() =>
+                          onCornerGroupUpdate?.(
+                            selectedCornerGroup.id,
+                            "double-apex"
+                          )
+                        }
+                      >
+                        Double Apex
+                      </RetroButton>
+                      <RetroButton
+                        size="sm"
+                        onClick={() =>
+                          onCornerGroupRemove?.(selectedCornerGroup.id)
+                        }
+                      >
+                        <FaLinkSlash /> Unlink
+                      </RetroButton>
+                    </>
+                  )}
+                </HStack>
+
+                {/* Legends mode - legend line before the corner and its diamond space */}
+                {selectedLegendLine ? (
+                  <HStack gap={2}>
+                    <Text fontSize="sm" whiteSpace="nowrap">
+                      Legend Line:
+                    </Text>
+                    <RetroButton
+                      size="sm"
+                      onClick={() =>
+                        onLegendLineUpdate?.({
+                          spaceIndex:
+                            (selectedLegendLine.spaceIndex - 1 + raceSegments) %
+                            raceSegments,
+                        })
+                      }
+                    >
+                      <FaChevronLeft />
+                    </RetroButton>
+                    <RetroButton
+                      size="sm"
+                      onClick={() =>
+                        onLegendLineUpdate?.({
+                          spaceIndex:
+                            (selectedLegendLine.spaceIndex + 1) % raceSegments,
+                        })
+                      }
+                    >
+                      <FaChevronRight />
+                    </RetroButton>
+                    <Text fontSize="sm" whiteSpace="nowrap">
+                      Diamond:
+                    </Text>
+                    <RetroButton
+                      size="sm"
+                      onClick={() =>
+                        onLegendLineUpdate?.({
+                          diamondSpaceIndex:
+                            (selectedLegendLine.diamondSpaceIndex -
+                              1 +
+                              raceSegments) %
+                            raceSegments,
+                        })
+                      }
+                    >
+                      <FaChevronLeft />
+                    </RetroButton>
+                    <RetroButton
+                      size="sm"
+                      onClick={() =>
+                        onLegendLineUpdate?.({
+                          diamondSpaceIndex:
+                            (selectedLegendLine.diamondSpaceIndex + 1) %
+                            raceSegments,
+                        })
+                      }
+                    >
+                      <FaChevronRight />
+                    </RetroButton>
+                    <RetroButton
+                      size="sm"
+                      onClick={() =>
+                        onLegendLineRemove?.(selectedLegendLine.cornerId)
+                      }
+                    >
+                      <FaTrash />
+                    </RetroButton>
+                  </HStack>
+                ) : (
+                  <Text color="gray.300" fontSize="xs">
+                    Use the Legend Line tool to place this corner&apos;s legend
+                    line
+                  </Text>
+                )}
+              </HStack>
+            )}
+
+            {/* Road condition tokens on the selected corner and its sector */}
+            {editingMode === "corners" && selectedCorner && (
+              <HStack gap={2} justify="center" wrap="wrap">
+                <Text fontSize="sm" whiteSpace="nowrap">
+                  Road Conditions:
+                </Text>
+                {ROAD_CONDITION_OPTIONS.map(({ kind, label }) => {
+                  const tokens = roadConditions.filter(
+                    (condition) =>
+                      condition.cornerId === selectedCorner.id &&
+                      condition.kind === kind
+                  );
+                  const lastToken = tokens[tokens.length - 1];
+                  return (
+                    <HStack key={kind} gap={1}>
+                      <RetroButton
+                        size="sm"
+                        onClick={() => onAddRoadCondition?.(kind)}
+                      >
+                        <FaPlus /> {label}
+                      </RetroButton>
+                      {lastToken && (
+                        <>
+                          <Text fontSize="sm">x{tokens.length}</Text>
+                          <RetroButton
+                            size="sm"
+                            onClick={() =>
+                              onRoadConditionRemove?.(lastToken.id)
+                            }
+                          >
+                            <FaMinus />
+                          </RetroButton>
+                        </>
+                      )}
+                    </HStack>
+                  );
+                })}
               </HStack>
             )}
 
@@ -550,6 +1399,401 @@ export function Toolbar({
               </VStack>
             )}
 
+            {/* Background Image Controls */}
+            {editingMode === "appearance" && hasImage && imageTransform && (
+              <HStack gap={4} justify="center" wrap="wrap">
+                <HStack gap={2}>
+                  <Text fontSize="sm" fontWeight="medium" whiteSpace="nowrap">
+                    Image:
+                  </Text>
+                  <RetroButton
+                    isToggled={imageEditMode === "move"}
+                    size="sm"
+                    onClick={() =>
+                      onImageEditModeChange?.(
+                        imageEditMode === "move" ? null : "move"
+                      )
+                    }
+                  >
+                    <FaHand /> Move
+                  </RetroButton>
+                </HStack>
+                <HStack gap={2}>
+                  <Text fontSize="sm" whiteSpace="nowrap">
+                    Scale:
+                  </Text>
+                  <RetroInput
+                    min={1}
+                    size="sm"
+                    step={0.1}
+                    type="number"
+                    value={Math.round(imageTransform.scale * 1000) / 10}
+                    width="80px"
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (value > 0) {
+                        handleImageTransformChange("scale", value / 100);
+                      }
+                    }}
+                  />
+                  <Text fontSize="sm">%</Text>
+                </HStack>
+                <HStack gap={2}>
+                  <Text fontSize="sm" whiteSpace="nowrap">
+                    Rotation:
+                  </Text>
+                  <RetroInput
+                    size="sm"
+                    step={0.5}
+                    type="number"
+                    value={imageTransform.rotation}
+                    width="70px"
+                    onChange={(e) =>
+                      handleImageTransformChange(
+                        "rotation",
+                        parseFloat(e.target.value)
+                      )
+                    }
+                  />
+                  <Text fontSize="sm">°</Text>
+                </HStack>
+                <HStack gap={2}>
+                  <Text fontSize="sm" whiteSpace="nowrap">
+                    Opacity:
+                  </Text>
+                  <RetroInput
+                    max={100}
+                    min={0}
+                    size="sm"
+                    type="number"
+                    value={Math.round(imageTransform.opacity * 100)}
+                    width="70px"
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      if (value >= 0 && value <= 100) {
+                        handleImageTransformChange("opacity", value / 100);
+                      }
+                    }}
+                  />
+                  <Text fontSize="sm">%</Text>
+                </HStack>
+                <RetroButton size="sm" onClick={onImageTransformReset}>
+                  <FaRotateLeft /> Reset
+                </RetroButton>
+
+                {/* Two-point calibration of the board scale */}
+                <HStack gap={2}>
+                  <RetroButton
+                    disabled={!canCalibrate}
+                    isToggled={imageEditMode === "calibrate"}
+                    size="sm"
+                    title={canCalibrate ? undefined : "Draw or open a track first"}
+                    onClick={() =>
+                      onImageEditModeChange?.(
+                        imageEditMode === "calibrate" ? null : "calibrate"
+                      )
+                    }
+                  >
+                    <FaCrosshairs /> Calibrate
+                  </RetroButton>
+                  {imageEditMode === "calibrate" &&
+                    calibrationPointCount < 2 && (
+                      <Text color="gray.300" fontSize="xs">
+                        Click two known points on the scan (
+                        {calibrationPointCount}/2)
+                      </Text>
+                    )}
+                  {imageEditMode === "calibrate" &&
+                    calibrationPointCount >= 2 && (
+                      <>
+                        <Text fontSize="sm" whiteSpace="nowrap">
+                          Distance:
+                        </Text>
+                        <RetroInput
+                          min={0}
+                          size="sm"
+                          step={0.1}
+                          type="number"
+                          value={calibrationDistance}
+                          width="80px"
+                          onChange={(e) =>
+                            setCalibrationDistance(e.target.value)
+                          }
+                        />
+                        {(["mm", "cm", "in"] as const).map((unit) => (
+                          <RetroButton
+                            key={unit}
+                            isToggled={calibrationUnit === unit}
+                            size="sm"
+                            onClick={() => setCalibrationUnit(unit)}
+                          >
+                            {unit}
+                          </RetroButton>
+                        ))}
+                        <RetroButton
+                          disabled={!(parseFloat(calibrationDistance) > 0)}
+                          size="sm"
+                          onClick={() =>
+                            onApplyCalibration?.(
+                              parseFloat(calibrationDistance),
+                              calibrationUnit
+                            )
+                          }
+                        >
+                          Apply
+                        </RetroButton>
+                      </>
+                    )}
+                  {imageEditMode !== "calibrate" && boardScale && (
+                    <Text color="gray.300" fontSize="xs">
+                      1 {boardScale.unit} ={" "}
+                      {boardScale.pixelsPerUnit.toFixed(1)} px
+                    </Text>
+                  )}
+                </HStack>
+              </HStack>
+            )}
+
+            {/* Print Export Controls */}
+            {editingMode === "appearance" && boardSizeMm && (
+              <HStack gap={4} justify="center" wrap="wrap">
+                <HStack gap={2}>
+                  <Text fontSize="sm" fontWeight="medium" whiteSpace="nowrap">
+                    Print Width:
+                  </Text>
+                  <RetroInput
+                    min={1}
+                    placeholder={boardSizeMm.width.toFixed(0)}
+                    size="sm"
+                    type="number"
+                    value={printWidthMm}
+                    width="90px"
+                    onChange={(e) => setPrintWidthMm(e.target.value)}
+                  />
+                  <Text fontSize="sm">mm</Text>
+                </HStack>
+                <HStack gap={2}>
+                  <Text fontSize="sm" whiteSpace="nowrap">
+                    DPI:
+                  </Text>
+                  <RetroInput
+                    max={1200}
+                    min={72}
+                    size="sm"
+                    type="number"
+                    value={printDpi}
+                    width="80px"
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      if (!isNaN(value) && value > 0) {
+                        setPrintDpi(value);
+                      }
+                    }}
+                  />
+                </HStack>
+                <RetroButton size="sm" onClick={() => handleExportBoard("svg")}>
+                  <FaDownload /> Board SVG
+                </RetroButton>
+                <RetroButton size="sm" onClick={() => handleExportBoard("png")}>
+                  <FaFileImage /> Board PNG
+                </RetroButton>
+                <HStack gap={2}>
+                  {(Object.keys(PAPER_SIZES) as PaperSize[]).map((paper) => (
+                    <RetroButton
+                      key={paper}
+                      isToggled={printPaper === paper}
+                      size="sm"
+                      onClick={() => setPrintPaper(paper)}
+                    >
+                      {PAPER_SIZES[paper].label}
+                    </RetroButton>
+                  ))}
+                  <RetroButton
+                    size="sm"
+                    onClick={() => handleExportBoard("pdf")}
+                  >
+                    <FaFilePdf /> Tiled PDF
+                  </RetroButton>
+                </HStack>
+                <Text color="gray.300" fontSize="xs">
+                  {boardScale ? "Calibrated size" : "Uncalibrated size"}:{" "}
+                  {boardSizeMm.width.toFixed(0)} x{" "}
+                  {boardSizeMm.height.toFixed(0)} mm
+                </Text>
+              </HStack>
+            )}
+
+            {/* Play-Test Controls */}
+            {editingMode === "playtest" && playtestInput && (
+              <VStack align="stretch" gap={2}>
+                <HStack gap={4} justify="center" wrap="wrap">
+                  <HStack gap={2}>
+                    <Text fontSize="sm" whiteSpace="nowrap">
+                      Speed:
+                    </Text>
+                    <RetroInput
+                      min={0}
+                      size="sm"
+                      type="number"
+                      value={playtestInput.speed}
+                      width="60px"
+                      onChange={handlePlaytestInputChange("speed")}
+                    />
+                  </HStack>
+
+                  <HStack gap={2}>
+                    <Text fontSize="sm" whiteSpace="nowrap">
+                      Boost:
+                    </Text>
+                    <RetroInput
+                      min={0}
+                      size="sm"
+                      type="number"
+                      value={playtestInput.boost}
+                      width="60px"
+                      onChange={handlePlaytestInputChange("boost")}
+                    />
+                  </HStack>
+
+                  <HStack gap={2}>
+                    <Text fontSize="sm" whiteSpace="nowrap">
+                      Heat:
+                    </Text>
+                    <RetroInput
+                      min={0}
+                      size="sm"
+                      type="number"
+                      value={playtestInput.heat}
+                      width="60px"
+                      onChange={handlePlaytestInputChange("heat")}
+                    />
+                  </HStack>
+
+                  <HStack gap={2}>
+                    <Text fontSize="sm" whiteSpace="nowrap">
+                      Gear:
+                    </Text>
+                    <RetroInput
+                      max={4}
+                      min={1}
+                      size="sm"
+                      type="number"
+                      value={playtestInput.gear}
+                      width="60px"
+                      onChange={handlePlaytestInputChange("gear")}
+                    />
+                  </HStack>
+
+                  <RetroButton
+                    isToggled={playtestInput.slipstream !== false}
+                    size="sm"
+                    onClick={() =>
+                      onPlaytestInputChange?.({
+                        slipstream: playtestInput.slipstream === false,
+                      })
+                    }
+                  >
+                    Slipstream
+                  </RetroButton>
+
+                  {branches.length > 0 && (
+                    <HStack gap={2}>
+                      <Text fontSize="sm" whiteSpace="nowrap">
+                        Route:
+                      </Text>
+                      <RetroButton
+                        isToggled={playtestInput.branchId === undefined}
+                        size="sm"
+                        onClick={() =>
+                          onPlaytestInputChange?.({ branchId: undefined })
+                        }
+                      >
+                        Main
+                      </RetroButton>
+                      {branches.map((branch) => (
+                        <RetroButton
+                          key={branch.id}
+                          isToggled={playtestInput.branchId === branch.id}
+                          size="sm"
+                          onClick={() =>
+                            onPlaytestInputChange?.({ branchId: branch.id })
+                          }
+                        >
+                          {branch.name}
+                        </RetroButton>
+                      ))}
+                    </HStack>
+                  )}
+
+                  <RetroButton
+                    disabled={!hasSelectedCar || isPlaytestAnimating}
+                    size="sm"
+                    onClick={onRunTurn}
+                  >
+                    <FaPlay /> Run Turn
+                  </RetroButton>
+                  <RetroButton
+                    disabled={!hasSelectedCar || isPlaytestAnimating}
+                    size="sm"
+                    onClick={onRemoveCar}
+                  >
+                    <FaMinus /> Remove Car
+                  </RetroButton>
+                  <RetroButton
+                    disabled={isPlaytestAnimating}
+                    size="sm"
+                    onClick={onClearCars}
+                  >
+                    <FaTrash /> Clear Cars
+                  </RetroButton>
+                </HStack>
+
+                {/* Turn report */}
+                {playtestResult ? (
+                  <HStack fontSize="sm" gap={4} justify="center" wrap="wrap">
+                    <Text>
+                      Moved {playtestResult.move.spacesMoved} spaces
+                      {playtestResult.slipstreamSpaces > 0 &&
+                        ` (+${playtestResult.slipstreamSpaces} slipstream)`}
+                      {playtestResult.move.crossedStartFinish && " - crossed the line"}
+                    </Text>
+                    {playtestResult.cornerChecks.map((check) => (
+                      <Text
+                        key={check.cornerId}
+                        color={check.spunOut ? "red.400" : check.heatCost > 0 ? "orange.300" : "green.300"}
+                      >
+                        Corner {check.speedLimit} @ {check.speed}:{" "}
+                        {check.spunOut
+                          ? `spin-out (owed ${check.heatCost} Heat)`
+                          : check.heatCost > 0
+                            ? `paid ${check.heatPaid} Heat`
+                            : "OK"}
+                      </Text>
+                    ))}
+                    <Text>
+                      Heat left: {playtestResult.heatRemaining}
+                    </Text>
+                    {playtestResult.cooldownBonus > 0 && (
+                      <Text color="blue.300">
+                        Free cooling: +{playtestResult.cooldownBonus}
+                      </Text>
+                    )}
+                    {playtestResult.spunOut && (
+                      <Text color="red.400">
+                        Spun out: +{playtestResult.stressGained} Stress, back to gear {playtestResult.gear}
+                      </Text>
+                    )}
+                  </HStack>
+                ) : (
+                  <Text color="gray.300" fontSize="xs" textAlign="center">
+                    {hasSelectedCar
+                      ? "Set Speed and Boost, then run the turn - click a spot to move the car"
+                      : "Click a spot to place a car, click a car to select it"}
+                  </Text>
+                )}
+              </VStack>
+            )}
+
             {/* Track Metadata Controls */}
             {trackMetadata && editingMode === "metadata" && (
               <VStack align="stretch" gap={4} p={4}>
@@ -568,6 +1812,24 @@ export function Toolbar({
                     />
                   </HStack>
 
+                  <HStack gap={2}>
+                    <Text fontSize="sm" fontWeight="medium" whiteSpace="nowrap">
+                      Tags:
+                    </Text>
+                    <RetroInput
+                      placeholder="oval, fast"
+                      size="sm"
+                      value={(trackMetadata.tags ?? []).join(", ")}
+                      width="160px"
+                      onChange={(e) =>
+                        handleMetadataChange(
+                          "tags",
+                          e.target.value.split(",").map((tag) => tag.trim())
+                        )
+                      }
+                    />
+                  </HStack>
+
                   <HStack gap={2}>
                     <Text fontSize="sm" fontWeight="medium" whiteSpace="nowrap">
                       Spaces:
@@ -582,6 +1844,21 @@ export function Toolbar({
                     />
                   </HStack>
 
+                  <HStack gap={2}>
+                    <Text fontSize="sm" fontWeight="medium" whiteSpace="nowrap">
+                      Spots per Space:
+                    </Text>
+                    <RetroInput
+                      max={5}
+                      min={1}
+                      size="sm"
+                      type="number"
+                      value={spotCount ?? 5}
+                      width="60px"
+                      onChange={handleSpotCountChange}
+                    />
+                  </HStack>
+
                   <HStack gap={2}>
                     <Text fontSize="sm" fontWeight="medium" whiteSpace="nowrap">
                       Laps:
@@ -658,6 +1935,14 @@ export function Toolbar({
                     />
                   </HStack>
 
+                  <Text fontSize="sm" whiteSpace="nowrap">
+                    Chicanes: {trackMetadata.boardMetadata.chicanes ?? 0}
+                  </Text>
+
+                  <Text fontSize="sm" whiteSpace="nowrap">
+                    Tunnels: {trackMetadata.boardMetadata.tunnels ?? 0}
+                  </Text>
+
                   <HStack gap={2}>
                     <Text fontSize="sm" fontWeight="medium" whiteSpace="nowrap">
                       Race Direction:
@@ -671,7 +1956,263 @@ export function Toolbar({
                       <FaArrowsLeftRight/> Flip
                     </RetroButton>
                   </HStack>
+
+                  <RetroButton
+                    disabled={isSimulating}
+                    size="sm"
+                    onClick={onRunSimulation}
+                  >
+                    <FaChartLine />{" "}
+                    {isSimulating
+                      ? `Simulating... ${Math.round(simulationProgress * 100)}%`
+                      : "Simulate Races"}
+                  </RetroButton>
+                  {isSimulating && (
+                    <RetroButton size="sm" onClick={onCancelSimulation}>
+                      <FaX /> Cancel
+                    </RetroButton>
+                  )}
                 </HStack>
+
+                {/* Lane overrides - spot count and race line for a run of spaces */}
+                <HStack gap={2} justify="center" wrap="wrap">
+                  <Text fontSize="sm" fontWeight="medium" whiteSpace="nowrap">
+                    Lanes:
+                  </Text>
+                  <RetroButton size="sm" onClick={onAddLaneOverride}>
+                    <FaPlus /> Lane Override
+                  </RetroButton>
+                </HStack>
+
+                {laneOverrides.map((override) => (
+                  <HStack
+                    key={override.id}
+                    gap={2}
+                    justify="center"
+                    wrap="wrap"
+                  >
+                    <Text fontSize="sm" whiteSpace="nowrap">
+                      Spaces:
+                    </Text>
+                    <RetroInput
+                      max={raceSegments - 1}
+                      min={0}
+                      size="sm"
+                      type="number"
+                      value={override.startSpaceIndex}
+                      width="60px"
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        if (
+                          !isNaN(value) &&
+                          value >= 0 &&
+                          value < raceSegments
+                        ) {
+                          onLaneOverrideUpdate?.(override.id, {
+                            startSpaceIndex: value,
+                          });
+                        }
+                      }}
+                    />
+                    <Text fontSize="sm" whiteSpace="nowrap">
+                      to
+                    </Text>
+                    <RetroInput
+                      max={raceSegments - 1}
+                      min={0}
+                      size="sm"
+                      type="number"
+                      value={override.endSpaceIndex}
+                      width="60px"
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        if (
+                          !isNaN(value) &&
+                          value >= 0 &&
+                          value < raceSegments
+                        ) {
+                          onLaneOverrideUpdate?.(override.id, {
+                            endSpaceIndex: value,
+                          });
+                        }
+                      }}
+                    />
+                    <Text fontSize="sm" whiteSpace="nowrap">
+                      Spots:
+                    </Text>
+                    <RetroInput
+                      max={5}
+                      min={1}
+                      size="sm"
+                      type="number"
+                      value={override.spotCount}
+                      width="60px"
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        if (!isNaN(value) && value >= 1 && value <= 5) {
+                          onLaneOverrideUpdate?.(override.id, {
+                            spotCount: value,
+                          });
+                        }
+                      }}
+                    />
+                    <Text fontSize="sm" whiteSpace="nowrap">
+                      Race Line Spot:
+                    </Text>
+                    <RetroInput
+                      max={override.spotCount}
+                      min={1}
+                      size="sm"
+                      type="number"
+                      value={override.raceLineSpotIndex + 1}
+                      width="60px"
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        if (
+                          !isNaN(value) &&
+                          value >= 1 &&
+                          value <= override.spotCount
+                        ) {
+                          onLaneOverrideUpdate?.(override.id, {
+                            raceLineSpotIndex: value - 1,
+                          });
+                        }
+                      }}
+                    />
+                    <RetroButton
+                      size="sm"
+                      onClick={() => onLaneOverrideRemove?.(override.id)}
+                    >
+                      <FaTrash />
+                    </RetroButton>
+                  </HStack>
+                ))}
+
+                {/* Overpasses - which section passes over the other at a crossing */}
+                <HStack gap={2} justify="center" wrap="wrap">
+                  <Text fontSize="sm" fontWeight="medium" whiteSpace="nowrap">
+                    Overpasses:
+                  </Text>
+                  <RetroButton
+                    size="sm"
+                    onClick={() => onAddOverpass?.("bridge")}
+                  >
+                    <FaPlus /> Bridge
+                  </RetroButton>
+                  <RetroButton
+                    size="sm"
+                    onClick={() => onAddOverpass?.("tunnel")}
+                  >
+                    <FaPlus /> Tunnel
+                  </RetroButton>
+                </HStack>
+
+                {overpasses.map((overpass) => (
+                  <HStack
+                    key={overpass.id}
+                    gap={2}
+                    justify="center"
+                    wrap="wrap"
+                  >
+                    <RetroButton
+                      isToggled={overpass.kind === "bridge"}
+                      size="sm"
+                      onClick={() =>
+                        onOverpassUpdate?.(overpass.id, { kind: "bridge" })
+                      }
+                    >
+                      Bridge
+                    </RetroButton>
+                    <RetroButton
+                      isToggled={overpass.kind === "tunnel"}
+                      size="sm"
+                      onClick={() =>
+                        onOverpassUpdate?.(overpass.id, { kind: "tunnel" })
+                      }
+                    >
+                      Tunnel
+                    </RetroButton>
+                    <Text fontSize="sm" whiteSpace="nowrap">
+                      Spaces:
+                    </Text>
+                    <RetroInput
+                      max={raceSegments - 1}
+                      min={0}
+                      size="sm"
+                      type="number"
+                      value={overpass.startSpaceIndex}
+                      width="60px"
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        if (
+                          !isNaN(value) &&
+                          value >= 0 &&
+                          value < raceSegments
+                        ) {
+                          onOverpassUpdate?.(overpass.id, {
+                            startSpaceIndex: value,
+                          });
+                        }
+                      }}
+                    />
+                    <Text fontSize="sm" whiteSpace="nowrap">
+                      to
+                    </Text>
+                    <RetroInput
+                      max={raceSegments - 1}
+                      min={0}
+                      size="sm"
+                      type="number"
+                      value={overpass.endSpaceIndex}
+                      width="60px"
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        if (
+                          !isNaN(value) &&
+                          value >= 0 &&
+                          value < raceSegments
+                        ) {
+                          onOverpassUpdate?.(overpass.id, {
+                            endSpaceIndex: value,
+                          });
+                        }
+                      }}
+                    />
+                    <RetroButton
+                      size="sm"
+                      onClick={() => onOverpassRemove?.(overpass.id)}
+                    >
+                      <FaTrash />
+                    </RetroButton>
+                  </HStack>
+                ))}
+
+                {/* Race simulation report */}
+                {simulationReport && (
+                  <VStack align="stretch" fontSize="sm" gap={1}>
+                    <Text textAlign="center">
+                      {simulationReport.races} races x {simulationReport.carsPerRace} cars - Difficulty {simulationReport.difficulty}/10 - {simulationReport.averageLapTurns.toFixed(1)} turns per lap
+                    </Text>
+                    <HStack gap={4} justify="center" wrap="wrap">
+                      {simulationReport.corners.map((corner) => (
+                        <Text
+                          key={corner.cornerId}
+                          color={corner.flag === "punishing" ? "red.400" : corner.flag === "irrelevant" ? "gray.400" : "green.300"}
+                        >
+                          Corner {corner.spaceIndex} ({corner.speedLimit}):{" "}
+                          {Math.round(corner.spinOutRate * 100)}% spin-outs,{" "}
+                          {corner.averageHeat.toFixed(1)} Heat, deciding{" "}
+                          {Math.round(corner.decidingRate * 100)}%
+                        </Text>
+                      ))}
+                    </HStack>
+                    {simulationReport.warnings.map((warning) => (
+                      <Text key={warning} color="orange.300" fontSize="xs" textAlign="center">
+                        {warning}
+                      </Text>
+                    ))}
+                  </VStack>
+                )}
               </VStack>
             )}
           </>
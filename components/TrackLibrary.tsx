@@ -0,0 +1,242 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  FaCopy,
+  FaFolderOpen,
+  FaPen,
+  FaPlus,
+  FaTrash,
+  FaXmark,
+} from "react-icons/fa6";
+import { Box, HStack, Text, VStack } from "@chakra-ui/react";
+
+import { TrackData } from "@/types/spline";
+import { bezierToSvgPath } from "@/utils/pathUtils";
+
+import { RetroButton } from "./chakra/RetroButton";
+import { RetroInput } from "./chakra/RetroInput";
+
+interface TrackLibraryProps {
+  tracks: TrackData[];
+  currentTrackId: string | null;
+  onClose: () => void;
+  onCreate: () => void;
+  onDelete: (trackId: string) => void;
+  onDuplicate: (trackId: string) => void;
+  onOpen: (trackId: string) => void;
+  onRename: (trackId: string, name: string) => void;
+}
+
+const THUMBNAIL_SIZE = 64;
+const THUMBNAIL_PADDING = 40; // px in track space, leaves room for the stroke
+
+/**
+ * Small outline of the track's spline, fitted to a square
+ */
+function TrackThumbnail({ track }: { track: TrackData }) {
+  const points = track.splinePath.points ?? [];
+
+  // Include handles so curves bulging past their points are not clipped
+  const coordinates = points.flatMap((point) => [
+    point,
+    ...(point.handleIn ? [point.handleIn] : []),
+    ...(point.handleOut ? [point.handleOut] : []),
+  ]);
+  const xs = coordinates.map((p) => p.x);
+  const ys = coordinates.map((p) => p.y);
+  const minX = Math.min(...xs) - THUMBNAIL_PADDING;
+  const minY = Math.min(...ys) - THUMBNAIL_PADDING;
+  const size = Math.max(
+    Math.max(...xs) - minX + THUMBNAIL_PADDING,
+    Math.max(...ys) - minY + THUMBNAIL_PADDING,
+  );
+  const viewBox =
+    coordinates.length > 0 ? `${minX} ${minY} ${size} ${size}` : "0 0 1 1";
+
+  return (
+    <Box bg="gray.700" flexShrink={0}>
+      <svg height={THUMBNAIL_SIZE} viewBox={viewBox} width={THUMBNAIL_SIZE}>
+        <path
+          d={bezierToSvgPath(points, track.splinePath.closed)}
+          fill="none"
+          stroke="#a0aec0"
+          strokeLinejoin="round"
+          strokeWidth={track.discretizationSettings.trackWidth * 0.4}
+        />
+      </svg>
+    </Box>
+  );
+}
+
+export function TrackLibrary({
+  tracks,
+  currentTrackId,
+  onClose,
+  onCreate,
+  onDelete,
+  onDuplicate,
+  onOpen,
+  onRename,
+}: TrackLibraryProps) {
+  const [query, setQuery] = useState("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+
+  // Most recently edited first, filtered by tag (or name)
+  const visibleTracks = useMemo(() => {
+    const terms = query
+      .toLowerCase()
+      .split(/[\s,]+/)
+      .filter((term) => term.length > 0);
+
+    return [...tracks]
+      .sort((a, b) => b.metadata.updatedAt.localeCompare(a.metadata.updatedAt))
+      .filter((track) => {
+        const searchable = [
+          track.metadata.name,
+          ...(track.metadata.tags ?? []),
+        ].map((value) => value.toLowerCase());
+        return terms.every((term) =>
+          searchable.some((value) => value.includes(term)),
+        );
+      });
+  }, [tracks, query]);
+
+  const commitRename = () => {
+    const name = renameValue.trim();
+    if (renamingId && name) {
+      onRename(renamingId, name);
+    }
+    setRenamingId(null);
+  };
+
+  return (
+    <Box
+      bg="gray.900"
+      border="2px solid"
+      borderColor="yellow.500"
+      boxShadow="0 4px 0 rgba(0,0,0,0.6)"
+      color="white"
+      fontFamily="monospace"
+      left={4}
+      maxHeight="calc(100% - 32px)"
+      overflowY="auto"
+      position="absolute"
+      top={4}
+      width="320px"
+      zIndex={10}
+    >
+      <HStack justify="space-between" px={3} py={2}>
+        <Text fontSize="sm" fontWeight="bold" textTransform="uppercase">
+          Track Library ({tracks.length})
+        </Text>
+        <HStack gap={2}>
+          <RetroButton size="2xs" onClick={onCreate}>
+            <FaPlus /> New
+          </RetroButton>
+          <RetroButton size="2xs" onClick={onClose}>
+            <FaXmark />
+          </RetroButton>
+        </HStack>
+      </HStack>
+
+      <VStack align="stretch" gap={2} pb={3} px={3}>
+        <RetroInput
+          placeholder="Search by tag..."
+          size="sm"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+
+        {visibleTracks.length === 0 && (
+          <Text color="gray.300" fontSize="xs">
+            {tracks.length === 0 ? "No saved tracks yet" : "No tracks match"}
+          </Text>
+        )}
+
+        {visibleTracks.map((track) => {
+          const isCurrent = track.id === currentTrackId;
+          const tags = (track.metadata.tags ?? []).filter(Boolean);
+
+          return (
+            <HStack
+              key={track.id}
+              align="start"
+              bg={isCurrent ? "whiteAlpha.200" : "transparent"}
+              border="1px solid"
+              borderColor={isCurrent ? "yellow.500" : "whiteAlpha.300"}
+              gap={2}
+              p={2}
+            >
+              <TrackThumbnail track={track} />
+
+              <VStack align="stretch" flex={1} gap={1} minWidth={0}>
+                {renamingId === track.id ? (
+                  <RetroInput
+                    size="xs"
+                    value={renameValue}
+                    autoFocus
+                    onBlur={commitRename}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRename();
+                      if (e.key === "Escape") setRenamingId(null);
+                    }}
+                  />
+                ) : (
+                  <Text fontSize="sm" fontWeight="bold" truncate>
+                    {track.metadata.name}
+                  </Text>
+                )}
+                <Text color="gray.400" fontSize="xs">
+                  {track.spaces.length} spaces, {track.corners.length} corners
+                </Text>
+                {tags.length > 0 && (
+                  <Text color="yellow.300" fontSize="xs" truncate>
+                    {tags.map((tag) => `#${tag}`).join(" ")}
+                  </Text>
+                )}
+
+                <HStack gap={1}>
+                  <RetroButton
+                    disabled={isCurrent}
+                    size="2xs"
+                    title="Open"
+                    onClick={() => onOpen(track.id)}
+                  >
+                    <FaFolderOpen />
+                  </RetroButton>
+                  <RetroButton
+                    size="2xs"
+                    title="Rename"
+                    onClick={() => {
+                      setRenamingId(track.id);
+                      setRenameValue(track.metadata.name);
+                    }}
+                  >
+                    <FaPen />
+                  </RetroButton>
+                  <RetroButton
+                    size="2xs"
+                    title="Duplicate"
+                    onClick={() => onDuplicate(track.id)}
+                  >
+                    <FaCopy />
+                  </RetroButton>
+                  <RetroButton
+                    size="2xs"
+                    title="Delete"
+                    onClick={() => onDelete(track.id)}
+                  >
+                    <FaTrash />
+                  </RetroButton>
+                </HStack>
+              </VStack>
+            </HStack>
+          );
+        })}
+      </VStack>
+    </Box>
+  );
+}
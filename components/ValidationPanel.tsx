@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import {
+  FaChevronDown,
+  FaChevronUp,
+  FaCircleCheck,
+  FaCircleExclamation,
+  FaLightbulb,
+  FaTriangleExclamation,
+} from "react-icons/fa6";
+import { Box, HStack, Text, VStack } from "@chakra-ui/react";
+
+import {
+  Point,
+  TrackValidationIssue,
+  TrackValidationResult,
+} from "@/types/spline";
+
+import { RetroButton } from "./chakra/RetroButton";
+
+interface ValidationPanelProps {
+  result: TrackValidationResult;
+  onAllowCrossover?: (point: Point) => void;
+  onIssueClick?: (issue: TrackValidationIssue) => void;
+}
+
+const SEVERITY_STYLES = {
+  error: { color: "red.400", icon: FaCircleExclamation },
+  warning: { color: "orange.300", icon: FaTriangleExclamation },
+  suggestion: { color: "blue.300", icon: FaLightbulb },
+} as const;
+
+export function ValidationPanel({
+  result,
+  onAllowCrossover,
+  onIssueClick,
+}: ValidationPanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+
+  const { geometryValidation, gameplayValidation } = result;
+  const checks = [
+    { label: "Closed loop", passed: geometryValidation.isClosed },
+    {
+      label: "No self-intersections",
+      passed: !geometryValidation.hasSelfIntersections,
+    },
+    {
+      label: "Corners on track",
+      passed: gameplayValidation.cornerPlacementValid,
+    },
+    {
+      label: "Start/finish on track",
+      passed: gameplayValidation.startFinishValid,
+    },
+    {
+      label: "Spaces generated",
+      passed: gameplayValidation.spaceDistributionValid,
+    },
+  ];
+
+  return (
+    <Box
+      bg="gray.900"
+      border="2px solid"
+      borderColor={result.isValid ? "green.500" : "red.500"}
+      bottom={4}
+      boxShadow="0 4px 0 rgba(0,0,0,0.6)"
+      color="white"
+      fontFamily="monospace"
+      maxHeight="50%"
+      overflowY="auto"
+      position="absolute"
+      right={4}
+      width="360px"
+      zIndex={10}
+    >
+      {/* Header - click to collapse or expand */}
+      <HStack
+        cursor="pointer"
+        justify="space-between"
+        px={3}
+        py={2}
+        onClick={() => setIsOpen((prev) => !prev)}
+      >
+        <Text fontSize="sm" fontWeight="bold" textTransform="uppercase">
+          {result.isValid ? "Track valid" : "Track invalid"} -{" "}
+          {result.errors.length} errors, {result.warnings.length} warnings
+        </Text>
+        {isOpen ? <FaChevronDown /> : <FaChevronUp />}
+      </HStack>
+
+      {isOpen && (
+        <VStack align="stretch" gap={2} pb={3} px={3}>
+          {/* Geometry and gameplay checks */}
+          <HStack gap={3} wrap="wrap">
+            {checks.map((check) => (
+              <HStack
+                key={check.label}
+                color={check.passed ? "green.300" : "red.400"}
+                fontSize="xs"
+                gap={1}
+              >
+                {check.passed ? <FaCircleCheck /> : <FaCircleExclamation />}
+                <Text>{check.label}</Text>
+              </HStack>
+            ))}
+          </HStack>
+
+          {result.issues.length === 0 && (
+            <Text color="gray.300" fontSize="xs">
+              No issues found
+            </Text>
+          )}
+
+          {/* Issues - targeted ones select the offending element */}
+          {result.issues.map((issue, index) => {
+            const { color, icon: Icon } = SEVERITY_STYLES[issue.severity];
+            const { target } = issue;
+            return (
+              <HStack
+                key={`${issue.severity}-${index}`}
+                _hover={issue.target ? { bg: "whiteAlpha.200" } : undefined}
+                align="start"
+                color={color}
+                cursor={issue.target ? "pointer" : "default"}
+                fontSize="xs"
+                gap={2}
+                onClick={() => issue.target && onIssueClick?.(issue)}
+              >
+                <Box flexShrink={0} pt="2px">
+                  <Icon />
+                </Box>
+                <Text
+                  textDecoration={issue.target ? "underline dotted" : "none"}
+                >
+                  {issue.message}
+                </Text>
+                {/* Deliberate crossings (bridges) can be allowed in place */}
+                {target?.type === "intersection" && onAllowCrossover && (
+                  <RetroButton
+                    flexShrink={0}
+                    size="2xs"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onAllowCrossover(target.point);
+                    }}
+                  >
+                    Allow crossover
+                  </RetroButton>
+                )}
+              </HStack>
+            );
+          })}
+        </VStack>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { FaExpand, FaImage, FaMinus, FaPlus } from "react-icons/fa6";
+import { HStack } from "@chakra-ui/react";
+
+import { RetroButton } from "./chakra/RetroButton";
+
+interface ZoomControlsProps {
+  zoom: number;
+  canFitImage: boolean;
+  onFitImage: () => void;
+  onFitTrack: () => void;
+  onReset: () => void;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+}
+
+export function ZoomControls({
+  zoom,
+  canFitImage,
+  onFitImage,
+  onFitTrack,
+  onReset,
+  onZoomIn,
+  onZoomOut,
+}: ZoomControlsProps) {
+  return (
+    <HStack
+      bg="gray.900"
+      border="2px solid"
+      borderColor="yellow.500"
+      bottom={4}
+      boxShadow="0 4px 0 rgba(0,0,0,0.6)"
+      color="white"
+      fontFamily="monospace"
+      gap={1}
+      left={4}
+      p={2}
+      position="absolute"
+      zIndex={10}
+    >
+      <RetroButton size="2xs" title="Zoom out" onClick={onZoomOut}>
+        <FaMinus />
+      </RetroButton>
+      {/* Current zoom - click to go back to 100% */}
+      <RetroButton
+        minWidth="56px"
+        size="2xs"
+        title="Reset zoom"
+        onClick={onReset}
+      >
+        {Math.round(zoom * 100)}%
+      </RetroButton>
+      <RetroButton size="2xs" title="Zoom in" onClick={onZoomIn}>
+        <FaPlus />
+      </RetroButton>
+      <RetroButton size="2xs" title="Fit to track" onClick={onFitTrack}>
+        <FaExpand /> Track
+      </RetroButton>
+      <RetroButton
+        disabled={!canFitImage}
+        size="2xs"
+        title="Fit to background image"
+        onClick={onFitImage}
+      >
+        <FaImage /> Image
+      </RetroButton>
+    </HStack>
+  );
+}
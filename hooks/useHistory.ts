@@ -0,0 +1,103 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+
+/**
+ * Undo/redo history on top of an existing state setter.
+ * Every recorded change pushes the previous value onto the undo stack.
+ * Changes sharing a coalesce key inside one gesture (e.g. the mouse moves
+ * of one drag, opened on mouse down and closed on mouse up) are merged into
+ * a single history entry.
+ */
+
+const DEFAULT_LIMIT = 100;
+
+interface HistoryOptions {
+  limit?: number; // Maximum number of undo steps kept
+}
+
+interface Gesture {
+  id: string;
+}
+
+export function useHistory<T>(
+  value: T,
+  setValue: (value: T) => void,
+  { limit = DEFAULT_LIMIT }: HistoryOptions = {},
+) {
+  const [past, setPast] = useState<T[]>([]);
+  const [future, setFuture] = useState<T[]>([]);
+  const gesture = useRef<Gesture | null>(null);
+  const lastChange = useRef<{ key: string; gesture: Gesture } | null>(null);
+
+  // Latest value, so callbacks never record a stale snapshot
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  // Each gesture is a new object, so two drags of the same point never merge
+  const beginGesture = useCallback((gestureId: string) => {
+    gesture.current = { id: gestureId };
+  }, []);
+
+  const endGesture = useCallback((gestureId: string) => {
+    if (gesture.current?.id === gestureId) gesture.current = null;
+  }, []);
+
+  const record = useCallback(
+    (nextValue: T, coalesceKey?: string) => {
+      const isCoalesced =
+        coalesceKey !== undefined &&
+        gesture.current !== null &&
+        lastChange.current?.gesture === gesture.current &&
+        lastChange.current.key === coalesceKey;
+
+      if (!isCoalesced) {
+        const previousValue = valueRef.current;
+        setPast((prev) => [...prev, previousValue].slice(-limit));
+        setFuture([]);
+      }
+
+      lastChange.current =
+        coalesceKey && gesture.current
+          ? { key: coalesceKey, gesture: gesture.current }
+          : null;
+      valueRef.current = nextValue;
+      setValue(nextValue);
+    },
+    [setValue, limit],
+  );
+
+  const undo = useCallback(() => {
+    const previousValue = past[past.length - 1];
+    if (previousValue === undefined) return;
+
+    const currentValue = valueRef.current;
+    setPast(past.slice(0, -1));
+    setFuture((prev) => [currentValue, ...prev]);
+    lastChange.current = null;
+    valueRef.current = previousValue;
+    setValue(previousValue);
+  }, [past, setValue]);
+
+  const redo = useCallback(() => {
+    const [nextValue, ...rest] = future;
+    if (nextValue === undefined) return;
+
+    const currentValue = valueRef.current;
+    setFuture(rest);
+    setPast((prev) => [...prev, currentValue].slice(-limit));
+    lastChange.current = null;
+    valueRef.current = nextValue;
+    setValue(nextValue);
+  }, [future, setValue, limit]);
+
+  return {
+    record,
+    beginGesture,
+    endGesture,
+    undo,
+    redo,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+  };
+}
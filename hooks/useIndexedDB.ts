@@ -1,6 +1,8 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+
+import { TrackData } from "@/types/spline";
 
 /**
  * IndexedDB hook for storing large binary data (images).
@@ -12,8 +14,9 @@ import { useEffect, useState } from "react";
  */
 
 const DB_NAME = "spline-editor-db";
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = "images";
+const TRACKS_STORE_NAME = "tracks"; // Track library, keyed by track id
 
 interface ImageData {
   id: string;
@@ -32,6 +35,9 @@ function openDB(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: "id" });
       }
+      if (!db.objectStoreNames.contains(TRACKS_STORE_NAME)) {
+        db.createObjectStore(TRACKS_STORE_NAME, { keyPath: "id" });
+      }
     };
   });
 }
@@ -140,3 +146,84 @@ export function useIndexedDBImage(key: string) {
 
   return [image, updateImage, removeImage, isLoaded] as const;
 }
+
+async function getAllTracks(): Promise<TrackData[]> {
+  try {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(TRACKS_STORE_NAME, "readonly");
+      const store = transaction.objectStore(TRACKS_STORE_NAME);
+      const request = store.getAll();
+
+      request.onsuccess = () => resolve(request.result as TrackData[]);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error("Error getting tracks from IndexedDB:", error);
+    return [];
+  }
+}
+
+async function putTrack(track: TrackData): Promise<void> {
+  try {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(TRACKS_STORE_NAME, "readwrite");
+      const store = transaction.objectStore(TRACKS_STORE_NAME);
+      const request = store.put(track);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error("Error saving track to IndexedDB:", error);
+  }
+}
+
+async function deleteTrack(id: string): Promise<void> {
+  try {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(TRACKS_STORE_NAME, "readwrite");
+      const store = transaction.objectStore(TRACKS_STORE_NAME);
+      const request = store.delete(id);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error("Error deleting track from IndexedDB:", error);
+  }
+}
+
+/**
+ * Track library stored as one IndexedDB record per track
+ */
+export function useIndexedDBTracks() {
+  const [tracks, setTracks] = useState<TrackData[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const loadTracks = async () => {
+      setTracks(await getAllTracks());
+      setIsLoaded(true);
+    };
+
+    loadTracks();
+  }, []);
+
+  const saveTrack = useCallback(async (track: TrackData) => {
+    await putTrack(track);
+    setTracks((prev) => [
+      ...prev.filter((existing) => existing.id !== track.id),
+      track,
+    ]);
+  }, []);
+
+  const removeTrack = useCallback(async (id: string) => {
+    await deleteTrack(id);
+    setTracks((prev) => prev.filter((track) => track.id !== id));
+  }, []);
+
+  return [tracks, saveTrack, removeTrack, isLoaded] as const;
+}
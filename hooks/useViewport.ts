@@ -0,0 +1,194 @@
+"use client";
+
+import { RefObject, useCallback, useEffect, useRef, useState } from "react";
+
+import { Viewport } from "@/types/spline";
+
+import { useLocalStorage } from "./useLocalStorage";
+
+/**
+ * Pan and zoom for the editor canvas, driven through the SVG viewBox.
+ * Mouse positions are converted with getScreenCTM, which includes the
+ * viewBox, so editing stays accurate at any zoom.
+ * - Wheel (or pinch) zooms around the cursor
+ * - Middle-drag, or left-drag while holding space, pans
+ */
+
+const STORAGE_KEY = "editor-viewport";
+const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, zoom: 1 };
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 20;
+const WHEEL_ZOOM_SPEED = 0.0015;
+const FIT_PADDING = 40; // Screen px left around fitted content
+
+export interface ViewportBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+function isTextInput(target: EventTarget | null): boolean {
+  return !!(target as HTMLElement | null)?.closest?.(
+    "input, textarea, [contenteditable='true']"
+  );
+}
+
+export function useViewport(
+  svgRef: RefObject<SVGSVGElement | null>,
+  dimensions: { width: number; height: number }
+) {
+  const [viewport, setViewport] = useLocalStorage<Viewport>(
+    STORAGE_KEY,
+    DEFAULT_VIEWPORT
+  );
+  const [isSpacePressed, setIsSpacePressed] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  // Swallows the click that ends a pan so it doesn't edit the track
+  const didPan = useRef(false);
+
+  const viewBox = `${viewport.x} ${viewport.y} ${dimensions.width / viewport.zoom} ${dimensions.height / viewport.zoom}`;
+
+  // Zoom so the track point under (screenX, screenY) stays put
+  const zoomAt = useCallback(
+    (screenX: number, screenY: number, factor: number) => {
+      const zoom = clampZoom(viewport.zoom * factor);
+      const anchorX = viewport.x + screenX / viewport.zoom;
+      const anchorY = viewport.y + screenY / viewport.zoom;
+
+      setViewport({
+        x: anchorX - screenX / zoom,
+        y: anchorY - screenY / zoom,
+        zoom,
+      });
+    },
+    [viewport, setViewport]
+  );
+
+  // Zoom buttons zoom around the middle of the canvas
+  const zoomBy = useCallback(
+    (factor: number) =>
+      zoomAt(dimensions.width / 2, dimensions.height / 2, factor),
+    [zoomAt, dimensions]
+  );
+
+  const fitToBounds = useCallback(
+    (bounds: ViewportBounds) => {
+      const width = bounds.maxX - bounds.minX;
+      const height = bounds.maxY - bounds.minY;
+      if (width <= 0 || height <= 0 || dimensions.width === 0) return;
+
+      const zoom = clampZoom(
+        Math.min(
+          (dimensions.width - FIT_PADDING * 2) / width,
+          (dimensions.height - FIT_PADDING * 2) / height
+        )
+      );
+
+      setViewport({
+        x: bounds.minX + width / 2 - dimensions.width / zoom / 2,
+        y: bounds.minY + height / 2 - dimensions.height / zoom / 2,
+        zoom,
+      });
+    },
+    [dimensions, setViewport]
+  );
+
+  const resetViewport = useCallback(
+    () => setViewport(DEFAULT_VIEWPORT),
+    [setViewport]
+  );
+
+  // Wheel zoom - registered natively so the page itself never zooms
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      zoomAt(
+        e.clientX - rect.left,
+        e.clientY - rect.top,
+        Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED)
+      );
+    };
+
+    svg.addEventListener("wheel", handleWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", handleWheel);
+  }, [svgRef, zoomAt]);
+
+  // Holding space turns left-drag into panning
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || isTextInput(e.target)) return;
+      e.preventDefault();
+      setIsSpacePressed(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === "Space") setIsSpacePressed(false);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+    };
+  }, []);
+
+  // Captured before the track and spline editor see the mouse down
+  const handlePanMouseDown = useCallback(
+    (e: React.MouseEvent<SVGSVGElement>) => {
+      const isPanGesture = e.button === 1 || (e.button === 0 && isSpacePressed);
+      didPan.current = isPanGesture;
+      if (!isPanGesture) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+
+      const start = { clientX: e.clientX, clientY: e.clientY, ...viewport };
+      setIsPanning(true);
+
+      const handleMouseMove = (moveEvent: MouseEvent) => {
+        setViewport({
+          x: start.x - (moveEvent.clientX - start.clientX) / start.zoom,
+          y: start.y - (moveEvent.clientY - start.clientY) / start.zoom,
+          zoom: start.zoom,
+        });
+      };
+
+      const handleMouseUp = () => {
+        setIsPanning(false);
+        document.removeEventListener("mousemove", handleMouseMove);
+        document.removeEventListener("mouseup", handleMouseUp);
+      };
+
+      document.addEventListener("mousemove", handleMouseMove);
+      document.addEventListener("mouseup", handleMouseUp);
+    },
+    [isSpacePressed, viewport, setViewport]
+  );
+
+  const handlePanClick = useCallback((e: React.MouseEvent<SVGSVGElement>) => {
+    if (!didPan.current) return;
+    didPan.current = false;
+    e.stopPropagation();
+  }, []);
+
+  return {
+    viewport,
+    viewBox,
+    isPanMode: isSpacePressed || isPanning,
+    isPanning,
+    zoomBy,
+    fitToBounds,
+    resetViewport,
+    handlePanMouseDown,
+    handlePanClick,
+  };
+}
@@ -19,6 +19,62 @@ export interface BezierSegment {
   continuity: "C0" | "C1" | "C2"; // Continuity level
 }
 
+// Point where the track centerline crosses itself
+export interface TrackIntersection {
+  point: Point;
+  segmentIndices: [number, number]; // Crossing segments, in chain order
+  params: [number, number]; // Bezier t on each crossing segment
+  crossoverId?: string; // Crossover marker that allows this crossing
+  overpassId?: string; // Overpass the crossing is part of
+}
+
+// Deliberate crossing such as a figure-eight bridge
+export interface TrackCrossover {
+  id: string;
+  position: Point;
+}
+
+// Run of spaces that passes over (bridge) or under (tunnel) the rest of
+// the track where it crosses itself, e.g. on a figure-eight
+export interface TrackOverpass {
+  id: string;
+  kind: "bridge" | "tunnel";
+  startSpaceIndex: number; // Inclusive, may wrap past the last space
+  endSpaceIndex: number; // Inclusive
+}
+
+// Placement of the traced background scan in track space
+export interface BackgroundImageTransform {
+  x: number; // Image center
+  y: number;
+  scale: number; // Track px per image px
+  rotation: number; // Degrees, clockwise
+  opacity: number; // 0-1
+}
+
+// Real-world size of the board, set by two-point calibration on the scan
+export interface BoardScale {
+  pixelsPerUnit: number; // Track px per real unit
+  unit: "mm" | "cm" | "in";
+  calibrationPoints?: [Point, Point]; // The two clicked points, in track space
+}
+
+// Track width control point - the width eases between points around the lap
+export interface TrackWidthPoint {
+  id: string;
+  position: number; // Fraction of the lap from space 0, 0-1
+  width: number; // % of the base track width
+}
+
+// Lane layout for a run of spaces, e.g. a single-file chicane
+export interface LaneOverride {
+  id: string;
+  startSpaceIndex: number;
+  endSpaceIndex: number; // Inclusive, wraps past the last space
+  spotCount: number;
+  raceLineSpotIndex: number; // Spot.spotIndex of the race line spot
+}
+
 export interface SplinePath {
   id: string;
   segments: BezierSegment[]; // Connected chain of segments
@@ -65,6 +121,7 @@ export interface Space {
 export interface Corner {
   id: string;
   spaceIndex: number;
+  arcPosition?: number; // Arc length along the track, kept when spaces are regenerated
   speedLimit: number;
   position: Point;
   isAutoSuggested: boolean;
@@ -75,10 +132,99 @@ export interface Corner {
   difficulty: number; // 1-10 difficulty rating
   suggestedGear: number; // Suggested gear for this corner
   heatPenalty: number; // Base heat penalty for exceeding speed limit
-  // Corner geometry
-  entryAngle: number; // Angle of entry into corner
-  exitAngle: number; // Angle of exit from corner
-  radius: number; // Corner radius (for tightness calculation)
+  // Corner geometry, measured along the track's curve
+  entryAngle: number; // Heading into the curve, degrees clockwise from +x
+  exitAngle: number; // Heading out of the curve
+  radius: number; // Effective radius in space lengths
+  turnAngle?: number; // Heading change across the curve in degrees
+  apex?: Point; // Tightest point of the curve
+  speedLimitConfidence?: number; // 0-1, set when the speed limit was suggested
+}
+
+// A corner's turn measured in board terms, independent of the pixel scale
+export interface CornerTurn {
+  turnAngle: number; // Heading change across the corner in degrees
+  radius: number; // Radius in space lengths
+}
+
+// The full measured shape of a corner's curve
+export interface CornerGeometry extends CornerTurn {
+  entryAngle: number; // Heading into the curve, degrees clockwise from +x
+  exitAngle: number; // Heading out of the curve
+  apex: Point; // Tightest point of the curve
+  apexOffset: number; // Spaces from the corner line to the apex in race order
+}
+
+// A corner with a known speed limit, e.g. from an official board
+export interface SpeedLimitSample extends CornerTurn {
+  speedLimit: number;
+  trackId?: string; // Reference track the sample was taken from
+}
+
+// Speed limit = intercept + angleWeight * turns of 90 degrees
+//   + radiusWeight * ln(radius in spaces)
+export interface SpeedLimitModel {
+  intercept: number;
+  angleWeight: number;
+  radiusWeight: number;
+  residual: number; // RMS error in speed limit steps on the samples
+  sampleCount: number; // 0 for the built-in model
+  // Turns the model has seen, suggestions outside them are less certain
+  angleRange: [number, number];
+  radiusRange: [number, number];
+}
+
+export interface SpeedLimitSuggestion {
+  speedLimit: number;
+  rawSpeedLimit: number; // Model output before rounding and clamping
+  confidence: number; // 0-1
+}
+
+// Corners linked into one feature. Grouped corners crossed in the same
+// move are checked once, against the strictest of them, and share the
+// countdown of the first corner in race order.
+export interface CornerGroup {
+  id: string;
+  kind: "chicane" | "double-apex";
+  cornerIds: string[]; // Consecutive corners, at least two
+}
+
+// Legends solo mode marker for a corner. Legend cars reaching the legend
+// line before the corner are moved on to the diamond space.
+export interface LegendLine {
+  id: string;
+  cornerId: string;
+  spaceIndex: number; // Line after this space, like Corner.spaceIndex
+  diamondSpaceIndex: number;
+}
+
+// Heat weather expansion road condition tokens. Speed limit and overheat
+// tokens sit on a corner, slipstream and cooling tokens on the sector
+// leading into it.
+export type RoadConditionKind =
+  | "speed-limit-up" // Corner speed limit +1
+  | "speed-limit-down" // Corner speed limit -1
+  | "overheat" // Exceeding the corner's limit costs 1 more Heat
+  | "slipstream-boost" // Slipstreaming in the sector moves 1 more space
+  | "free-cooling"; // Ending a turn in the sector cools 1 more Heat
+
+export interface RoadCondition {
+  id: string;
+  kind: RoadConditionKind;
+  cornerId: string; // The corner, or the corner ending the sector
+}
+
+// A section that leaves the main loop and rejoins it - a pit lane or an
+// alternative route. Space indices on the branch index its own spaces.
+export interface TrackBranch {
+  id: string;
+  name: string;
+  kind: "pit-lane" | "alternative";
+  splitSpaceIndex: number; // Last main-loop space before the branch
+  joinSpaceIndex: number; // First main-loop space after the branch
+  side: "left" | "right"; // Side of the main track the branch runs along
+  points: BezierPoint[]; // Open centerline, in race order, from the split line to the join line
+  spaces: Space[]; // In race order; space 0 is entered from the split space
 }
 
 export interface TrackMetadata {
@@ -100,8 +246,8 @@ export interface TrackMetadata {
     elevationChange: number; // Total elevation change
     // Expansion support
     weatherTokens?: number;
-    chicanes?: number;
-    tunnels?: number;
+    chicanes?: number; // Counted from the chicane corner groups
+    tunnels?: number; // Counted from the tunnel overpasses
   };
   // Track creation and versioning
   createdAt: string;
@@ -130,6 +276,23 @@ export interface TrackData {
     arcLengthSamples: number; // Samples for arc length calculation
     curvatureThreshold: number; // Threshold for corner detection
   };
+  // Crossings that are allowed, e.g. a bridge on a figure-eight
+  crossovers?: TrackCrossover[];
+  overpasses?: TrackOverpass[];
+  // Pit lanes and alternative routes off the main loop
+  branches?: TrackBranch[];
+  // Narrow sections and wide straights, full width everywhere when empty
+  widthPoints?: TrackWidthPoint[];
+  // Spaces with their own spot count, later overrides win where they overlap
+  laneOverrides?: LaneOverride[];
+  // Legends mode - one legend line before each corner when present
+  legendLines?: LegendLine[];
+  // Weather expansion road conditions on corners and sectors
+  roadConditions?: RoadCondition[];
+  cornerGroups?: CornerGroup[];
+  // Background scan placement and board calibration
+  backgroundImageTransform?: BackgroundImageTransform;
+  boardScale?: BoardScale;
   // Appearance settings
   appearanceSettings?: {
     trackColor?: string;
@@ -159,9 +322,16 @@ export interface EditorState {
   selectedCorner: string | null;
   selectedSpace: string | null;
   debugMode: boolean;
-  editingMode: "spline" | "corners" | "metadata" | "appearance";
+  editingMode: "spline" | "corners" | "metadata" | "appearance" | "playtest";
   splineToolMode: "select" | "add" | "remove";
-  cornerToolMode: "select" | "add" | "remove";
+  cornerToolMode: "select" | "add" | "legend" | "remove";
+}
+
+// Canvas pan and zoom - top-left of the view in track coordinates and scale
+export interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
 }
 
 // Serialization and validation types
@@ -176,15 +346,28 @@ export interface TrackExportData {
   };
 }
 
+export interface TrackValidationIssue {
+  severity: "error" | "warning" | "suggestion";
+  message: string;
+  // Track element the issue points at, so it can be selected on the canvas
+  target?:
+    | { type: "corner"; cornerId: string }
+    | { type: "space"; spaceIndex: number }
+    | { type: "segment"; segmentIndex: number }
+    | { type: "intersection"; segmentIndex: number; point: Point };
+}
+
 export interface TrackValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
   suggestions: string[];
+  issues: TrackValidationIssue[]; // Every error, warning and suggestion with its target
   // Detailed validation results
   geometryValidation: {
     isClosed: boolean;
     hasSelfIntersections: boolean;
+    intersections: TrackIntersection[]; // Including ones allowed by crossovers
     minRadius: number;
     maxRadius: number;
   };
@@ -210,3 +393,110 @@ export interface BezierQualityMetrics {
   segmentCount: number;
   continuityLevel: "C0" | "C1" | "C2";
 }
+
+// Gameplay simulation types (Section C)
+export interface CarPosition {
+  carId: string;
+  branchId?: string; // Set while on a branch, spaceIndex then indexes its spaces
+  spaceIndex: number;
+  spotIndex: number; // Spot.spotIndex within the space
+}
+
+export interface MoveStep {
+  branchId?: string;
+  spaceIndex: number;
+  type: "advance" | "fallback" | "slipstream";
+  isFull: boolean; // Every spot in the space was taken when the car reached it
+}
+
+// One space of travel along the main loop or onto, along and off a branch
+export interface RouteStep {
+  branchId?: string;
+  spaceIndex: number;
+  linesCrossed: number[]; // Main-loop lines crossed on the way into this space
+  progress: number; // Main-loop spaces this step is worth
+}
+
+export interface MoveResult {
+  carId: string;
+  from: CarPosition;
+  to: CarPosition;
+  requestedSpaces: number;
+  spacesMoved: number; // Spaces actually advanced after falling back
+  steps: MoveStep[];
+  linesCrossed: number[]; // Main-loop lines (corner or start/finish) crossed, in race order
+  progress: number; // Main-loop spaces covered, counting a branch as the spaces it bypasses
+  crossedStartFinish: boolean;
+}
+
+export interface CornerCheckResult {
+  cornerId: string; // The strictest corner when a group is checked
+  groupId?: string;
+  spaceIndex: number;
+  speedLimit: number;
+  speed: number; // Speed used for the check (cards + Boost)
+  heatCost: number; // Heat owed for exceeding the limit
+  heatPaid: number;
+  spunOut: boolean;
+}
+
+export interface TurnInput {
+  carId: string;
+  speed: number; // Sum of the played cards
+  boost: number; // Counts toward movement and Speed
+  heat: number; // Heat cards left in the engine
+  gear: number;
+  slipstream?: boolean; // Take the slipstream when available (default true)
+  branchId?: string; // Branch to take if the move passes its split
+}
+
+export interface TurnResult {
+  carId: string;
+  move: MoveResult; // Includes any slipstream movement
+  slipstreamAvailable: boolean;
+  slipstreamSpaces: number; // Spaces gained from slipstream (0 when not taken)
+  cornerChecks: CornerCheckResult[];
+  finalPosition: CarPosition;
+  heatPaid: number;
+  heatRemaining: number;
+  stressGained: number;
+  spunOut: boolean;
+  gear: number; // Gear after the turn (1st after a spin-out)
+  cooldownBonus: number; // Extra Heat the car may cool from road conditions
+}
+
+// Race simulation types (Section C.4)
+export interface RaceSimulationOptions {
+  races?: number; // Number of races to run
+  carsPerRace?: number;
+  seed?: number; // Seed for the deck shuffles, so reports are reproducible
+  maxTurns?: number; // Give up on a race after this many rounds
+  onProgress?: (completedRaces: number, races: number) => void;
+  signal?: AbortSignal; // Stops the run between batches of races
+}
+
+export interface CornerSimulationStats {
+  cornerId: string;
+  spaceIndex: number;
+  speedLimit: number;
+  checks: number; // Times a car crossed the corner line
+  spinOuts: number;
+  spinOutRate: number; // Spin-outs per check
+  heatSpent: number;
+  averageHeat: number; // Heat paid per check
+  decidingRaces: number; // Races where the winner took the lead for good here
+  decidingRate: number;
+  flag?: "punishing" | "irrelevant";
+}
+
+export interface RaceSimulationReport {
+  races: number;
+  carsPerRace: number;
+  laps: number;
+  averageLapTurns: number;
+  averageRaceTurns: number;
+  unfinishedRaces: number;
+  corners: CornerSimulationStats[];
+  difficulty: number; // Measured difficulty (1-10)
+  warnings: string[];
+}
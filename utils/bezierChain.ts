@@ -5,6 +5,7 @@ import {
   ContinuitySettings,
   Point,
   SplinePath,
+  TrackIntersection,
 } from "@/types/spline";
 import { generateId } from "./pathUtils";
 
@@ -340,6 +341,41 @@ export function findTForDistance(
   return { segmentIndex: segments.length - 1, t: 1 };
 }
 
+/**
+ * Distance along a Bezier chain to parameter t on one of its segments
+ * The inverse of findTForDistance
+ */
+export function findDistanceForT(
+  segments: BezierSegment[],
+  segmentIndex: number,
+  t: number,
+  samples: number = 100,
+): number {
+  let distance = 0;
+  for (let i = 0; i < segmentIndex; i++) {
+    const segment = segments[i];
+    if (segment) distance += calculateSegmentArcLength(segment, samples);
+  }
+
+  const segment = segments[segmentIndex];
+  if (!segment) return distance;
+
+  let prevPoint = segment.startPoint;
+  for (let i = 1; i <= Math.ceil(samples * t); i++) {
+    const point = evaluateCubicBezier(
+      segment.startPoint,
+      segment.cp1,
+      segment.cp2,
+      segment.endPoint,
+      Math.min(i / samples, t),
+    );
+    distance += Math.hypot(point.x - prevPoint.x, point.y - prevPoint.y);
+    prevPoint = point;
+  }
+
+  return distance;
+}
+
 /**
  * Find parameter t for a given distance within a single segment
  */
@@ -430,6 +466,236 @@ export function calculateChainTangent(
   };
 }
 
+// Curve pieces smaller than this (in px) are treated as straight lines
+const INTERSECTION_TOLERANCE = 0.5;
+// Subdivision depth limit, reached only for near-tangent overlaps
+const MAX_INTERSECTION_DEPTH = 24;
+// Hits this close to a shared endpoint are the joint, not a crossing
+const JOINT_TOLERANCE = 1;
+
+type CubicCurve = [Point, Point, Point, Point];
+
+interface CurvePiece {
+  curve: CubicCurve;
+  t0: number;
+  t1: number;
+}
+
+/**
+ * Find every point where a Bezier chain crosses itself
+ * Uses bounding box subdivision, so adjacent segments and loops inside a
+ * single segment are found too
+ */
+export function findChainIntersections(
+  segments: BezierSegment[],
+): TrackIntersection[] {
+  const intersections: TrackIntersection[] = [];
+  // Zero-length segments (such as a repeated closing point) cannot cross anything
+  const curves = segments.map((segment) =>
+    distanceBetween(segment.startPoint, segment.endPoint) < JOINT_TOLERANCE
+      ? null
+      : segmentToCurve(segment),
+  );
+
+  // Consecutive segments touch at their joint, skipping zero-length ones
+  const activeIndices = curves.flatMap((curve, index) =>
+    curve ? [index] : [],
+  );
+  const isConsecutive = (i: number, j: number) =>
+    activeIndices.some((index, position) => {
+      const next = activeIndices[(position + 1) % activeIndices.length];
+      return (index === i && next === j) || (index === j && next === i);
+    });
+
+  const addHits = (
+    [i, a]: [number, CurvePiece],
+    [j, b]: [number, CurvePiece],
+  ) => {
+    // Hits at the joint between consecutive pieces are not crossings
+    const joints =
+      i === j || isConsecutive(i, j)
+        ? [a.curve[0], a.curve[3]].filter((endpoint) =>
+            [b.curve[0], b.curve[3]].some(
+              (other) => distanceBetween(endpoint, other) < JOINT_TOLERANCE,
+            ),
+          )
+        : [];
+
+    for (const hit of intersectCurvePieces(a, b, 0)) {
+      const isJointOrDuplicate = [
+        ...joints,
+        ...intersections.map((existing) => existing.point),
+      ].some((point) => distanceBetween(point, hit.point) < JOINT_TOLERANCE);
+
+      if (!isJointOrDuplicate) {
+        intersections.push({
+          point: hit.point,
+          segmentIndices: [i, j],
+          params: [hit.tA, hit.tB],
+        });
+      }
+    }
+  };
+
+  for (let i = 0; i < curves.length; i++) {
+    const curveA = curves[i];
+    if (!curveA) continue;
+
+    // A single segment can loop over itself - compare its two halves
+    const [firstHalf, secondHalf] = splitCubic(curveA, 0.5);
+    addHits(
+      [i, { curve: firstHalf, t0: 0, t1: 0.5 }],
+      [i, { curve: secondHalf, t0: 0.5, t1: 1 }],
+    );
+
+    for (let j = i + 1; j < curves.length; j++) {
+      const curveB = curves[j];
+      if (!curveB) continue;
+
+      addHits(
+        [i, { curve: curveA, t0: 0, t1: 1 }],
+        [j, { curve: curveB, t0: 0, t1: 1 }],
+      );
+    }
+  }
+
+  return intersections;
+}
+
+/**
+ * Recursively subdivide two curve pieces until they are small enough to
+ * intersect as straight lines
+ */
+function intersectCurvePieces(
+  a: CurvePiece,
+  b: CurvePiece,
+  depth: number,
+): { point: Point; tA: number; tB: number }[] {
+  if (!boundsOverlap(curveBounds(a.curve), curveBounds(b.curve))) return [];
+
+  const isFlat =
+    curveSize(a.curve) < INTERSECTION_TOLERANCE &&
+    curveSize(b.curve) < INTERSECTION_TOLERANCE;
+  if (isFlat || depth >= MAX_INTERSECTION_DEPTH) {
+    const hit = intersectLines(a.curve[0], a.curve[3], b.curve[0], b.curve[3]);
+    if (!hit) return [];
+
+    return [
+      {
+        point: hit.point,
+        tA: a.t0 + hit.s * (a.t1 - a.t0),
+        tB: b.t0 + hit.u * (b.t1 - b.t0),
+      },
+    ];
+  }
+
+  const hits: { point: Point; tA: number; tB: number }[] = [];
+  for (const pieceA of splitPiece(a)) {
+    for (const pieceB of splitPiece(b)) {
+      hits.push(...intersectCurvePieces(pieceA, pieceB, depth + 1));
+    }
+  }
+  return hits;
+}
+
+function segmentToCurve(segment: BezierSegment): CubicCurve {
+  return [segment.startPoint, segment.cp1, segment.cp2, segment.endPoint];
+}
+
+function splitPiece(piece: CurvePiece): [CurvePiece, CurvePiece] {
+  const tMid = (piece.t0 + piece.t1) / 2;
+  const [left, right] = splitCubic(piece.curve, 0.5);
+  return [
+    { curve: left, t0: piece.t0, t1: tMid },
+    { curve: right, t0: tMid, t1: piece.t1 },
+  ];
+}
+
+/**
+ * Split a cubic curve at t using de Casteljau's algorithm
+ */
+function splitCubic(curve: CubicCurve, t: number): [CubicCurve, CubicCurve] {
+  const [p0, p1, p2, p3] = curve;
+  const lerp = (a: Point, b: Point): Point => ({
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+  });
+
+  const p01 = lerp(p0, p1);
+  const p12 = lerp(p1, p2);
+  const p23 = lerp(p2, p3);
+  const p012 = lerp(p01, p12);
+  const p123 = lerp(p12, p23);
+  const mid = lerp(p012, p123);
+
+  return [
+    [p0, p01, p012, mid],
+    [mid, p123, p23, p3],
+  ];
+}
+
+function curveBounds(curve: CubicCurve): {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+} {
+  const xs = curve.map((p) => p.x);
+  const ys = curve.map((p) => p.y);
+
+  return {
+    minX: Math.min(...xs),
+    maxX: Math.max(...xs),
+    minY: Math.min(...ys),
+    maxY: Math.max(...ys),
+  };
+}
+
+function curveSize(curve: CubicCurve): number {
+  const bounds = curveBounds(curve);
+  return Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+}
+
+function boundsOverlap(
+  a: ReturnType<typeof curveBounds>,
+  b: ReturnType<typeof curveBounds>,
+): boolean {
+  return !(
+    a.maxX < b.minX ||
+    a.minX > b.maxX ||
+    a.maxY < b.minY ||
+    a.minY > b.maxY
+  );
+}
+
+/**
+ * Intersect line segments p1-p2 and p3-p4, returning the point and the
+ * fraction along each segment
+ */
+function intersectLines(
+  p1: Point,
+  p2: Point,
+  p3: Point,
+  p4: Point,
+): { point: Point; s: number; u: number } | null {
+  const d1x = p2.x - p1.x;
+  const d1y = p2.y - p1.y;
+  const d2x = p4.x - p3.x;
+  const d2y = p4.y - p3.y;
+  const denominator = d1x * d2y - d1y * d2x;
+  if (Math.abs(denominator) < 1e-12) return null;
+
+  const s = ((p3.x - p1.x) * d2y - (p3.y - p1.y) * d2x) / denominator;
+  const u = ((p3.x - p1.x) * d1y - (p3.y - p1.y) * d1x) / denominator;
+  if (s < 0 || s > 1 || u < 0 || u > 1) return null;
+
+  return { point: { x: p1.x + s * d1x, y: p1.y + s * d1y }, s, u };
+}
+
+function distanceBetween(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
 /**
  * Analyze Bezier chain quality metrics
  */
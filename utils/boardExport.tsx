@@ -0,0 +1,271 @@
+import { renderToStaticMarkup } from "react-dom/server";
+
+import { RaceTrack } from "@/components/RaceTrack";
+import { BoardScale, TrackData } from "@/types/spline";
+
+import { getTrackFileSlug } from "./serialization";
+
+/**
+ * Print-ready board export.
+ * Renders what RaceTrack draws without any editor overlays into a
+ * standalone SVG sized in millimetres, and rasterises it to a PNG at a
+ * chosen DPI. The SVG renderer is a plain function of the track data, so
+ * it can run outside the editor (and outside a browser).
+ */
+
+const BASE_TRACK_WIDTH = 100; // Matches the base track width in RaceTrack
+const MARGIN_TRACK_WIDTHS = 1.5; // Room for badges and flags around the track
+const CSS_DPI = 96; // Fallback size for uncalibrated boards: 1 track px = 1 CSS px
+const MM_PER_INCH = 25.4;
+const MM_PER_UNIT: Record<BoardScale["unit"], number> = {
+  mm: 1,
+  cm: 10,
+  in: MM_PER_INCH,
+};
+const MAX_CANVAS_SIDE = 16384; // Largest canvas side browsers reliably allocate
+
+export const DEFAULT_EXPORT_DPI = 300;
+
+export interface BoardExportOptions {
+  widthMm?: number; // Printed width, defaults to the calibrated 1:1 size
+  dpi?: number; // PNG resolution
+  margin?: number; // Track px around the board
+  background?: string; // Paper colour, transparent when omitted
+  trackColor?: string;
+  countdownTextColor?: string;
+}
+
+export interface BoardLayout {
+  viewBox: { x: number; y: number; width: number; height: number };
+  widthMm: number;
+  heightMm: number;
+}
+
+/**
+ * Board area in track space and its printed size
+ */
+export function getBoardLayout(
+  trackData: TrackData,
+  options: BoardExportOptions = {},
+): BoardLayout {
+  const points = trackData.splinePath.points ?? [];
+  if (points.length < 2) {
+    throw new Error("Track has no spline to export");
+  }
+
+  // Handles included: a bezier never leaves the hull of its control points
+  const branchPoints = (trackData.branches ?? []).flatMap(
+    (branch) => branch.points,
+  );
+  const coordinates = [...points, ...branchPoints].flatMap((point) => [
+    point,
+    ...(point.handleIn ? [point.handleIn] : []),
+    ...(point.handleOut ? [point.handleOut] : []),
+  ]);
+  const margin =
+    options.margin ??
+    ((BASE_TRACK_WIDTH * trackData.discretizationSettings.trackWidth) / 100) *
+      MARGIN_TRACK_WIDTHS;
+  const xs = coordinates.map((p) => p.x);
+  const ys = coordinates.map((p) => p.y);
+  const x = Math.min(...xs) - margin;
+  const y = Math.min(...ys) - margin;
+  const width = Math.max(...xs) + margin - x;
+  const height = Math.max(...ys) + margin - y;
+
+  const mmPerPixel = options.widthMm
+    ? options.widthMm / width
+    : trackData.boardScale
+      ? MM_PER_UNIT[trackData.boardScale.unit] /
+        trackData.boardScale.pixelsPerUnit
+      : MM_PER_INCH / CSS_DPI;
+
+  return {
+    viewBox: { x, y, width, height },
+    widthMm: width * mmPerPixel,
+    heightMm: height * mmPerPixel,
+  };
+}
+
+/**
+ * Standalone SVG document of the board, sized in millimetres
+ */
+export function renderBoardSvg(
+  trackData: TrackData,
+  options: BoardExportOptions = {},
+): string {
+  const { viewBox, widthMm, heightMm } = getBoardLayout(trackData, options);
+
+  const markup = renderToStaticMarkup(
+    <svg
+      height={`${heightMm}mm`}
+      viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`}
+      width={`${widthMm}mm`}
+      xmlns="http://www.w3.org/2000/svg"
+    >
+      {options.background && (
+        <rect
+          fill={options.background}
+          height={viewBox.height}
+          width={viewBox.width}
+          x={viewBox.x}
+          y={viewBox.y}
+        />
+      )}
+      <RaceTrack
+        branches={trackData.branches}
+        closed={trackData.splinePath.closed}
+        cornerGroups={trackData.cornerGroups}
+        corners={trackData.corners}
+        countdownTextColor={
+          options.countdownTextColor ??
+          trackData.appearanceSettings?.countdownTextColor
+        }
+        debugMode={false}
+        legendLines={trackData.legendLines}
+        overpasses={trackData.overpasses}
+        points={trackData.splinePath.points ?? []}
+        raceDirection={trackData.metadata.raceDirection}
+        roadConditions={trackData.roadConditions}
+        scale={trackData.discretizationSettings.trackWidth}
+        segments={trackData.spaces.length}
+        spaces={trackData.spaces}
+        startFinishSpaceIndex={trackData.metadata.startFinishSpaceIndex}
+        trackColor={
+          options.trackColor ?? trackData.appearanceSettings?.trackColor
+        }
+        widthPoints={trackData.widthPoints}
+      />
+    </svg>,
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${markup}`;
+}
+
+/**
+ * Pixel size of the PNG for a board at the given DPI
+ */
+export function getBoardPixelSize(
+  layout: BoardLayout,
+  dpi: number = DEFAULT_EXPORT_DPI,
+) {
+  return {
+    width: Math.round((layout.widthMm / MM_PER_INCH) * dpi),
+    height: Math.round((layout.heightMm / MM_PER_INCH) * dpi),
+  };
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Add a pHYs chunk so print software picks up the DPI.
+ * Canvas PNGs start with the signature and IHDR and carry no pHYs.
+ */
+export function setPngDpi(
+  png: Uint8Array,
+  dpi: number,
+): Uint8Array<ArrayBuffer> {
+  const IHDR_END = 8 + 25; // Signature, then IHDR length, type, 13 data bytes, CRC
+  const pixelsPerMetre = Math.round(dpi / (MM_PER_INCH / 1000));
+
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9); // Data length
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMetre); // X
+  view.setUint32(12, pixelsPerMetre); // Y
+  chunk[16] = 1; // Unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  const result = new Uint8Array(png.length + chunk.length);
+  result.set(png.subarray(0, IHDR_END), 0);
+  result.set(chunk, IHDR_END);
+  result.set(png.subarray(IHDR_END), IHDR_END + chunk.length);
+  return result;
+}
+
+/**
+ * Draw the board onto a canvas at the given DPI.
+ * Needs a browser (Image and canvas).
+ */
+export async function rasteriseBoard(
+  trackData: TrackData,
+  options: BoardExportOptions = {},
+): Promise<HTMLCanvasElement> {
+  const dpi = options.dpi ?? DEFAULT_EXPORT_DPI;
+  const { width, height } = getBoardPixelSize(
+    getBoardLayout(trackData, options),
+    dpi,
+  );
+  if (Math.max(width, height) > MAX_CANVAS_SIDE) {
+    throw new Error(
+      `Board is ${width}x${height} px at ${dpi} DPI - lower the DPI or size to stay under ${MAX_CANVAS_SIDE} px`,
+    );
+  }
+
+  const svgUrl = URL.createObjectURL(
+    new Blob([renderBoardSvg(trackData, options)], { type: "image/svg+xml" }),
+  );
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("Could not render board SVG"));
+      image.src = svgUrl;
+    });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas is not available");
+    context.drawImage(image, 0, 0, width, height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(svgUrl);
+  }
+}
+
+/**
+ * Rasterise the board to a PNG with its DPI recorded in the file
+ */
+export async function renderBoardPng(
+  trackData: TrackData,
+  options: BoardExportOptions = {},
+): Promise<Blob> {
+  const canvas = await rasteriseBoard(trackData, options);
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/png"),
+  );
+  if (!blob) throw new Error("Could not encode PNG");
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return new Blob([setPngDpi(bytes, options.dpi ?? DEFAULT_EXPORT_DPI)], {
+    type: "image/png",
+  });
+}
+
+/**
+ * Download file name for a board export
+ */
+export function getBoardExportFileName(
+  trackData: TrackData,
+  extension: "svg" | "png" | "pdf",
+): string {
+  return `${getTrackFileSlug(trackData)}.board.${extension}`;
+}
@@ -0,0 +1,301 @@
+import { TrackData } from "@/types/spline";
+
+import {
+  BoardExportOptions,
+  getBoardLayout,
+  rasteriseBoard,
+} from "./boardExport";
+import { createPdf, PdfPage, pdfTextAt, POINTS_PER_MM } from "./pdfWriter";
+
+/**
+ * Tiled PDF export for home printers.
+ * The board is split into overlapping page-sized tiles. Each page gets
+ * crop marks at the corners of its printable area, registration marks in
+ * the overlaps (the same mark prints on both neighbouring tiles) and its
+ * grid coordinate, e.g. "B2", so the pages can be trimmed and taped back
+ * together.
+ */
+
+export const PAPER_SIZES = {
+  a4: { label: "A4", width: 210, height: 297 },
+  letter: { label: "Letter", width: 215.9, height: 279.4 },
+} as const;
+
+export type PaperSize = keyof typeof PAPER_SIZES;
+
+export interface TileOptions {
+  paper?: PaperSize;
+  marginMm?: number; // Unprintable border left blank on every page
+  overlapMm?: number; // Board area repeated on neighbouring tiles
+}
+
+export interface BoardTile {
+  column: number;
+  row: number;
+  label: string; // Grid coordinate - column letter and row number
+  x: number; // Board area covered, in mm from the board's top-left
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TileLayout {
+  paperWidth: number; // mm, after picking the orientation that needs fewer pages
+  paperHeight: number;
+  margin: number;
+  overlap: number;
+  columns: number;
+  rows: number;
+  tiles: BoardTile[];
+  registrationMarks: { x: number; y: number }[]; // Board mm
+}
+
+const DEFAULT_MARGIN_MM = 10;
+const DEFAULT_OVERLAP_MM = 15;
+const DEFAULT_PDF_DPI = 150; // Plenty for home printers, keeps the file small
+const CROP_MARK_LENGTH = 6; // mm
+const CROP_MARK_GAP = 1.5; // mm between the printable area and a crop mark
+const REGISTRATION_RADIUS = 3; // mm
+const LABEL_FONT_SIZE = 9; // pt
+const JPEG_QUALITY = 0.92;
+
+function columnLabel(column: number): string {
+  let label = "";
+  let remaining = column;
+  do {
+    label = String.fromCharCode(65 + (remaining % 26)) + label;
+    remaining = Math.floor(remaining / 26) - 1;
+  } while (remaining >= 0);
+  return label;
+}
+
+function tileCount(boardSize: number, printable: number, overlap: number) {
+  if (boardSize <= printable) return 1;
+  return Math.ceil((boardSize - overlap) / (printable - overlap));
+}
+
+/**
+ * Split a board into overlapping tiles that fit the paper
+ */
+export function getTileLayout(
+  boardWidth: number,
+  boardHeight: number,
+  { paper = "a4", marginMm, overlapMm }: TileOptions = {},
+): TileLayout {
+  const margin = marginMm ?? DEFAULT_MARGIN_MM;
+  const overlap = overlapMm ?? DEFAULT_OVERLAP_MM;
+  const { width: paperShort, height: paperLong } = PAPER_SIZES[paper];
+
+  // Portrait or landscape, whichever needs fewer pages
+  const orientations = [
+    { paperWidth: paperShort, paperHeight: paperLong },
+    { paperWidth: paperLong, paperHeight: paperShort },
+  ].map(({ paperWidth, paperHeight }) => {
+    const printableWidth = paperWidth - margin * 2;
+    const printableHeight = paperHeight - margin * 2;
+    if (overlap >= Math.min(printableWidth, printableHeight)) {
+      throw new Error("Overlap must be smaller than the printable area");
+    }
+    return {
+      paperWidth,
+      paperHeight,
+      printableWidth,
+      printableHeight,
+      columns: tileCount(boardWidth, printableWidth, overlap),
+      rows: tileCount(boardHeight, printableHeight, overlap),
+    };
+  });
+  const [portrait, landscape] = orientations;
+  if (!portrait || !landscape) throw new Error("No paper orientation");
+  const best =
+    landscape.columns * landscape.rows < portrait.columns * portrait.rows
+      ? landscape
+      : portrait;
+
+  const stepX = best.printableWidth - overlap;
+  const stepY = best.printableHeight - overlap;
+
+  const tiles: BoardTile[] = [];
+  for (let row = 0; row < best.rows; row++) {
+    for (let column = 0; column < best.columns; column++) {
+      tiles.push({
+        column,
+        row,
+        label: `${columnLabel(column)}${row + 1}`,
+        x: column * stepX,
+        y: row * stepY,
+        width: best.printableWidth,
+        height: best.printableHeight,
+      });
+    }
+  }
+
+  // Marks in the middle of each overlap, one per neighbouring tile pair
+  const registrationMarks: { x: number; y: number }[] = [];
+  for (let column = 1; column < best.columns; column++) {
+    for (let row = 0; row < best.rows; row++) {
+      registrationMarks.push({
+        x: column * stepX + overlap / 2,
+        y: row * stepY + best.printableHeight / 2,
+      });
+    }
+  }
+  for (let row = 1; row < best.rows; row++) {
+    for (let column = 0; column < best.columns; column++) {
+      registrationMarks.push({
+        x: column * stepX + best.printableWidth / 2,
+        y: row * stepY + overlap / 2,
+      });
+    }
+  }
+
+  return {
+    paperWidth: best.paperWidth,
+    paperHeight: best.paperHeight,
+    margin,
+    overlap,
+    columns: best.columns,
+    rows: best.rows,
+    tiles,
+    registrationMarks,
+  };
+}
+
+/**
+ * Content stream for a tile's marks and labels.
+ * Drawn in page mm, flipped so y grows downwards like the board.
+ */
+function getTileMarks(
+  tile: BoardTile,
+  layout: TileLayout,
+  trackName: string,
+): string {
+  const { margin, paperHeight } = layout;
+  const pt = (mm: number) => (mm * POINTS_PER_MM).toFixed(2);
+  const pageX = (mm: number) => pt(mm);
+  const pageY = (mm: number) => pt(paperHeight - mm);
+  const line = (x1: number, y1: number, x2: number, y2: number) =>
+    `${pageX(x1)} ${pageY(y1)} m ${pageX(x2)} ${pageY(y2)} l S\n`;
+
+  let content = `0 G ${pt(0.2)} w\n`;
+
+  // Crop marks just outside each corner of the printable area
+  const left = margin;
+  const top = margin;
+  const right = margin + tile.width;
+  const bottom = margin + tile.height;
+  for (const [x, y, dx, dy] of [
+    [left, top, -1, -1],
+    [right, top, 1, -1],
+    [left, bottom, -1, 1],
+    [right, bottom, 1, 1],
+  ] as const) {
+    content += line(
+      x + dx * CROP_MARK_GAP,
+      y,
+      x + dx * (CROP_MARK_GAP + CROP_MARK_LENGTH),
+      y,
+    );
+    content += line(
+      x,
+      y + dy * CROP_MARK_GAP,
+      x,
+      y + dy * (CROP_MARK_GAP + CROP_MARK_LENGTH),
+    );
+  }
+
+  // Registration marks that fall on this tile
+  for (const mark of layout.registrationMarks) {
+    const x = margin + mark.x - tile.x;
+    const y = margin + mark.y - tile.y;
+    if (x < left || x > right || y < top || y > bottom) continue;
+
+    const r = REGISTRATION_RADIUS;
+    // Circle from four bezier arcs (k = 0.5523 approximates a quarter circle)
+    const k = r * 0.5523;
+    content +=
+      `${pageX(x + r)} ${pageY(y)} m ` +
+      `${pageX(x + r)} ${pageY(y + k)} ${pageX(x + k)} ${pageY(y + r)} ${pageX(x)} ${pageY(y + r)} c ` +
+      `${pageX(x - k)} ${pageY(y + r)} ${pageX(x - r)} ${pageY(y + k)} ${pageX(x - r)} ${pageY(y)} c ` +
+      `${pageX(x - r)} ${pageY(y - k)} ${pageX(x - k)} ${pageY(y - r)} ${pageX(x)} ${pageY(y - r)} c ` +
+      `${pageX(x + k)} ${pageY(y - r)} ${pageX(x + r)} ${pageY(y - k)} ${pageX(x + r)} ${pageY(y)} c S\n`;
+    content += line(x - r * 1.6, y, x + r * 1.6, y);
+    content += line(x, y - r * 1.6, x, y + r * 1.6);
+  }
+
+  // Page coordinate in the top margin, clear of the crop marks
+  const page = layout.tiles.indexOf(tile) + 1;
+  const labelX = (margin + CROP_MARK_GAP * 2) * POINTS_PER_MM;
+  content += `0 g\n`;
+  content += pdfTextAt(
+    `${tile.label} - ${trackName} - page ${page} of ${layout.tiles.length} ` +
+      `(column ${tile.column + 1} of ${layout.columns}, row ${tile.row + 1} of ${layout.rows})`,
+    labelX,
+    (paperHeight - margin / 2 - 1) * POINTS_PER_MM,
+    LABEL_FONT_SIZE,
+  );
+  content += pdfTextAt(
+    `Overlap ${layout.overlap} mm - align the registration marks with the neighbouring pages`,
+    labelX,
+    (margin / 2 - 1) * POINTS_PER_MM,
+    LABEL_FONT_SIZE - 2,
+  );
+
+  return content;
+}
+
+/**
+ * Multi-page PDF of the board split into printable tiles.
+ * Needs a browser (canvas) to rasterise the board.
+ */
+export async function renderBoardPdf(
+  trackData: TrackData,
+  options: BoardExportOptions & TileOptions = {},
+): Promise<Blob> {
+  const dpi = options.dpi ?? DEFAULT_PDF_DPI;
+  const { widthMm, heightMm } = getBoardLayout(trackData, options);
+  const layout = getTileLayout(widthMm, heightMm, options);
+  const board = await rasteriseBoard(trackData, { ...options, dpi });
+  const pixelsPerMm = board.width / widthMm;
+
+  const pages: PdfPage[] = [];
+  for (const tile of layout.tiles) {
+    // Tiles past the board's edge print white
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(tile.width * pixelsPerMm);
+    canvas.height = Math.round(tile.height * pixelsPerMm);
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas is not available");
+    context.fillStyle = "white";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(
+      board,
+      -Math.round(tile.x * pixelsPerMm),
+      -Math.round(tile.y * pixelsPerMm),
+    );
+
+    const jpeg = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY),
+    );
+    if (!jpeg) throw new Error("Could not encode tile image");
+
+    const pt = (mm: number) => (mm * POINTS_PER_MM).toFixed(2);
+    pages.push({
+      width: layout.paperWidth * POINTS_PER_MM,
+      height: layout.paperHeight * POINTS_PER_MM,
+      content:
+        `q ${pt(tile.width)} 0 0 ${pt(tile.height)} ${pt(layout.margin)} ${pt(layout.margin)} cm /Tile Do Q\n` +
+        getTileMarks(tile, layout, trackData.metadata.name),
+      images: [
+        {
+          name: "Tile",
+          jpeg: new Uint8Array(await jpeg.arrayBuffer()),
+          width: canvas.width,
+          height: canvas.height,
+        },
+      ],
+    });
+  }
+
+  return new Blob([createPdf(pages)], { type: "application/pdf" });
+}
@@ -0,0 +1,823 @@
+import {
+  CarPosition,
+  Corner,
+  CornerCheckResult,
+  CornerGroup,
+  MoveResult,
+  MoveStep,
+  RoadConditionKind,
+  RouteStep,
+  Space,
+  TrackBranch,
+  TrackData,
+  TurnInput,
+  TurnResult,
+} from "@/types/spline";
+
+/**
+ * Gameplay rules engine for Section C (Gameplay Validation Engine)
+ * Pure functions without any UI dependencies, so custom tracks can be
+ * checked before they are printed
+ */
+
+/**
+ * Direction a car travels through space indices
+ * Clockwise tracks race in ascending index order, counter-clockwise in descending
+ */
+export function getRaceStep(trackData: TrackData): 1 | -1 {
+  return trackData.metadata.raceDirection === false ? -1 : 1;
+}
+
+/**
+ * Wrap a space index around the closed loop
+ */
+export function wrapSpaceIndex(index: number, spacesCount: number): number {
+  if (spacesCount === 0) return 0;
+  return ((index % spacesCount) + spacesCount) % spacesCount;
+}
+
+/**
+ * Get the line (corner or start/finish) crossed when stepping out of a space
+ * Lines sit on the boundary after their space index, so space N's line
+ * lies between space N and space N + 1
+ */
+export function getCrossedLineIndex(
+  fromSpaceIndex: number,
+  step: 1 | -1,
+  spacesCount: number,
+): number {
+  return step > 0
+    ? wrapSpaceIndex(fromSpaceIndex, spacesCount)
+    : wrapSpaceIndex(fromSpaceIndex - 1, spacesCount);
+}
+
+/**
+ * List the lines crossed, in race order, when moving a number of spaces
+ */
+export function getCrossedLineIndices(
+  trackData: TrackData,
+  fromSpaceIndex: number,
+  spacesMoved: number,
+): number[] {
+  const spacesCount = trackData.spaces.length;
+  const step = getRaceStep(trackData);
+  const lines: number[] = [];
+
+  for (let i = 0; i < spacesMoved; i++) {
+    lines.push(
+      getCrossedLineIndex(fromSpaceIndex + step * i, step, spacesCount),
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Main-loop spaces from a branch's split to its join in race order
+ * A car staying on the main loop takes this many steps between them
+ */
+export function getBranchMainDistance(
+  trackData: TrackData,
+  branch: Pick<TrackBranch, "splitSpaceIndex" | "joinSpaceIndex">,
+): number {
+  return wrapSpaceIndex(
+    (branch.joinSpaceIndex - branch.splitSpaceIndex) * getRaceStep(trackData),
+    trackData.spaces.length,
+  );
+}
+
+function findBranch(
+  trackData: TrackData,
+  branchId: string | undefined,
+): TrackBranch | undefined {
+  if (branchId === undefined) return undefined;
+  return trackData.branches?.find((branch) => branch.id === branchId);
+}
+
+function findCornerGroup(
+  trackData: TrackData,
+  cornerId: string,
+): CornerGroup | undefined {
+  return trackData.cornerGroups?.find((group) =>
+    group.cornerIds.includes(cornerId),
+  );
+}
+
+/**
+ * Space at a position on the main loop or a branch
+ */
+export function getSpaceAt(
+  trackData: TrackData,
+  position: Pick<CarPosition, "branchId" | "spaceIndex">,
+): Space | undefined {
+  const spaces =
+    position.branchId === undefined
+      ? trackData.spaces
+      : findBranch(trackData, position.branchId)?.spaces;
+  return spaces?.[position.spaceIndex];
+}
+
+/**
+ * Lookup key for a space, unique across the main loop and branches
+ */
+function getSpaceKey(
+  position: Pick<CarPosition, "branchId" | "spaceIndex">,
+): string {
+  return position.branchId === undefined
+    ? `${position.spaceIndex}`
+    : `${position.branchId}:${position.spaceIndex}`;
+}
+
+/**
+ * The space a car reaches by moving one space forward
+ * At a branch's split the car turns off when that branch is chosen, and
+ * at the end of a branch it rejoins the main loop. Start/finish lines on
+ * the bypassed section are crossed on rejoining so laps still count;
+ * corners there are skipped.
+ */
+export function getNextRouteStep(
+  trackData: TrackData,
+  position: Pick<CarPosition, "branchId" | "spaceIndex">,
+  branchId?: string,
+): RouteStep {
+  const spacesCount = trackData.spaces.length;
+  const step = getRaceStep(trackData);
+  const currentBranch = findBranch(trackData, position.branchId);
+
+  if (currentBranch) {
+    // Each branch step is worth a share of the section it bypasses
+    const mainDistance = getBranchMainDistance(trackData, currentBranch);
+    const progress = mainDistance / (currentBranch.spaces.length + 1);
+
+    if (position.spaceIndex < currentBranch.spaces.length - 1) {
+      return {
+        branchId: currentBranch.id,
+        spaceIndex: position.spaceIndex + 1,
+        linesCrossed: [],
+        progress,
+      };
+    }
+
+    const { startFinishSpaceIndex } = trackData.metadata;
+    const bypassedLines = getCrossedLineIndices(
+      trackData,
+      currentBranch.splitSpaceIndex + step,
+      mainDistance - 2,
+    ).filter((line) => line === startFinishSpaceIndex);
+    const joinLine = getCrossedLineIndex(
+      currentBranch.joinSpaceIndex - step,
+      step,
+      spacesCount,
+    );
+
+    return {
+      spaceIndex: currentBranch.joinSpaceIndex,
+      linesCrossed: [...bypassedLines, joinLine],
+      progress,
+    };
+  }
+
+  const chosenBranch = findBranch(trackData, branchId);
+  const splitLine = getCrossedLineIndex(position.spaceIndex, step, spacesCount);
+
+  if (
+    chosenBranch &&
+    chosenBranch.splitSpaceIndex === position.spaceIndex &&
+    chosenBranch.spaces.length > 0 &&
+    getBranchMainDistance(trackData, chosenBranch) >= 2
+  ) {
+    return {
+      branchId: chosenBranch.id,
+      spaceIndex: 0,
+      linesCrossed: [splitLine],
+      progress:
+        getBranchMainDistance(trackData, chosenBranch) /
+        (chosenBranch.spaces.length + 1),
+    };
+  }
+
+  return {
+    spaceIndex: wrapSpaceIndex(position.spaceIndex + step, spacesCount),
+    linesCrossed: [splitLine],
+    progress: 1,
+  };
+}
+
+/**
+ * Every space a car passes through when moving a number of spaces
+ */
+export function traceRoute(
+  trackData: TrackData,
+  from: Pick<CarPosition, "branchId" | "spaceIndex">,
+  spaces: number,
+  branchId?: string,
+): RouteStep[] {
+  const route: RouteStep[] = [];
+  let position = from;
+
+  for (let i = 0; i < spaces; i++) {
+    const next = getNextRouteStep(trackData, position, branchId);
+    route.push(next);
+    position = next;
+  }
+
+  return route;
+}
+
+/**
+ * Build a lookup of occupied spot indices per space
+ * Keyed by space index on the main loop and "branchId:index" on branches
+ */
+export function buildOccupiedSpots(
+  cars: CarPosition[],
+  ignoreCarId?: string,
+): Map<string, Set<number>> {
+  const occupied = new Map<string, Set<number>>();
+
+  for (const car of cars) {
+    if (car.carId === ignoreCarId) continue;
+
+    const key = getSpaceKey(car);
+    const spots = occupied.get(key) ?? new Set<number>();
+    spots.add(car.spotIndex);
+    occupied.set(key, spots);
+  }
+
+  return occupied;
+}
+
+/**
+ * Find the best free spot in a space
+ * The race line is taken first, then the lanes closest to it
+ */
+export function findFreeSpot(
+  space: Space,
+  occupiedSpots: Set<number> = new Set(),
+): number | null {
+  const raceLineSpot = space.spots.find((spot) => spot.type === "race-line");
+  const raceLineIndex = raceLineSpot?.spotIndex ?? 0;
+
+  const freeSpots = space.spots
+    .filter((spot) => !spot.isOccupied && !occupiedSpots.has(spot.spotIndex))
+    .sort(
+      (a, b) =>
+        Math.abs(a.spotIndex - raceLineIndex) -
+          Math.abs(b.spotIndex - raceLineIndex) || a.spotIndex - b.spotIndex,
+    );
+
+  return freeSpots[0]?.spotIndex ?? null;
+}
+
+/**
+ * Move a car forward by N spaces (Section C.1)
+ * Cars pass through other cars freely but cannot end in a full space. When
+ * the destination is full the car falls back to the closest previous space
+ * with a free spot. Every space visited is recorded in the returned trace.
+ * The car turns onto the given branch if it passes the branch's split.
+ */
+export function moveCar(
+  trackData: TrackData,
+  cars: CarPosition[],
+  carId: string,
+  spaces: number,
+  branchId?: string,
+): MoveResult {
+  const spacesCount = trackData.spaces.length;
+  if (spacesCount === 0) {
+    throw new Error("Track has no spaces to move on");
+  }
+
+  const car = cars.find((c) => c.carId === carId);
+  if (!car) {
+    throw new Error(`Car ${carId} is not on the track`);
+  }
+
+  const requestedSpaces = Math.max(0, Math.floor(spaces));
+  const occupied = buildOccupiedSpots(cars, carId);
+  const route = traceRoute(trackData, car, requestedSpaces, branchId);
+  const steps: MoveStep[] = [];
+
+  const isSpaceFull = (
+    position: Pick<CarPosition, "branchId" | "spaceIndex">,
+  ): boolean => {
+    const space = getSpaceAt(trackData, position);
+    return (
+      !space ||
+      findFreeSpot(space, occupied.get(getSpaceKey(position))) === null
+    );
+  };
+
+  // Where the car is after moving a number of spaces along its route
+  const positionAfter = (
+    spacesMoved: number,
+  ): Pick<CarPosition, "branchId" | "spaceIndex"> =>
+    route[spacesMoved - 1] ?? car;
+
+  // Advance through every space, passing through other cars
+  for (const routeStep of route) {
+    steps.push({
+      branchId: routeStep.branchId,
+      spaceIndex: routeStep.spaceIndex,
+      type: "advance",
+      isFull: isSpaceFull(routeStep),
+    });
+  }
+
+  // Fall back until a space with a free spot is found
+  let spacesMoved = requestedSpaces;
+  while (spacesMoved > 0 && isSpaceFull(positionAfter(spacesMoved))) {
+    spacesMoved--;
+
+    // The starting space always has room since the moving car just left it
+    const position = positionAfter(spacesMoved);
+    steps.push({
+      branchId: position.branchId,
+      spaceIndex: position.spaceIndex,
+      type: "fallback",
+      isFull: spacesMoved > 0 && isSpaceFull(position),
+    });
+  }
+
+  const finalPosition = positionAfter(spacesMoved);
+  const finalSpace = getSpaceAt(trackData, finalPosition);
+
+  // A car that does not move keeps its own spot
+  const finalSpotIndex =
+    spacesMoved === 0 || !finalSpace
+      ? car.spotIndex
+      : (findFreeSpot(finalSpace, occupied.get(getSpaceKey(finalPosition))) ??
+        car.spotIndex);
+
+  const travelled = route.slice(0, spacesMoved);
+  const linesCrossed = travelled.flatMap((routeStep) => routeStep.linesCrossed);
+
+  return {
+    carId,
+    from: car,
+    to: {
+      carId,
+      ...(finalPosition.branchId !== undefined && {
+        branchId: finalPosition.branchId,
+      }),
+      spaceIndex: finalPosition.spaceIndex,
+      spotIndex: finalSpotIndex,
+    },
+    requestedSpaces,
+    spacesMoved,
+    steps,
+    linesCrossed,
+    progress: travelled.reduce((sum, routeStep) => sum + routeStep.progress, 0),
+    crossedStartFinish: linesCrossed.includes(
+      trackData.metadata.startFinishSpaceIndex,
+    ),
+  };
+}
+
+/**
+ * Replace a car's position with the outcome of a move
+ */
+export function applyCarPosition(
+  cars: CarPosition[],
+  position: CarPosition,
+): CarPosition[] {
+  return cars.map((car) => (car.carId === position.carId ? position : car));
+}
+
+/**
+ * Corners on a list of crossed lines, in crossing order
+ * Corners sharing a line are all returned, in track order
+ */
+export function getCornersOnLines(
+  trackData: TrackData,
+  lineIndices: number[],
+): Corner[] {
+  const cornersByLine = new Map<number, Corner[]>();
+  for (const corner of trackData.corners) {
+    const lineCorners = cornersByLine.get(corner.spaceIndex) ?? [];
+    lineCorners.push(corner);
+    cornersByLine.set(corner.spaceIndex, lineCorners);
+  }
+
+  return lineIndices.flatMap((lineIndex) => cornersByLine.get(lineIndex) ?? []);
+}
+
+/**
+ * Find every corner line crossed during a move, in race order
+ * Works across the start/finish line and in both race directions
+ */
+export function getCornersCrossed(
+  trackData: TrackData,
+  fromSpaceIndex: number,
+  spacesMoved: number,
+): Corner[] {
+  return getCornersOnLines(
+    trackData,
+    getCrossedLineIndices(trackData, fromSpaceIndex, spacesMoved),
+  );
+}
+
+/**
+ * Corner whose sector a car is in - the next corner ahead in race order
+ * Cars on a branch count as being where the branch rejoins
+ */
+export function getSectorCorner(
+  trackData: TrackData,
+  position: CarPosition,
+): Corner | undefined {
+  const spacesCount = trackData.spaces.length;
+  const step = getRaceStep(trackData);
+  const branch = findBranch(trackData, position.branchId);
+  const spaceIndex = branch ? branch.joinSpaceIndex : position.spaceIndex;
+  const nextLine = getCrossedLineIndex(spaceIndex, step, spacesCount);
+
+  let sectorCorner: Corner | undefined;
+  let closest = Infinity;
+  for (const corner of trackData.corners) {
+    const linesAhead = wrapSpaceIndex(
+      (corner.spaceIndex - nextLine) * step,
+      spacesCount,
+    );
+    if (linesAhead < closest) {
+      closest = linesAhead;
+      sectorCorner = corner;
+    }
+  }
+  return sectorCorner;
+}
+
+/**
+ * Whether a road condition applies to the sector leading into its corner
+ * rather than the corner itself
+ */
+export function isSectorCondition(kind: RoadConditionKind): boolean {
+  return kind === "slipstream-boost" || kind === "free-cooling";
+}
+
+/**
+ * Number of road condition tokens of a kind on a corner or its sector
+ */
+export function countRoadConditions(
+  trackData: TrackData,
+  cornerId: string | undefined,
+  kind: RoadConditionKind,
+): number {
+  return (trackData.roadConditions ?? []).filter(
+    (condition) => condition.cornerId === cornerId && condition.kind === kind,
+  ).length;
+}
+
+/**
+ * Corner as the rules see it, with speed limit tokens applied, and the
+ * extra Heat its overheat tokens add once the limit is exceeded
+ */
+export function applyCornerConditions(
+  trackData: TrackData,
+  corner: Corner,
+): { corner: Corner; extraHeat: number } {
+  const speedLimitChange =
+    countRoadConditions(trackData, corner.id, "speed-limit-up") -
+    countRoadConditions(trackData, corner.id, "speed-limit-down");
+
+  return {
+    corner: {
+      ...corner,
+      speedLimit: Math.max(0, corner.speedLimit + speedLimitChange),
+    },
+    extraHeat: countRoadConditions(trackData, corner.id, "overheat"),
+  };
+}
+
+/**
+ * Crossed corners batched into the checks they take, in crossing order
+ * Corners of one group crossed one after another are checked together
+ */
+export function groupCornerChecks(
+  trackData: TrackData,
+  corners: Corner[],
+): Corner[][] {
+  return corners.reduce<Corner[][]>((batches, corner) => {
+    const batch = batches[batches.length - 1];
+    const previous = batch?.[batch.length - 1];
+    const group = findCornerGroup(trackData, corner.id);
+
+    if (
+      batch &&
+      previous &&
+      group &&
+      group === findCornerGroup(trackData, previous.id) &&
+      !batch.includes(corner)
+    ) {
+      batch.push(corner);
+    } else {
+      batches.push([corner]);
+    }
+    return batches;
+  }, []);
+}
+
+/**
+ * Corner that decides a check - the one costing the most Heat at this
+ * Speed, with road conditions applied
+ */
+function getStrictestCorner(
+  trackData: TrackData,
+  corners: Corner[],
+  speed: number,
+): { corner: Corner; heatCost: number } | undefined {
+  return corners.reduce<{ corner: Corner; heatCost: number } | undefined>(
+    (strictest, crossedCorner) => {
+      const { corner, extraHeat } = applyCornerConditions(
+        trackData,
+        crossedCorner,
+      );
+      const heatCost = calculateCornerHeatCost(corner, speed, extraHeat);
+      return strictest && strictest.heatCost >= heatCost
+        ? strictest
+        : { corner, heatCost };
+    },
+    undefined,
+  );
+}
+
+/**
+ * Total Heat owed for a set of crossed corners, grouped corners charged once
+ */
+export function calculateCornersHeatCost(
+  trackData: TrackData,
+  corners: Corner[],
+  speed: number,
+): number {
+  return groupCornerChecks(trackData, corners).reduce(
+    (sum, batch) =>
+      sum + (getStrictestCorner(trackData, batch, speed)?.heatCost ?? 0),
+    0,
+  );
+}
+
+/**
+ * Heat owed for taking a corner at a given Speed (Section C.2)
+ * One Heat per point of Speed over the limit, e.g. Speed 3 at a 2 costs 1,
+ * plus any extra Heat road conditions put on the corner
+ */
+export function calculateCornerHeatCost(
+  corner: Corner,
+  speed: number,
+  extraHeat: number = 0,
+): number {
+  const excess = speed - corner.speedLimit;
+  if (excess <= 0) return 0;
+
+  return excess + extraHeat;
+}
+
+/**
+ * Stress cards taken when spinning out, based on the gear the car was in
+ */
+export function calculateSpinOutStress(gear: number): number {
+  return gear <= 2 ? 1 : 2;
+}
+
+/**
+ * Place a spun-out car on the closest free space before a corner line
+ */
+export function findSpinOutPosition(
+  trackData: TrackData,
+  cars: CarPosition[],
+  carId: string,
+  corner: Corner,
+): CarPosition {
+  return findPositionBeforeLine(trackData, cars, carId, corner.spaceIndex);
+}
+
+/**
+ * Find the closest free spot behind a line (corner or start/finish)
+ */
+export function findPositionBeforeLine(
+  trackData: TrackData,
+  cars: CarPosition[],
+  carId: string,
+  lineIndex: number,
+): CarPosition {
+  const spacesCount = trackData.spaces.length;
+  const step = getRaceStep(trackData);
+  const occupied = buildOccupiedSpots(cars, carId);
+
+  // The space just before the line when travelling in race order
+  const firstSpaceIndex =
+    step > 0 ? lineIndex : wrapSpaceIndex(lineIndex + 1, spacesCount);
+
+  for (let i = 0; i < spacesCount; i++) {
+    const spaceIndex = wrapSpaceIndex(firstSpaceIndex - step * i, spacesCount);
+    const space = trackData.spaces[spaceIndex];
+    if (!space) continue;
+
+    const spotIndex = findFreeSpot(
+      space,
+      occupied.get(getSpaceKey({ spaceIndex })),
+    );
+    if (spotIndex !== null) {
+      return { carId, spaceIndex, spotIndex };
+    }
+  }
+
+  throw new Error("No free space left on the track");
+}
+
+/**
+ * Resolve corner checks for a completed move (Section C.2)
+ * Corners are checked in crossing order. Speed above the limit is paid in
+ * Heat; a car that cannot pay spins out before that corner, takes Stress,
+ * drops to 1st gear and skips any remaining checks.
+ */
+export function resolveCornerChecks(
+  trackData: TrackData,
+  cars: CarPosition[],
+  move: MoveResult,
+  speed: number,
+  heat: number,
+  gear: number,
+): Omit<
+  TurnResult,
+  "move" | "slipstreamAvailable" | "slipstreamSpaces" | "cooldownBonus"
+> {
+  const cornerChecks: CornerCheckResult[] = [];
+  let heatRemaining = heat;
+
+  const corners = getCornersOnLines(trackData, move.linesCrossed);
+
+  for (const batch of groupCornerChecks(trackData, corners)) {
+    const strictest = getStrictestCorner(trackData, batch, speed);
+    if (!strictest) continue;
+
+    const { corner, heatCost } = strictest;
+    const spunOut = heatCost > heatRemaining;
+    const heatPaid = spunOut ? 0 : heatCost;
+    heatRemaining -= heatPaid;
+
+    cornerChecks.push({
+      cornerId: corner.id,
+      groupId: findCornerGroup(trackData, corner.id)?.id,
+      spaceIndex: corner.spaceIndex,
+      speedLimit: corner.speedLimit,
+      speed,
+      heatCost,
+      heatPaid,
+      spunOut,
+    });
+
+    if (spunOut) {
+      return {
+        carId: move.carId,
+        cornerChecks,
+        // Back behind the first corner of the check
+        finalPosition: findSpinOutPosition(
+          trackData,
+          cars,
+          move.carId,
+          batch[0] ?? corner,
+        ),
+        heatPaid: heat - heatRemaining,
+        heatRemaining,
+        stressGained: calculateSpinOutStress(gear),
+        spunOut: true,
+        gear: 1,
+      };
+    }
+  }
+
+  return {
+    carId: move.carId,
+    cornerChecks,
+    finalPosition: move.to,
+    heatPaid: heat - heatRemaining,
+    heatRemaining,
+    stressGained: 0,
+    spunOut: false,
+    gear,
+  };
+}
+
+/**
+ * Slipstream bonus available to a car at its current position (Section C.3)
+ * A car on the same space as, or directly behind, another car may slipstream.
+ * The bonus is the sheltering car's spot value, the standard +2 on every
+ * generated spot, and slipstream boost tokens on the sector add to it.
+ * Returns 0 when the car cannot slipstream.
+ */
+export function getSlipstreamBonus(
+  trackData: TrackData,
+  cars: CarPosition[],
+  position: CarPosition,
+): number {
+  const shelteredKeys = new Set([
+    getSpaceKey(position),
+    getSpaceKey(getNextRouteStep(trackData, position)),
+  ]);
+
+  const shelterBonus = cars.reduce((bonus, car) => {
+    if (car.carId === position.carId) return bonus;
+    if (!shelteredKeys.has(getSpaceKey(car))) return bonus;
+
+    const spot = getSpaceAt(trackData, car)?.spots.find(
+      (s) => s.spotIndex === car.spotIndex,
+    );
+    if (!spot?.isBlocking) return bonus;
+
+    return Math.max(bonus, spot.slipstreamValue);
+  }, 0);
+  if (shelterBonus === 0) return 0;
+
+  return (
+    shelterBonus +
+    countRoadConditions(
+      trackData,
+      getSectorCorner(trackData, position)?.id,
+      "slipstream-boost",
+    )
+  );
+}
+
+/**
+ * Join the main move and the slipstream move into a single trace
+ */
+function combineMoves(
+  trackData: TrackData,
+  move: MoveResult,
+  slipstreamMove: MoveResult,
+): MoveResult {
+  const spacesMoved = move.spacesMoved + slipstreamMove.spacesMoved;
+  const linesCrossed = [...move.linesCrossed, ...slipstreamMove.linesCrossed];
+
+  return {
+    carId: move.carId,
+    from: move.from,
+    to: slipstreamMove.to,
+    requestedSpaces: move.requestedSpaces,
+    spacesMoved,
+    steps: [
+      ...move.steps,
+      ...slipstreamMove.steps.map((step) =>
+        step.type === "advance"
+          ? { ...step, type: "slipstream" as const }
+          : step,
+      ),
+    ],
+    linesCrossed,
+    progress: move.progress + slipstreamMove.progress,
+    crossedStartFinish: linesCrossed.includes(
+      trackData.metadata.startFinishSpaceIndex,
+    ),
+  };
+}
+
+/**
+ * Resolve a full turn for one car: move by Speed + Boost, slipstream, then
+ * check corners. Slipstream spaces never count toward Speed. Free cooling
+ * tokens on the sector the car ends in add to its cooldown.
+ */
+export function resolveTurn(
+  trackData: TrackData,
+  cars: CarPosition[],
+  input: TurnInput,
+): TurnResult {
+  const speed = input.speed + input.boost;
+  let move = moveCar(trackData, cars, input.carId, speed, input.branchId);
+
+  const carsAfterMove = applyCarPosition(cars, move.to);
+  const slipstreamBonus = getSlipstreamBonus(trackData, carsAfterMove, move.to);
+  const slipstreamAvailable = slipstreamBonus > 0;
+  let slipstreamSpaces = 0;
+
+  if (slipstreamAvailable && input.slipstream !== false) {
+    const slipstreamMove = moveCar(
+      trackData,
+      carsAfterMove,
+      input.carId,
+      slipstreamBonus,
+      input.branchId,
+    );
+    slipstreamSpaces = slipstreamMove.spacesMoved;
+    move = combineMoves(trackData, move, slipstreamMove);
+  }
+
+  const checks = resolveCornerChecks(
+    trackData,
+    cars,
+    move,
+    speed,
+    input.heat,
+    input.gear,
+  );
+
+  return {
+    move,
+    slipstreamAvailable,
+    slipstreamSpaces,
+    ...checks,
+    cooldownBonus: countRoadConditions(
+      trackData,
+      getSectorCorner(trackData, checks.finalPosition)?.id,
+      "free-cooling",
+    ),
+  };
+}
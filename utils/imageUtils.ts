@@ -0,0 +1,77 @@
+import { BackgroundImageTransform, BoardScale, Point } from "@/types/spline";
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Transform that fits an image inside a canvas, centered and uniformly
+ * scaled (the same as preserveAspectRatio "xMidYMid meet")
+ */
+export function fitImageTransform(
+  imageSize: ImageSize,
+  canvasSize: ImageSize,
+): BackgroundImageTransform {
+  return {
+    x: canvasSize.width / 2,
+    y: canvasSize.height / 2,
+    scale: Math.min(
+      canvasSize.width / imageSize.width,
+      canvasSize.height / imageSize.height,
+    ),
+    rotation: 0,
+    opacity: 1,
+  };
+}
+
+/**
+ * SVG transform attribute placing an image drawn centered on the origin
+ */
+export function imageTransformToSvg(transform: BackgroundImageTransform) {
+  return `translate(${transform.x} ${transform.y}) rotate(${transform.rotation}) scale(${transform.scale})`;
+}
+
+/**
+ * Axis-aligned bounds of the transformed image in track space
+ */
+export function getImageBounds(
+  transform: BackgroundImageTransform,
+  imageSize: ImageSize,
+) {
+  const angle = (transform.rotation * Math.PI) / 180;
+  const halfWidth = (imageSize.width * transform.scale) / 2;
+  const halfHeight = (imageSize.height * transform.scale) / 2;
+  const extentX =
+    Math.abs(halfWidth * Math.cos(angle)) +
+    Math.abs(halfHeight * Math.sin(angle));
+  const extentY =
+    Math.abs(halfWidth * Math.sin(angle)) +
+    Math.abs(halfHeight * Math.cos(angle));
+
+  return {
+    minX: transform.x - extentX,
+    minY: transform.y - extentY,
+    maxX: transform.x + extentX,
+    maxY: transform.y + extentY,
+  };
+}
+
+/**
+ * Board scale from two points on the scan and their real distance apart
+ */
+export function calibrateBoardScale(
+  points: [Point, Point],
+  realDistance: number,
+  unit: BoardScale["unit"],
+): BoardScale | null {
+  const [a, b] = points;
+  const pixelDistance = Math.hypot(b.x - a.x, b.y - a.y);
+  if (pixelDistance === 0 || !(realDistance > 0)) return null;
+
+  return {
+    pixelsPerUnit: pixelDistance / realDistance,
+    unit,
+    calibrationPoints: points,
+  };
+}
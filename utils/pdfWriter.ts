@@ -0,0 +1,143 @@
+/**
+ * Minimal PDF writer - just enough for printable board tiles.
+ * Pages hold a content stream of PDF drawing operators, JPEG images and
+ * the standard Helvetica font. Coordinates are in points (1/72 inch) with
+ * the origin at the bottom-left of the page.
+ */
+
+export const POINTS_PER_MM = 72 / 25.4;
+
+export interface PdfImage {
+  name: string; // Referenced from the content stream as /<name> Do
+  jpeg: Uint8Array;
+  width: number; // Pixels
+  height: number;
+}
+
+export interface PdfPage {
+  width: number; // Points
+  height: number;
+  content: string; // PDF drawing operators
+  images: PdfImage[];
+}
+
+const FONT_NAME = "F1"; // Helvetica, for use in content streams as /F1
+
+/**
+ * Escape text for a PDF string literal (ASCII only)
+ */
+export function pdfText(text: string): string {
+  return `(${text.replace(/[\\()]/g, (char) => `\\${char}`).replace(/[^\x20-\x7e]/g, "?")})`;
+}
+
+/**
+ * Content stream operators that draw text at a position
+ */
+export function pdfTextAt(
+  text: string,
+  x: number,
+  y: number,
+  fontSize: number,
+): string {
+  return `BT /${FONT_NAME} ${fontSize} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfText(text)} Tj ET\n`;
+}
+
+/**
+ * Build a PDF file from pages
+ */
+export function createPdf(pages: PdfPage[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === "string" ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // Object numbers: 1 catalog, 2 page tree, 3 font, then per page:
+  // the page, its content stream and one object per image
+  let nextObject = 4;
+  const pageObjects = pages.map((page) => {
+    const pageObject = nextObject++;
+    const contentObject = nextObject++;
+    const imageObjects = page.images.map(() => nextObject++);
+    return { pageObject, contentObject, imageObjects };
+  });
+
+  const beginObject = (objectNumber: number) => {
+    offsets[objectNumber] = length;
+    write(`${objectNumber} 0 obj\n`);
+  };
+
+  write("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+
+  beginObject(1);
+  write("<< /Type /Catalog /Pages 2 0 R >>\nendobj\n");
+
+  beginObject(2);
+  write(
+    `<< /Type /Pages /Kids [${pageObjects.map(({ pageObject }) => `${pageObject} 0 R`).join(" ")}] /Count ${pages.length} >>\nendobj\n`,
+  );
+
+  beginObject(3);
+  write(
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>\nendobj\n",
+  );
+
+  pages.forEach((page, index) => {
+    const objects = pageObjects[index];
+    if (!objects) return;
+    const { pageObject, contentObject, imageObjects } = objects;
+
+    const xObjects = page.images
+      .map((image, i) => `/${image.name} ${imageObjects[i]} 0 R`)
+      .join(" ");
+
+    beginObject(pageObject);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width.toFixed(2)} ${page.height.toFixed(2)}] ` +
+        `/Resources << /Font << /${FONT_NAME} 3 0 R >> /XObject << ${xObjects} >> >> ` +
+        `/Contents ${contentObject} 0 R >>\nendobj\n`,
+    );
+
+    const content = encoder.encode(page.content);
+    beginObject(contentObject);
+    write(`<< /Length ${content.length} >>\nstream\n`);
+    write(content);
+    write("\nendstream\nendobj\n");
+
+    page.images.forEach((image, i) => {
+      const imageObject = imageObjects[i];
+      if (imageObject === undefined) return;
+
+      beginObject(imageObject);
+      write(
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+          `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>\nstream\n`,
+      );
+      write(image.jpeg);
+      write("\nendstream\nendobj\n");
+    });
+  });
+
+  // Cross-reference table - every entry is exactly 20 bytes
+  const xrefOffset = length;
+  write(`xref\n0 ${nextObject}\n0000000000 65535 f \n`);
+  for (let objectNumber = 1; objectNumber < nextObject; objectNumber++) {
+    write(`${String(offsets[objectNumber] ?? 0).padStart(10, "0")} 00000 n \n`);
+  }
+  write(
+    `trailer\n<< /Size ${nextObject} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`,
+  );
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  }
+  return pdf;
+}
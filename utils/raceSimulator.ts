@@ -0,0 +1,647 @@
+import {
+  CarPosition,
+  Corner,
+  CornerSimulationStats,
+  RaceSimulationOptions,
+  RaceSimulationReport,
+  TrackData,
+} from "@/types/spline";
+
+import {
+  calculateCornersHeatCost,
+  findPositionBeforeLine,
+  getBranchMainDistance,
+  getCornersOnLines,
+  getRaceStep,
+  resolveTurn,
+  traceRoute,
+  wrapSpaceIndex,
+} from "./gameRules";
+
+/**
+ * Monte Carlo race simulator for track balance analysis (Section C.4)
+ * Runs many AI races on a track with a simplified Heat deck model and
+ * measures how each corner affects the race
+ */
+
+const DEFAULT_RACES = 1000;
+const DEFAULT_CARS_PER_RACE = 4;
+const DEFAULT_MAX_TURNS = 200;
+const DEFAULT_HEAT_CARDS = 6;
+const DEFAULT_STRESS_CARDS = 3;
+const HAND_SIZE = 7;
+const SPEED_CARD_COPIES = 3; // Copies of each 1-4 Speed card in a starting deck
+const STRESS_AVERAGE_SPEED = 2.5; // Expected value of a Stress card flip
+// Longest the simulator runs before handing the main thread back (ms)
+const BATCH_TIME_BUDGET = 16;
+
+// Heat cards moved from the hand back to the engine after playing a gear
+const COOLDOWN_BY_GEAR: Record<number, number> = { 1: 3, 2: 1 };
+
+// Corner flag thresholds
+const PUNISHING_SPIN_OUT_RATE = 0.2;
+const PUNISHING_AVERAGE_HEAT = 2;
+const IRRELEVANT_COST_RATE = 0.05;
+
+type SimulatedCard =
+  | { kind: "speed"; value: number }
+  | { kind: "heat" }
+  | { kind: "stress" };
+
+interface SimulatedCar {
+  carId: string;
+  gear: number;
+  engineHeat: number;
+  hand: SimulatedCard[];
+  drawPile: SimulatedCard[];
+  discardPile: SimulatedCard[];
+  progress: number; // Spaces travelled in race order since the start
+  finishedTurn: number | null;
+  lastCornerId: string | null;
+}
+
+interface CornerTally {
+  checks: number;
+  spinOuts: number;
+  heatSpent: number;
+  decidingRaces: number;
+}
+
+function createCornerTally(): CornerTally {
+  return { checks: 0, spinOuts: 0, heatSpent: 0, decidingRaces: 0 };
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so a seed always yields the same report
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const current = shuffled[i];
+    const swap = shuffled[j];
+    if (current === undefined || swap === undefined) continue;
+
+    shuffled[i] = swap;
+    shuffled[j] = current;
+  }
+  return shuffled;
+}
+
+/**
+ * Draw up to a full hand, reshuffling the discard pile when the deck runs out
+ */
+function drawToHandSize(car: SimulatedCar, random: () => number): void {
+  while (car.hand.length < HAND_SIZE) {
+    if (car.drawPile.length === 0) {
+      if (car.discardPile.length === 0) return;
+      car.drawPile = shuffle(car.discardPile, random);
+      car.discardPile = [];
+    }
+
+    const card = car.drawPile.pop();
+    if (card) car.hand.push(card);
+  }
+}
+
+function createCar(
+  carId: string,
+  heatCardCount: number,
+  stressCardCount: number,
+  random: () => number,
+): SimulatedCar {
+  const deck: SimulatedCard[] = [];
+  for (let value = 1; value <= 4; value++) {
+    for (let i = 0; i < SPEED_CARD_COPIES; i++) {
+      deck.push({ kind: "speed", value });
+    }
+  }
+  for (let i = 0; i < stressCardCount; i++) {
+    deck.push({ kind: "stress" });
+  }
+
+  const car: SimulatedCar = {
+    carId,
+    gear: 1,
+    engineHeat: heatCardCount,
+    hand: [],
+    drawPile: shuffle(deck, random),
+    discardPile: [],
+    progress: 0,
+    finishedTurn: null,
+    lastCornerId: null,
+  };
+  drawToHandSize(car, random);
+
+  return car;
+}
+
+// Combinations are reused across every turn of every race
+const combinationCache = new Map<string, number[][]>();
+
+/**
+ * All ways to pick `size` positions out of `count`
+ */
+function combinations(count: number, size: number): number[][] {
+  const key = `${count}-${size}`;
+  const cached = combinationCache.get(key);
+  if (cached) return cached;
+
+  const result: number[][] = [];
+  const pick = (start: number, combo: number[]) => {
+    if (combo.length === size) {
+      result.push(combo);
+      return;
+    }
+    for (let i = start; i < count; i++) {
+      pick(i + 1, [...combo, i]);
+    }
+  };
+  pick(0, []);
+
+  combinationCache.set(key, result);
+  return result;
+}
+
+function getExpectedSpeed(card: SimulatedCard): number {
+  if (card.kind === "speed") return card.value;
+  if (card.kind === "stress") return STRESS_AVERAGE_SPEED;
+  return 0;
+}
+
+/**
+ * AI decision: pick a gear (one up or down) and the cards to play
+ * Prefers the fastest play that the engine can pay for at the next corners,
+ * with a small bonus for cooling Heat out of the hand in low gears.
+ */
+function chooseCards(
+  trackData: TrackData,
+  car: SimulatedCar,
+  position: CarPosition,
+  branchId: string | undefined,
+): { gear: number; cardIndices: number[] } {
+  const playable = car.hand
+    .map((card, index) => (card.kind === "heat" ? -1 : index))
+    .filter((index) => index >= 0);
+  const playableSpeeds = playable.map((index) => {
+    const card = car.hand[index];
+    return card ? getExpectedSpeed(card) : 0;
+  });
+  const heatInHand = car.hand.length - playable.length;
+
+  // Many card combinations share a distance, so look up the corners once each
+  const cornersByDistance = new Map<number, Corner[]>();
+  const getCornersAhead = (distance: number): Corner[] => {
+    const cached = cornersByDistance.get(distance);
+    if (cached) return cached;
+
+    const corners = getCornersOnLines(
+      trackData,
+      traceRoute(trackData, position, distance, branchId).flatMap(
+        (routeStep) => routeStep.linesCrossed,
+      ),
+    );
+    cornersByDistance.set(distance, corners);
+    return corners;
+  };
+
+  let best: { gear: number; cardIndices: number[]; score: number } | null =
+    null;
+
+  for (
+    let gear = Math.max(1, car.gear - 1);
+    gear <= Math.min(4, car.gear + 1);
+    gear++
+  ) {
+    for (const combo of combinations(playable.length, gear)) {
+      const speed = combo.reduce(
+        (sum, slot) => sum + (playableSpeeds[slot] ?? 0),
+        0,
+      );
+      const heatCost = calculateCornersHeatCost(
+        trackData,
+        getCornersAhead(Math.round(speed)),
+        speed,
+      );
+      const cooled = Math.min(heatInHand, COOLDOWN_BY_GEAR[gear] ?? 0);
+      const score =
+        speed -
+        heatCost * 2 -
+        (heatCost > car.engineHeat ? 15 : 0) +
+        cooled * 0.5;
+
+      if (!best || score > best.score) {
+        const cardIndices = combo.map((slot) => playable[slot] ?? 0);
+        best = { gear, cardIndices, score };
+      }
+    }
+  }
+
+  if (best) return best;
+
+  // Nothing playable: drop to 1st gear and burn a card from the hand
+  return { gear: 1, cardIndices: car.hand.length > 0 ? [0] : [] };
+}
+
+/**
+ * AI route choice: the next alternative route that is no longer than the
+ * section it bypasses. Pit lanes are never taken as the model has no pit
+ * stops.
+ */
+function chooseBranch(
+  trackData: TrackData,
+  position: CarPosition,
+): string | undefined {
+  if (position.branchId !== undefined) return position.branchId;
+
+  const step = getRaceStep(trackData);
+  const spacesCount = trackData.spaces.length;
+
+  return (trackData.branches ?? [])
+    .filter(
+      (branch) =>
+        branch.kind === "alternative" &&
+        branch.spaces.length > 0 &&
+        branch.spaces.length + 1 <= getBranchMainDistance(trackData, branch),
+    )
+    .map((branch) => ({
+      id: branch.id,
+      distance: wrapSpaceIndex(
+        (branch.splitSpaceIndex - position.spaceIndex) * step,
+        spacesCount,
+      ),
+    }))
+    .sort((a, b) => a.distance - b.distance)[0]?.id;
+}
+
+/**
+ * Position around the main loop in space indices, placing branch spaces
+ * proportionally along the section they bypass
+ */
+function getLoopPosition(trackData: TrackData, position: CarPosition): number {
+  const branch = trackData.branches?.find((b) => b.id === position.branchId);
+  if (!branch) return position.spaceIndex;
+
+  const share =
+    ((position.spaceIndex + 1) * getBranchMainDistance(trackData, branch)) /
+    (branch.spaces.length + 1);
+  return branch.splitSpaceIndex + getRaceStep(trackData) * share;
+}
+
+/**
+ * Line up the cars on the grid behind the start/finish line
+ */
+function createGrid(trackData: TrackData, carIds: string[]): CarPosition[] {
+  return carIds.reduce<CarPosition[]>((grid, carId) => {
+    grid.push(
+      findPositionBeforeLine(
+        trackData,
+        grid,
+        carId,
+        trackData.metadata.startFinishSpaceIndex,
+      ),
+    );
+    return grid;
+  }, []);
+}
+
+/**
+ * Spaces from a grid position to the start/finish line
+ */
+function getDistanceToStartLine(
+  trackData: TrackData,
+  position: CarPosition,
+): number {
+  const spacesCount = trackData.spaces.length;
+  const step = getRaceStep(trackData);
+  const lineIndex = trackData.metadata.startFinishSpaceIndex;
+  const spaceBeforeLine =
+    step > 0 ? lineIndex : wrapSpaceIndex(lineIndex + 1, spacesCount);
+
+  return (
+    wrapSpaceIndex(
+      (spaceBeforeLine - position.spaceIndex) * step,
+      spacesCount,
+    ) + 1
+  );
+}
+
+/**
+ * Run a single race and add its results to the corner tallies
+ * Returns each car's finishing turn (null when it never finished)
+ */
+function simulateRace(
+  trackData: TrackData,
+  carsPerRace: number,
+  laps: number,
+  maxTurns: number,
+  random: () => number,
+  tallies: Map<string, CornerTally>,
+): (number | null)[] {
+  const { heatCardCount, stressCardCount } = trackData.metadata.boardMetadata;
+  const spacesCount = trackData.spaces.length;
+  const step = getRaceStep(trackData);
+
+  const carIds = Array.from({ length: carsPerRace }, (_, i) => `car-${i}`);
+  const cars = carIds.map((carId) =>
+    createCar(
+      carId,
+      heatCardCount || DEFAULT_HEAT_CARDS,
+      stressCardCount || DEFAULT_STRESS_CARDS,
+      random,
+    ),
+  );
+  let positions = createGrid(trackData, carIds);
+
+  // Finish after crossing the line to start lap 1, then completing every lap
+  const raceDistance = new Map(
+    positions.map((position) => [
+      position.carId,
+      getDistanceToStartLine(trackData, position) + laps * spacesCount,
+    ]),
+  );
+
+  let leaderId: string | null = null;
+  let leadTakenAt: string | null = null;
+
+  for (let turn = 1; turn <= maxTurns; turn++) {
+    // The leader moves first
+    const order = cars
+      .filter((car) => car.finishedTurn === null)
+      .sort((a, b) => b.progress - a.progress);
+    if (order.length === 0) break;
+
+    for (const car of order) {
+      const position = positions.find((p) => p.carId === car.carId);
+      if (!position) continue;
+
+      const branchId = chooseBranch(trackData, position);
+      const { gear, cardIndices } = chooseCards(
+        trackData,
+        car,
+        position,
+        branchId,
+      );
+      const playedCards = car.hand.filter((_, index) =>
+        cardIndices.includes(index),
+      );
+      car.hand = car.hand.filter((_, index) => !cardIndices.includes(index));
+
+      const speed = playedCards.reduce(
+        (sum, card) =>
+          sum +
+          (card.kind === "speed"
+            ? card.value
+            : card.kind === "stress"
+              ? 1 + Math.floor(random() * 4)
+              : 0),
+        0,
+      );
+
+      const result = resolveTurn(trackData, positions, {
+        carId: car.carId,
+        speed,
+        boost: 0,
+        heat: car.engineHeat,
+        gear,
+        branchId,
+      });
+
+      result.cornerChecks.forEach((check) => {
+        const tally = tallies.get(check.cornerId);
+        if (tally) {
+          tally.checks++;
+          tally.heatSpent += check.heatPaid;
+          if (check.spunOut) tally.spinOuts++;
+        }
+        car.lastCornerId = check.cornerId;
+      });
+
+      // Paid Heat leaves the engine and cycles through the deck
+      car.engineHeat = result.heatRemaining;
+      car.discardPile.push(...playedCards);
+      for (let i = 0; i < result.heatPaid; i++) {
+        car.discardPile.push({ kind: "heat" });
+      }
+      for (let i = 0; i < result.stressGained; i++) {
+        car.hand.push({ kind: "stress" });
+      }
+
+      // Cool down by returning Heat from the hand to the engine
+      let cooldown = (COOLDOWN_BY_GEAR[gear] ?? 0) + result.cooldownBonus;
+      car.hand = car.hand.filter((card) => {
+        if (card.kind !== "heat" || cooldown === 0) return true;
+        cooldown--;
+        car.engineHeat++;
+        return false;
+      });
+
+      // A spin-out sends the car back behind the corner
+      const spunBack = wrapSpaceIndex(
+        (getLoopPosition(trackData, result.move.to) -
+          getLoopPosition(trackData, result.finalPosition)) *
+          step,
+        spacesCount,
+      );
+      car.progress += result.move.progress - spunBack;
+      car.gear = result.gear;
+
+      if (car.progress >= (raceDistance.get(car.carId) ?? Infinity)) {
+        car.finishedTurn = turn;
+        positions = positions.filter((p) => p.carId !== car.carId);
+      } else {
+        positions = positions.map((p) =>
+          p.carId === car.carId ? result.finalPosition : p,
+        );
+      }
+
+      drawToHandSize(car, random);
+    }
+
+    // Remember where the current leader took the lead
+    const leader = [...cars].sort(
+      (a, b) =>
+        (a.finishedTurn ?? Infinity) - (b.finishedTurn ?? Infinity) ||
+        b.progress - a.progress,
+    )[0];
+    if (leader && leader.carId !== leaderId) {
+      leaderId = leader.carId;
+      leadTakenAt = turn > 1 ? leader.lastCornerId : null;
+    }
+  }
+
+  // The deciding corner is the last one the winner passed before taking the lead for good
+  if (leadTakenAt) {
+    const tally = tallies.get(leadTakenAt);
+    if (tally) tally.decidingRaces++;
+  }
+
+  return cars.map((car) => car.finishedTurn);
+}
+
+/**
+ * Measured difficulty from how much of the engine is burned and how often
+ * cars spin out per lap
+ * Heat is measured per lap since cooling returns it to the engine during
+ * the race, so a whole race's Heat would fill the engine on any long race.
+ */
+function calculateMeasuredDifficulty(
+  heatPerCarPerLap: number,
+  spinOutsPerCarPerLap: number,
+  heatCardCount: number,
+): number {
+  const heatPressure = Math.min(1, heatPerCarPerLap / heatCardCount);
+  const spinOutPressure = Math.min(1, spinOutsPerCarPerLap);
+  const pressure = heatPressure * 0.6 + spinOutPressure * 0.4;
+
+  return Math.min(10, Math.max(1, Math.round(1 + pressure * 9)));
+}
+
+/**
+ * Let the browser paint and handle input before the next batch of races
+ */
+function yieldToMainThread(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Run many AI races on a track and report how balanced its corners are
+ * Races run in batches of about a frame, yielding in between so the editor
+ * stays responsive. Rejects with the signal's reason when aborted.
+ */
+export async function simulateRaces(
+  trackData: TrackData,
+  options: RaceSimulationOptions = {},
+): Promise<RaceSimulationReport> {
+  const races = options.races ?? DEFAULT_RACES;
+  const carsPerRace = options.carsPerRace ?? DEFAULT_CARS_PER_RACE;
+  const maxTurns = options.maxTurns ?? DEFAULT_MAX_TURNS;
+  const random = createRandom(options.seed ?? 1);
+  const laps = Math.max(1, trackData.metadata.laps);
+
+  if (trackData.spaces.length === 0) {
+    throw new Error("Track has no spaces to race on");
+  }
+
+  const tallies = new Map<string, CornerTally>(
+    trackData.corners.map((corner) => [corner.id, createCornerTally()]),
+  );
+
+  let finishedCars = 0;
+  let totalFinishTurns = 0;
+  let unfinishedRaces = 0;
+  let batchStart = Date.now();
+
+  for (let race = 0; race < races; race++) {
+    if (Date.now() - batchStart >= BATCH_TIME_BUDGET) {
+      options.onProgress?.(race, races);
+      await yieldToMainThread();
+      options.signal?.throwIfAborted();
+      batchStart = Date.now();
+    }
+
+    const finishTurns = simulateRace(
+      trackData,
+      carsPerRace,
+      laps,
+      maxTurns,
+      random,
+      tallies,
+    );
+
+    if (finishTurns.some((turn) => turn === null)) unfinishedRaces++;
+    finishTurns.forEach((turn) => {
+      if (turn === null) return;
+      finishedCars++;
+      totalFinishTurns += turn;
+    });
+  }
+
+  options.onProgress?.(races, races);
+
+  const averageRaceTurns =
+    finishedCars > 0 ? totalFinishTurns / finishedCars : 0;
+  const totalCars = races * carsPerRace;
+  const warnings: string[] = [];
+
+  const corners: CornerSimulationStats[] = [...trackData.corners]
+    .sort((a, b) => a.spaceIndex - b.spaceIndex)
+    .map((corner) => {
+      const tally = tallies.get(corner.id) ?? createCornerTally();
+      const spinOutRate = tally.checks > 0 ? tally.spinOuts / tally.checks : 0;
+      const averageHeat = tally.checks > 0 ? tally.heatSpent / tally.checks : 0;
+      const costRate =
+        tally.checks > 0
+          ? (tally.heatSpent + tally.spinOuts) / tally.checks
+          : 0;
+
+      let flag: CornerSimulationStats["flag"];
+      if (
+        spinOutRate > PUNISHING_SPIN_OUT_RATE ||
+        averageHeat > PUNISHING_AVERAGE_HEAT
+      ) {
+        flag = "punishing";
+        warnings.push(
+          `Corner at space ${corner.spaceIndex} (limit ${corner.speedLimit}) is too punishing - ${Math.round(spinOutRate * 100)}% spin-outs, ${averageHeat.toFixed(1)} Heat per pass`,
+        );
+      } else if (costRate < IRRELEVANT_COST_RATE) {
+        flag = "irrelevant";
+        warnings.push(
+          `Corner at space ${corner.spaceIndex} (limit ${corner.speedLimit}) hardly ever costs Heat - consider lowering its limit`,
+        );
+      }
+
+      return {
+        cornerId: corner.id,
+        spaceIndex: corner.spaceIndex,
+        speedLimit: corner.speedLimit,
+        checks: tally.checks,
+        spinOuts: tally.spinOuts,
+        spinOutRate,
+        heatSpent: tally.heatSpent,
+        averageHeat,
+        decidingRaces: tally.decidingRaces,
+        decidingRate: races > 0 ? tally.decidingRaces / races : 0,
+        flag,
+      };
+    });
+
+  if (unfinishedRaces > 0) {
+    warnings.push(
+      `${unfinishedRaces} of ${races} races did not finish within ${maxTurns} turns`,
+    );
+  }
+
+  const totalHeat = corners.reduce((sum, corner) => sum + corner.heatSpent, 0);
+  const totalSpinOuts = corners.reduce(
+    (sum, corner) => sum + corner.spinOuts,
+    0,
+  );
+
+  return {
+    races,
+    carsPerRace,
+    laps,
+    averageLapTurns: averageRaceTurns / laps,
+    averageRaceTurns,
+    unfinishedRaces,
+    corners,
+    difficulty: calculateMeasuredDifficulty(
+      totalCars > 0 ? totalHeat / totalCars / laps : 0,
+      totalCars > 0 ? totalSpinOuts / totalCars / laps : 0,
+      trackData.metadata.boardMetadata.heatCardCount || DEFAULT_HEAT_CARDS,
+    ),
+    warnings,
+  };
+}
@@ -1,10 +1,15 @@
 import {
   TrackData,
   TrackExportData,
+  TrackValidationIssue,
   TrackValidationResult,
 } from "@/types/spline";
 
-import { validateTrackData } from "./trackUtils";
+import {
+  collectTrackErrors,
+  findTrackIntersections,
+  validateTrackData,
+} from "./trackUtils";
 
 /**
  * Comprehensive JSON serialization system for Section A compliance
@@ -116,8 +121,18 @@ function exportLegacyFormat(trackData: TrackData): string {
     },
     spaces: trackData.spaces,
     corners: trackData.corners,
+    legendLines: trackData.legendLines,
+    roadConditions: trackData.roadConditions,
+    cornerGroups: trackData.cornerGroups,
+    overpasses: trackData.overpasses,
+    crossovers: trackData.crossovers,
+    branches: trackData.branches,
+    widthPoints: trackData.widthPoints,
+    laneOverrides: trackData.laneOverrides,
     metadata: trackData.metadata,
     discretizationSettings: trackData.discretizationSettings,
+    backgroundImageTransform: trackData.backgroundImageTransform,
+    boardScale: trackData.boardScale,
   };
 
   return JSON.stringify(legacyData, null, 2);
@@ -154,6 +169,66 @@ export function importTrackData(
   }
 }
 
+/**
+ * Detect which export format a raw track file was written in
+ */
+export function detectTrackFormat(
+  data: string,
+): "json" | "heat-track" | "legacy" {
+  let parsedData: unknown;
+  try {
+    parsedData = JSON.parse(data);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse track data: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+
+  if (!isRecord(parsedData)) {
+    throw new Error("Unrecognized track file - no track data found");
+  }
+
+  if (parsedData.version && parsedData.trackData) {
+    // Both formats share the same structure, only the stated format differs
+    const { exportMetadata } = parsedData;
+    return isRecord(exportMetadata) && exportMetadata.format === "json"
+      ? "json"
+      : "heat-track";
+  }
+
+  if (parsedData.splinePath) {
+    return "legacy";
+  }
+
+  throw new Error("Unrecognized track file - no track data found");
+}
+
+/**
+ * Whether a parsed JSON value is an object whose fields can be read
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * File name stem for anything exported from a track, from its name
+ */
+export function getTrackFileSlug(trackData: TrackData): string {
+  const slug = trackData.metadata.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+  return slug || "track";
+}
+
+/**
+ * Build a download file name for an exported track
+ */
+export function getTrackExportFileName(trackData: TrackData): string {
+  return `${getTrackFileSlug(trackData)}.heat-track.json`;
+}
+
 /**
  * Import legacy format and convert to new format
  */
@@ -182,10 +257,20 @@ function importLegacyFormat(legacyData: any): TrackData {
     splinePath,
     spaces: legacyData.spaces || [],
     corners,
+    legendLines: legacyData.legendLines,
+    roadConditions: legacyData.roadConditions,
+    cornerGroups: legacyData.cornerGroups,
+    overpasses: legacyData.overpasses,
+    crossovers: legacyData.crossovers,
+    branches: legacyData.branches,
+    widthPoints: legacyData.widthPoints,
+    laneOverrides: legacyData.laneOverrides,
     metadata: legacyData.metadata || createDefaultMetadata(),
     discretizationSettings:
       legacyData.discretizationSettings ||
       createDefaultDiscretizationSettings(),
+    backgroundImageTransform: legacyData.backgroundImageTransform,
+    boardScale: legacyData.boardScale,
     validationErrors: [],
     isValid: false,
     lastValidated: new Date().toISOString(),
@@ -250,46 +335,87 @@ function createDefaultDiscretizationSettings() {
 export function validateTrackDataComprehensive(
   trackData: TrackData,
 ): TrackValidationResult {
-  const errors = validateTrackData(trackData);
-  const warnings: string[] = [];
-  const suggestions: string[] = [];
+  const intersections = findTrackIntersections(trackData);
+  const errorIssues = collectTrackErrors(trackData, intersections);
+  const issues: TrackValidationIssue[] = [...errorIssues];
+  const addIssue = (
+    severity: "warning" | "suggestion",
+    message: string,
+    target?: TrackValidationIssue["target"],
+  ) => issues.push({ severity, message, target });
 
   // Generate warnings
   if (trackData.corners.length === 0) {
-    warnings.push(
+    addIssue(
+      "warning",
       "No corners defined - consider adding corners for gameplay variety",
     );
   }
 
   if (trackData.spaces.length < 20) {
-    warnings.push(
+    addIssue(
+      "warning",
       "Track has fewer than 20 spaces - consider increasing discretization",
     );
   }
 
   if (trackData.spaces.length > 100) {
-    warnings.push(
+    addIssue(
+      "warning",
       "Track has more than 100 spaces - consider reducing discretization",
     );
   }
 
+  // Corners on neighbouring spaces leave no room to brake between them
+  const sortedCorners = [...trackData.corners].sort(
+    (a, b) => a.spaceIndex - b.spaceIndex,
+  );
+  const spacesCount = trackData.spaces.length;
+  sortedCorners.forEach((corner, index) => {
+    const nextCorner = sortedCorners[(index + 1) % sortedCorners.length];
+    if (!nextCorner || nextCorner === corner || spacesCount === 0) return;
+
+    const gap =
+      (nextCorner.spaceIndex - corner.spaceIndex + spacesCount) % spacesCount;
+    if (gap <= 1) {
+      addIssue(
+        "warning",
+        `Corners at spaces ${corner.spaceIndex} and ${nextCorner.spaceIndex} are back to back`,
+        { type: "corner", cornerId: nextCorner.id },
+      );
+    }
+  });
+
   // Generate suggestions
   if (trackData.metadata.boardMetadata.difficulty < 3) {
-    suggestions.push(
+    addIssue(
+      "suggestion",
       "Track difficulty is low - consider adding more challenging corners",
     );
   }
 
   if (trackData.metadata.boardMetadata.difficulty > 8) {
-    suggestions.push(
+    addIssue(
+      "suggestion",
       "Track difficulty is high - consider adding more straight sections",
     );
   }
 
+  const errors = errorIssues.map((issue) => issue.message);
+  const warnings = issues
+    .filter((issue) => issue.severity === "warning")
+    .map((issue) => issue.message);
+  const suggestions = issues
+    .filter((issue) => issue.severity === "suggestion")
+    .map((issue) => issue.message);
+
   // Geometry validation
   const geometryValidation = {
     isClosed: trackData.splinePath.closed,
-    hasSelfIntersections: false, // Would be calculated by intersection detection
+    hasSelfIntersections: intersections.some(
+      (intersection) => !intersection.crossoverId,
+    ),
+    intersections,
     minRadius: calculateMinRadius(trackData),
     maxRadius: calculateMaxRadius(trackData),
   };
@@ -309,6 +435,7 @@ export function validateTrackDataComprehensive(
     errors,
     warnings,
     suggestions,
+    issues,
     geometryValidation,
     gameplayValidation,
   };
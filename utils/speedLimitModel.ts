@@ -0,0 +1,213 @@
+import {
+  CornerTurn,
+  SpeedLimitModel,
+  SpeedLimitSample,
+  SpeedLimitSuggestion,
+} from "@/types/spline";
+
+/**
+ * Corner speed limit suggestions from the turn geometry
+ * Works from the heading change and the radius in space lengths, so the
+ * same corner gets the same limit however large the board is drawn. The
+ * built-in model can be replaced by one fitted to reference tracks whose
+ * printed speed limits are known.
+ */
+
+const MIN_SPEED_LIMIT = 1;
+const MAX_SPEED_LIMIT = 6;
+const MIN_RADIUS = 0.25; // Spaces, keeps ln(radius) finite for hairpins
+const RIGHT_ANGLE = 90;
+
+// How far the fit may pull away from the built-in model, per sample
+const PRIOR_WEIGHT = 1;
+// Samples needed before a calibrated fit is trusted as much as its residual says
+const TRUSTED_SAMPLE_COUNT = 3;
+// Falloff outside the calibrated turns: 45 degrees and a doubled radius
+const ANGLE_FALLOFF = 45;
+const RADIUS_FALLOFF = Math.LN2;
+
+// Hand-fitted to the base game boards: a 180 degree hairpin one space
+// across is a 2, a 90 degree corner two spaces across a 4, a 45 degree
+// kink four spaces across a 6
+export const DEFAULT_SPEED_LIMIT_MODEL: SpeedLimitModel = {
+  intercept: 4.5,
+  angleWeight: -1.5,
+  radiusWeight: 1.5,
+  residual: 1,
+  sampleCount: 0,
+  angleRange: [30, 180],
+  radiusRange: [0.5, 8],
+};
+
+/**
+ * Model inputs for a turn: one, turns of 90 degrees and ln(radius)
+ */
+function getFeatures(turn: CornerTurn): [number, number, number] {
+  return [
+    1,
+    turn.turnAngle / RIGHT_ANGLE,
+    Math.log(Math.max(MIN_RADIUS, turn.radius)),
+  ];
+}
+
+/**
+ * Solve a small linear system by Gaussian elimination with partial pivoting
+ */
+function solveLinearSystem(matrix: number[][], vector: number[]): number[] {
+  const size = vector.length;
+  const rows = matrix.map((row, i) => [...row, vector[i] ?? 0]);
+
+  for (let column = 0; column < size; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < size; row++) {
+      if (
+        Math.abs(rows[row]?.[column] ?? 0) >
+        Math.abs(rows[pivot]?.[column] ?? 0)
+      ) {
+        pivot = row;
+      }
+    }
+    const pivotRow = rows[pivot];
+    const currentRow = rows[column];
+    if (!pivotRow || !currentRow) continue;
+    rows[pivot] = currentRow;
+    rows[column] = pivotRow;
+
+    const divisor = pivotRow[column] ?? 0;
+    if (divisor === 0) continue;
+
+    for (let row = 0; row < size; row++) {
+      const target = rows[row];
+      if (row === column || !target) continue;
+      const factor = (target[column] ?? 0) / divisor;
+      for (let k = column; k <= size; k++) {
+        target[k] = (target[k] ?? 0) - factor * (pivotRow[k] ?? 0);
+      }
+    }
+  }
+
+  return rows.map((row, i) => {
+    const divisor = row[i] ?? 0;
+    return divisor === 0 ? 0 : (row[size] ?? 0) / divisor;
+  });
+}
+
+/**
+ * Fit a speed limit model to corners with known speed limits
+ * Least squares, pulled towards the built-in model so a handful of samples
+ * still gives sensible limits for turns unlike any of them
+ */
+export function fitSpeedLimitModel(
+  samples: SpeedLimitSample[],
+  prior: SpeedLimitModel = DEFAULT_SPEED_LIMIT_MODEL,
+): SpeedLimitModel {
+  if (samples.length === 0) return prior;
+
+  const priorCoefficients = [
+    prior.intercept,
+    prior.angleWeight,
+    prior.radiusWeight,
+  ];
+  const normal: number[][] = priorCoefficients.map((_, i) =>
+    priorCoefficients.map((_, j) => (i === j ? PRIOR_WEIGHT : 0)),
+  );
+  const target = priorCoefficients.map((value) => value * PRIOR_WEIGHT);
+
+  for (const sample of samples) {
+    const features = getFeatures(sample);
+    features.forEach((featureI, i) => {
+      const row = normal[i];
+      if (!row) return;
+      features.forEach((featureJ, j) => {
+        row[j] = (row[j] ?? 0) + featureI * featureJ;
+      });
+      target[i] = (target[i] ?? 0) + featureI * sample.speedLimit;
+    });
+  }
+
+  const [intercept = prior.intercept, angleWeight = 0, radiusWeight = 0] =
+    solveLinearSystem(normal, target);
+  const squaredError = samples.reduce((sum, sample) => {
+    const [, angle, radius] = getFeatures(sample);
+    const error =
+      intercept +
+      angleWeight * angle +
+      radiusWeight * radius -
+      sample.speedLimit;
+    return sum + error * error;
+  }, 0);
+
+  const angles = samples.map((sample) => sample.turnAngle);
+  const radii = samples.map((sample) => sample.radius);
+
+  return {
+    intercept,
+    angleWeight,
+    radiusWeight,
+    residual: Math.sqrt(squaredError / samples.length),
+    sampleCount: samples.length,
+    angleRange: [Math.min(...angles), Math.max(...angles)],
+    radiusRange: [Math.min(...radii), Math.max(...radii)],
+  };
+}
+
+/**
+ * How far a value lies outside a range, in falloff units
+ */
+function getRangeDistance(
+  value: number,
+  [min, max]: [number, number],
+  falloff: number,
+): number {
+  return Math.max(0, min - value, value - max) / falloff;
+}
+
+/**
+ * Suggested speed limit for a turn and how much to trust it
+ * Confidence drops with the model's error on its samples, for turns outside
+ * the ones it was fitted to and when the output sits between two limits
+ */
+export function suggestSpeedLimit(
+  turn: CornerTurn,
+  model: SpeedLimitModel = DEFAULT_SPEED_LIMIT_MODEL,
+): SpeedLimitSuggestion {
+  const [, angle, radius] = getFeatures(turn);
+  const rawSpeedLimit =
+    model.intercept + model.angleWeight * angle + model.radiusWeight * radius;
+  const speedLimit = Math.min(
+    MAX_SPEED_LIMIT,
+    Math.max(MIN_SPEED_LIMIT, Math.round(rawSpeedLimit)),
+  );
+
+  // A calibrated fit earns its residual once it has seen a few corners
+  const fit =
+    model.sampleCount === 0
+      ? 1 / (1 + model.residual)
+      : (1 / (1 + model.residual)) *
+        (model.sampleCount / (model.sampleCount + TRUSTED_SAMPLE_COUNT - 1));
+
+  const distance = Math.hypot(
+    getRangeDistance(turn.turnAngle, model.angleRange, ANGLE_FALLOFF),
+    getRangeDistance(
+      Math.log(Math.max(MIN_RADIUS, turn.radius)),
+      [
+        Math.log(Math.max(MIN_RADIUS, model.radiusRange[0])),
+        Math.log(Math.max(MIN_RADIUS, model.radiusRange[1])),
+      ],
+      RADIUS_FALLOFF,
+    ),
+  );
+  const coverage = Math.exp((-distance * distance) / 2);
+
+  // Halfway between two limits is a coin toss, clamped outputs are not
+  const margin =
+    rawSpeedLimit < MIN_SPEED_LIMIT || rawSpeedLimit > MAX_SPEED_LIMIT
+      ? 1
+      : 1 - Math.abs(rawSpeedLimit - Math.round(rawSpeedLimit));
+
+  return {
+    speedLimit,
+    rawSpeedLimit,
+    confidence: Math.round(fit * coverage * margin * 100) / 100,
+  };
+}
@@ -1,20 +1,70 @@
 import {
+  BezierPoint,
   BezierSegment,
   Corner,
+  CornerGeometry,
+  CornerGroup,
+  CornerTurn,
+  LaneOverride,
+  LegendLine,
   Point,
   Space,
+  SpeedLimitModel,
+  SpeedLimitSample,
   Spot,
+  TrackBranch,
   TrackData,
+  TrackIntersection,
   TrackMetadata,
+  TrackOverpass,
+  TrackValidationIssue,
+  TrackWidthPoint,
 } from "@/types/spline";
 
 import {
   calculateChainArcLength,
   calculateChainTangent,
   evaluateChainAtT,
+  findChainIntersections,
+  findDistanceForT,
   findTForDistance,
+  pointsToBezierSegments,
 } from "./bezierChain";
+import {
+  getBranchMainDistance,
+  getRaceStep,
+  wrapSpaceIndex,
+} from "./gameRules";
 import { generateId } from "./pathUtils";
+import {
+  DEFAULT_SPEED_LIMIT_MODEL,
+  suggestSpeedLimit,
+} from "./speedLimitModel";
+
+// Spaces a car may move when slipstreaming (Section C.3)
+const SLIPSTREAM_BONUS = 2;
+
+// Heading change per space below which the track counts as straight
+const STRAIGHT_TURN = (3 * Math.PI) / 180;
+// Radius in spaces reported for turns that barely bend
+const MAX_TURN_RADIUS = 50;
+// Chain samples per space when measuring a corner's curve
+const GEOMETRY_SAMPLES_PER_SPACE = 8;
+// Arc length table steps per segment, as many as the chain's length uses
+const ARC_TABLE_SAMPLES = 100;
+
+// Crossover markers allow intersections within this distance (px)
+const CROSSOVER_MATCH_DISTANCE = 40;
+
+// Branches run alongside the main track, this many track widths clear of
+// its edge, easing out and back in over the ramp length
+const BRANCH_GAP_TRACK_WIDTHS = 0.1;
+const BRANCH_RAMP_TRACK_WIDTHS = 1.5;
+
+// Samples per Bezier segment when projecting corners onto an edited track
+const CORNER_PROJECTION_SAMPLES = 100;
+// Remapped corners search this fraction of a lap either side of where they were
+const CORNER_PROJECTION_WINDOW = 0.25;
 
 /**
  * Calculate the arc length of a cubic Bezier curve
@@ -139,15 +189,326 @@ export function calculateCurvature(
   return Math.abs(crossProduct) / Math.pow(tangentLength, 3);
 }
 
+/**
+ * Track width, as a % of the base width, at a fraction of the lap
+ * Eases between the neighbouring width points, wrapping around the loop
+ */
+export function getTrackWidthAt(
+  widthPoints: TrackWidthPoint[],
+  lapFraction: number,
+): number {
+  if (widthPoints.length === 0) return 100;
+
+  const wrap = (value: number) => ((value % 1) + 1) % 1;
+  const fraction = wrap(lapFraction);
+  const sorted = [...widthPoints].sort((a, b) => a.position - b.position);
+  const next = sorted.find((point) => point.position > fraction) ?? sorted[0];
+  const previous =
+    [...sorted].reverse().find((point) => point.position <= fraction) ??
+    sorted[sorted.length - 1];
+  if (!previous || !next) return 100;
+
+  const span = wrap(next.position - previous.position) || 1;
+  const progress = Math.min(1, wrap(fraction - previous.position) / span);
+  const eased = progress * progress * (3 - 2 * progress);
+  return previous.width + (next.width - previous.width) * eased;
+}
+
+/**
+ * New width point in the middle of the widest gap between existing ones,
+ * starting at the current width there so the track does not jump
+ */
+export function createWidthPoint(
+  widthPoints: TrackWidthPoint[],
+): TrackWidthPoint {
+  const sorted = [...widthPoints].sort((a, b) => a.position - b.position);
+  let position = 0;
+  let widestGap = 0;
+
+  sorted.forEach((point, index) => {
+    const next = sorted[(index + 1) % sorted.length] ?? point;
+    const gap = (next.position - point.position + 1) % 1 || 1;
+    if (gap > widestGap) {
+      widestGap = gap;
+      position = (point.position + gap / 2) % 1;
+    }
+  });
+
+  return {
+    id: generateId(),
+    position,
+    width: Math.round(getTrackWidthAt(widthPoints, position)),
+  };
+}
+
+/**
+ * Whether a space lies in an inclusive range of spaces that may wrap
+ */
+function isSpaceInRange(
+  range: { startSpaceIndex: number; endSpaceIndex: number },
+  spaceIndex: number,
+  spaceCount: number,
+): boolean {
+  const rangeLength = wrapSpaceIndex(
+    range.endSpaceIndex - range.startSpaceIndex,
+    spaceCount,
+  );
+  return (
+    wrapSpaceIndex(spaceIndex - range.startSpaceIndex, spaceCount) <=
+    rangeLength
+  );
+}
+
+/**
+ * Lane override covering a space, the last one wins where ranges overlap
+ */
+export function getLaneOverride(
+  laneOverrides: LaneOverride[],
+  spaceIndex: number,
+  spaceCount: number,
+): LaneOverride | undefined {
+  return [...laneOverrides]
+    .reverse()
+    .find((override) => isSpaceInRange(override, spaceIndex, spaceCount));
+}
+
+/**
+ * Overpass covering a space, the last one wins where ranges overlap
+ */
+export function getOverpass(
+  overpasses: TrackOverpass[],
+  spaceIndex: number,
+  spaceCount: number,
+): TrackOverpass | undefined {
+  return [...overpasses]
+    .reverse()
+    .find((overpass) => isSpaceInRange(overpass, spaceIndex, spaceCount));
+}
+
+/**
+ * New overpass over the first crossing no overpass covers yet, spanning
+ * the spaces either side of it on one of the two crossing sections
+ */
+export function createOverpass(
+  trackData: TrackData,
+  kind: TrackOverpass["kind"],
+  intersections: TrackIntersection[] = findTrackIntersections(trackData),
+): TrackOverpass | undefined {
+  const crossing = intersections.find(
+    (intersection) => !intersection.overpassId,
+  );
+  const spaceCount = trackData.spaces.length;
+  if (!crossing || spaceCount === 0) return undefined;
+
+  const [spaceIndex] = getIntersectionSpaceIndices(trackData, crossing);
+  if (spaceIndex === undefined) return undefined;
+
+  return {
+    id: generateId(),
+    kind,
+    startSpaceIndex: wrapSpaceIndex(spaceIndex - 1, spaceCount),
+    endSpaceIndex: wrapSpaceIndex(spaceIndex + 1, spaceCount),
+  };
+}
+
+/**
+ * New single-space lane override with the track's usual layout
+ */
+export function createLaneOverride(
+  trackData: TrackData,
+  spaceIndex: number,
+): LaneOverride {
+  const { spotCount } = trackData.discretizationSettings;
+
+  return {
+    id: generateId(),
+    startSpaceIndex: spaceIndex,
+    endSpaceIndex: spaceIndex,
+    spotCount,
+    raceLineSpotIndex: Math.floor(spotCount / 2),
+  };
+}
+
+/**
+ * Lines from one space line forward to another, in race order
+ */
+function getLinesAhead(
+  trackData: TrackData,
+  fromLineIndex: number,
+  toLineIndex: number,
+): number {
+  return wrapSpaceIndex(
+    (toLineIndex - fromLineIndex) * getRaceStep(trackData),
+    trackData.spaces.length,
+  );
+}
+
+/**
+ * First corner past a space line in race order
+ */
+function getNextCornerAhead(
+  trackData: TrackData,
+  lineIndex: number,
+): Corner | undefined {
+  const [corner] = trackData.corners
+    .filter((c) => getLinesAhead(trackData, lineIndex, c.spaceIndex) > 0)
+    .sort(
+      (a, b) =>
+        getLinesAhead(trackData, lineIndex, a.spaceIndex) -
+        getLinesAhead(trackData, lineIndex, b.spaceIndex),
+    );
+  return corner;
+}
+
+/**
+ * Put the legend line for the next corner ahead on a space line, moving
+ * that corner's legend line if it already has one
+ */
+export function placeLegendLine(
+  trackData: TrackData,
+  lineIndex: number,
+): TrackData {
+  const corner = getNextCornerAhead(trackData, lineIndex);
+  if (!corner) return trackData;
+
+  const legendLines = trackData.legendLines ?? [];
+  if (legendLines.some((legendLine) => legendLine.cornerId === corner.id)) {
+    return {
+      ...trackData,
+      legendLines: legendLines.map((legendLine) =>
+        legendLine.cornerId === corner.id
+          ? { ...legendLine, spaceIndex: lineIndex }
+          : legendLine,
+      ),
+    };
+  }
+
+  // The diamond starts on the first space past the corner
+  const newLegendLine: LegendLine = {
+    id: generateId(),
+    cornerId: corner.id,
+    spaceIndex: lineIndex,
+    diamondSpaceIndex: wrapSpaceIndex(
+      corner.spaceIndex + (getRaceStep(trackData) > 0 ? 1 : 0),
+      trackData.spaces.length,
+    ),
+  };
+  return { ...trackData, legendLines: [...legendLines, newLegendLine] };
+}
+
+/**
+ * A group's corners in race order, starting after the widest gap between
+ * them so a group across the start/finish line keeps its order
+ */
+export function getGroupCornersInOrder(
+  group: CornerGroup,
+  allCorners: Corner[],
+  spacesCount: number,
+  step: 1 | -1,
+): Corner[] {
+  const linesAhead = (from: number, to: number) =>
+    wrapSpaceIndex((to - from) * step, spacesCount);
+  const corners = allCorners
+    .filter((corner) => group.cornerIds.includes(corner.id))
+    .sort((a, b) => linesAhead(0, a.spaceIndex) - linesAhead(0, b.spaceIndex));
+
+  let firstIndex = 0;
+  let widestGap = -1;
+  corners.forEach((corner, index) => {
+    const previous = corners[(index - 1 + corners.length) % corners.length];
+    const gap = previous
+      ? linesAhead(previous.spaceIndex, corner.spaceIndex)
+      : 0;
+    if (gap > widestGap) {
+      widestGap = gap;
+      firstIndex = index;
+    }
+  });
+
+  return [...corners.slice(firstIndex), ...corners.slice(0, firstIndex)];
+}
+
+/**
+ * Link a corner with the next corner ahead, extending the corner's group
+ * or merging it with the next corner's group
+ */
+export function linkCornerWithNext(
+  trackData: TrackData,
+  cornerId: string,
+  kind: CornerGroup["kind"] = "chicane",
+): TrackData {
+  const cornerGroups = trackData.cornerGroups ?? [];
+  const group = cornerGroups.find((g) => g.cornerIds.includes(cornerId));
+  const corners = group
+    ? getGroupCornersInOrder(
+        group,
+        trackData.corners,
+        trackData.spaces.length,
+        getRaceStep(trackData),
+      )
+    : trackData.corners.filter((corner) => corner.id === cornerId);
+  const lastCorner = corners[corners.length - 1];
+  if (!lastCorner) return trackData;
+
+  const nextCorner = getNextCornerAhead(trackData, lastCorner.spaceIndex);
+  if (!nextCorner || corners.includes(nextCorner)) return trackData;
+
+  const nextGroup = cornerGroups.find((g) =>
+    g.cornerIds.includes(nextCorner.id),
+  );
+  const nextCorners = nextGroup
+    ? getGroupCornersInOrder(
+        nextGroup,
+        trackData.corners,
+        trackData.spaces.length,
+        getRaceStep(trackData),
+      )
+    : [nextCorner];
+
+  const linkedGroup: CornerGroup = {
+    id: group?.id ?? nextGroup?.id ?? generateId(),
+    kind: group?.kind ?? nextGroup?.kind ?? kind,
+    cornerIds: [...corners, ...nextCorners].map((corner) => corner.id),
+  };
+  return {
+    ...trackData,
+    cornerGroups: [
+      ...cornerGroups.filter((g) => g !== group && g !== nextGroup),
+      linkedGroup,
+    ],
+  };
+}
+
+/**
+ * Drop a removed corner from its group, and the group once it no longer
+ * links two corners
+ */
+export function removeCornerFromGroups(
+  cornerGroups: CornerGroup[] | undefined,
+  cornerId: string,
+): CornerGroup[] | undefined {
+  return cornerGroups
+    ?.map((group) => ({
+      ...group,
+      cornerIds: group.cornerIds.filter((id) => id !== cornerId),
+    }))
+    .filter((group) => group.cornerIds.length >= 2);
+}
+
 /**
  * Enhanced space discretization using proper Bezier chain
  * Implements Section A requirements for fixed arclength intervals
+ * Width points narrow or widen each space and scale its spot count with it,
+ * lane overrides set the spot count and race line outright
  */
 export function discretizePathToSpaces(
   bezierSegments: BezierSegment[],
   targetSpacesPerLap: number,
   trackWidth: number = 100,
   spotCount: number = 5,
+  closed: boolean = true,
+  widthPoints: TrackWidthPoint[] = [],
+  laneOverrides: LaneOverride[] = [],
 ): Space[] {
   if (bezierSegments.length === 0) return [];
 
@@ -159,7 +520,9 @@ export function discretizePathToSpaces(
 
   // Generate spaces along the path
   for (let spaceIndex = 0; spaceIndex < targetSpacesPerLap; spaceIndex++) {
-    const targetDistance = spaceIndex * spaceLength;
+    // An open path has lines at both ends, so spaces sit between them
+    const targetDistance =
+      (closed ? spaceIndex : spaceIndex + 0.5) * spaceLength;
 
     // Find the exact position on the Bezier chain
     const { segmentIndex, t } = findTForDistance(
@@ -175,12 +538,29 @@ export function discretizePathToSpaces(
       t,
     );
 
-    // Generate spots for this space
+    const widthScale =
+      getTrackWidthAt(widthPoints, targetDistance / totalLength) / 100;
+    const spaceWidth = trackWidth * widthScale;
+
+    // Generate spots for this space, fewer lanes where the track narrows
+    const laneOverride = getLaneOverride(
+      laneOverrides,
+      spaceIndex,
+      targetSpacesPerLap,
+    );
+    const spaceSpotCount = Math.max(
+      1,
+      laneOverride?.spotCount ?? Math.round(spotCount * widthScale),
+    );
     const spots = generateSpotsForSpace(
       position,
       tangent,
-      trackWidth,
-      spotCount,
+      spaceWidth,
+      spaceSpotCount,
+      Math.min(
+        laneOverride?.raceLineSpotIndex ?? Math.floor(spaceSpotCount / 2),
+        spaceSpotCount - 1,
+      ),
     );
 
     spaces.push({
@@ -193,7 +573,7 @@ export function discretizePathToSpaces(
         isStartFinish: false,
         isStraight: curvature < 0.01,
         curvature,
-        trackWidth,
+        trackWidth: spaceWidth,
         surface: "asphalt",
       },
     });
@@ -231,6 +611,7 @@ function generateSpotsForSpace(
   tangent: Point,
   trackWidth: number,
   spotCount: number = 5,
+  raceLineSpotIndex: number = Math.floor(spotCount / 2),
 ): Spot[] {
   const tangentLength = Math.sqrt(
     tangent.x * tangent.x + tangent.y * tangent.y,
@@ -245,8 +626,8 @@ function generateSpotsForSpace(
   const perpX = -ny;
   const perpY = nx;
 
-  const halfWidth = trackWidth / 2;
-  const spotSpacing = trackWidth / (spotCount - 1);
+  // A single-file space keeps its only spot on the centerline
+  const spotSpacing = spotCount > 1 ? trackWidth / (spotCount - 1) : 0;
 
   const spots: Spot[] = [];
 
@@ -258,26 +639,18 @@ function generateSpotsForSpace(
       y: centerPosition.y + perpY * offset,
     };
 
-    // Determine spot type and properties
+    // Determine spot type
     let spotType: "race-line" | "outer" | "inner";
-    let isBlocking: boolean;
-    let slipstreamValue: number;
 
-    if (i === Math.floor(spotCount / 2)) {
-      // Center spot - race line
+    if (i === raceLineSpotIndex) {
+      // Race line, the center spot unless a lane override moves it
       spotType = "race-line";
-      isBlocking = false;
-      slipstreamValue = 0;
     } else if (i === 0 || i === spotCount - 1) {
       // Edge spots - outer
       spotType = "outer";
-      isBlocking = true;
-      slipstreamValue = 2; // Outer spots provide slipstream
     } else {
       // Middle spots - inner
       spotType = "inner";
-      isBlocking = false;
-      slipstreamValue = 1; // Inner spots provide some slipstream
     }
 
     spots.push({
@@ -286,23 +659,270 @@ function generateSpotsForSpace(
       type: spotType,
       isOccupied: false,
       spotIndex: i,
-      isBlocking,
-      slipstreamValue,
+      // Any car shelters the car behind it with the standard slipstream
+      isBlocking: true,
+      slipstreamValue: SLIPSTREAM_BONUS,
     });
   }
 
   return spots;
 }
 
+/**
+ * Running arc length at evenly spaced t along every segment of a chain
+ */
+function buildArcTable(
+  segments: BezierSegment[],
+): { arc: number; segmentIndex: number; t: number }[] {
+  const table: { arc: number; segmentIndex: number; t: number }[] = [];
+  let arc = 0;
+
+  segments.forEach((_, segmentIndex) => {
+    let previous = evaluateChainAtT(segments, segmentIndex, 0);
+    table.push({ arc, segmentIndex, t: 0 });
+    for (let i = 1; i <= ARC_TABLE_SAMPLES; i++) {
+      const t = i / ARC_TABLE_SAMPLES;
+      const point = evaluateChainAtT(segments, segmentIndex, t);
+      arc += Math.hypot(point.x - previous.x, point.y - previous.y);
+      table.push({ arc, segmentIndex, t });
+      previous = point;
+    }
+  });
+
+  return table;
+}
+
+/**
+ * Segment and t at an arc length, interpolated between table entries
+ */
+function lookupArc(
+  table: { arc: number; segmentIndex: number; t: number }[],
+  arc: number,
+): { segmentIndex: number; t: number } {
+  let low = 0;
+  let high = table.length - 1;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if ((table[middle]?.arc ?? 0) < arc) low = middle + 1;
+    else high = middle;
+  }
+
+  const next = table[low];
+  const previous = table[low - 1];
+  if (!next) return { segmentIndex: 0, t: 0 };
+  if (!previous || previous.segmentIndex !== next.segmentIndex) {
+    return { segmentIndex: next.segmentIndex, t: next.t };
+  }
+
+  const span = next.arc - previous.arc;
+  const fraction = span > 0 ? (arc - previous.arc) / span : 0;
+  return {
+    segmentIndex: next.segmentIndex,
+    t: previous.t + (next.t - previous.t) * fraction,
+  };
+}
+
+/**
+ * Shape of the corner on a space line, measured along the Bezier chain
+ * The curve runs over the stretch around the line that bends the same way,
+ * stopping at the neighbouring corner lines and at half a lap.
+ * Entry and exit headings follow the race direction, in degrees clockwise
+ * from the +x axis. The radius is the curve's length in spaces over its
+ * heading change in radians.
+ */
+export function measureCornerGeometry(
+  trackData: TrackData,
+  spaceIndex: number,
+): CornerGeometry {
+  const segments = getTrackSegments(trackData);
+  const arcTable = buildArcTable(segments);
+  const totalLength = arcTable[arcTable.length - 1]?.arc ?? 0;
+  const spaceCount = trackData.spaces.length;
+  const lineArc =
+    spaceCount > 0 ? ((spaceIndex + 0.5) * totalLength) / spaceCount : 0;
+  const sampleCount = spaceCount * GEOMETRY_SAMPLES_PER_SPACE;
+  const sampleLength = totalLength / sampleCount;
+
+  if (spaceCount < 3 || totalLength === 0) {
+    return {
+      turnAngle: 0,
+      radius: MAX_TURN_RADIUS,
+      entryAngle: 0,
+      exitAngle: 0,
+      apex: trackData.spaces[spaceIndex]?.position ?? { x: 0, y: 0 },
+      apexOffset: 0,
+    };
+  }
+
+  const pointAt = (arc: number) =>
+    lookupArc(arcTable, ((arc % totalLength) + totalLength) % totalLength);
+
+  // Samples the curve may reach on either side of the line
+  const halfLap = Math.max(1, Math.floor(sampleCount / 2));
+  let forwardLimit = halfLap;
+  let backwardLimit = halfLap;
+  for (const corner of trackData.corners) {
+    const spacesAhead =
+      (((corner.spaceIndex - spaceIndex) % spaceCount) + spaceCount) %
+      spaceCount;
+    if (spacesAhead === 0) continue;
+    const samplesAhead = spacesAhead * GEOMETRY_SAMPLES_PER_SPACE;
+    forwardLimit = Math.min(forwardLimit, samplesAhead);
+    backwardLimit = Math.min(backwardLimit, sampleCount - samplesAhead);
+  }
+
+  // Headings at samples counted from the line, worked out as the curve grows
+  const headings = new Map<number, number>();
+  const headingAt = (sample: number) => {
+    let heading = headings.get(sample);
+    if (heading === undefined) {
+      const { segmentIndex, t } = pointAt(lineArc + sample * sampleLength);
+      const tangent = calculateChainTangent(segments, segmentIndex, t);
+      heading = Math.atan2(tangent.y, tangent.x);
+      headings.set(sample, heading);
+    }
+    return heading;
+  };
+  // Signed heading change from one sample to the next, in radians
+  const turnAt = (sample: number) => {
+    const turn = headingAt(sample + 1) - headingAt(sample);
+    return Math.atan2(Math.sin(turn), Math.cos(turn));
+  };
+
+  // The sharpest bend within a space and a half of the line seeds the curve
+  const searchRadius = Math.round(GEOMETRY_SAMPLES_PER_SPACE * 1.5);
+  let seed = 0;
+  for (
+    let sample = Math.max(-searchRadius, -backwardLimit);
+    sample <= Math.min(searchRadius, forwardLimit - 1);
+    sample++
+  ) {
+    if (Math.abs(turnAt(sample)) > Math.abs(turnAt(seed))) seed = sample;
+  }
+  const direction = Math.sign(turnAt(seed));
+  const minTurn = STRAIGHT_TURN / GEOMETRY_SAMPLES_PER_SPACE;
+  const isTurning = (sample: number) =>
+    Math.sign(turnAt(sample)) === direction &&
+    Math.abs(turnAt(sample)) >= minTurn;
+
+  // Grows both ways in turn, so a curve cut off at half a lap stays
+  // centred on its seed
+  let start = seed;
+  let end = seed;
+  let isGrowing = isTurning(seed);
+  while (isGrowing && end - start + 1 < halfLap) {
+    isGrowing = false;
+    if (start - 1 >= -backwardLimit && isTurning(start - 1)) {
+      start--;
+      isGrowing = true;
+    }
+    if (
+      end - start + 1 < halfLap &&
+      end + 1 < forwardLimit &&
+      isTurning(end + 1)
+    ) {
+      end++;
+      isGrowing = true;
+    }
+  }
+
+  let turnAngle = 0;
+  let apexSample = seed;
+  for (let sample = start; sample <= end; sample++) {
+    turnAngle += turnAt(sample);
+    if (Math.abs(turnAt(sample)) > Math.abs(turnAt(apexSample))) {
+      apexSample = sample;
+    }
+  }
+  turnAngle = Math.abs(turnAngle);
+
+  const apexPoint = pointAt(lineArc + (apexSample + 0.5) * sampleLength);
+  const curveSpaces = (end - start + 1) / GEOMETRY_SAMPLES_PER_SPACE;
+  // Cars racing against the chain enter at its far end, facing back
+  const step = getRaceStep(trackData);
+  const entryHeading =
+    step === 1 ? headingAt(start) : headingAt(end + 1) + Math.PI;
+  const exitHeading =
+    step === 1 ? headingAt(end + 1) : headingAt(start) + Math.PI;
+  const toDegrees = (radians: number) =>
+    ((((radians * 180) / Math.PI) % 360) + 360) % 360;
+  // Spaces from the line to the apex, the short way round the lap
+  const apexOffset = (step * (apexSample + 0.5)) / GEOMETRY_SAMPLES_PER_SPACE;
+  const wrappedApexOffset =
+    ((((apexOffset + spaceCount / 2) % spaceCount) + spaceCount) % spaceCount) -
+    spaceCount / 2;
+
+  return {
+    turnAngle: (turnAngle * 180) / Math.PI,
+    radius:
+      turnAngle > 0
+        ? Math.min(MAX_TURN_RADIUS, curveSpaces / turnAngle)
+        : MAX_TURN_RADIUS,
+    entryAngle: toDegrees(entryHeading),
+    exitAngle: toDegrees(exitHeading),
+    apex: evaluateChainAtT(segments, apexPoint.segmentIndex, apexPoint.t),
+    apexOffset: wrappedApexOffset,
+  };
+}
+
+/**
+ * Corner with its geometry and difficulty measured from the track
+ */
+export function updateCornerGeometry(
+  trackData: TrackData,
+  corner: Corner,
+): Corner {
+  const { turnAngle, radius, entryAngle, exitAngle, apex } =
+    measureCornerGeometry(trackData, corner.spaceIndex);
+
+  return {
+    ...corner,
+    turnAngle,
+    radius,
+    entryAngle,
+    exitAngle,
+    apex,
+    difficulty: calculateCornerDifficulty(
+      { turnAngle, radius },
+      corner.speedLimit,
+    ),
+  };
+}
+
+/**
+ * Calibration samples from a reference track's corners and their limits
+ */
+export function collectSpeedLimitSamples(
+  trackData: TrackData,
+): SpeedLimitSample[] {
+  return trackData.corners.map((corner) => {
+    const { turnAngle, radius } = measureCornerGeometry(
+      trackData,
+      corner.spaceIndex,
+    );
+    return {
+      turnAngle,
+      radius,
+      speedLimit: corner.speedLimit,
+      trackId: trackData.id,
+    };
+  });
+}
+
 /**
  * Enhanced corner suggestion based on curvature analysis
  * Implements Section A requirements for corner placement at space boundaries
+ * Suggestions keep their distance from existing corners as well as each other
+ * Speed limits come from the measured turn, with the model's confidence
  */
 export function autoSuggestCorners(
-  spaces: Space[],
+  trackData: TrackData,
   curvatureThreshold: number = 0.1,
   minCornerSpacing: number = 3,
+  existingCorners: Corner[] = [],
+  speedLimitModel: SpeedLimitModel = DEFAULT_SPEED_LIMIT_MODEL,
 ): Corner[] {
+  const { spaces } = trackData;
   const corners: Corner[] = [];
   const highCurvatureSpaces: Array<{ space: Space; curvature: number }> = [];
 
@@ -318,19 +938,26 @@ export function autoSuggestCorners(
   // Sort by curvature and apply minimum spacing
   highCurvatureSpaces.sort((a, b) => b.curvature - a.curvature);
 
-  const usedIndices = new Set<number>();
+  const usedIndices = new Set<number>(
+    existingCorners.map((corner) => corner.spaceIndex),
+  );
 
-  for (const { space, curvature } of highCurvatureSpaces) {
-    // Check if this space is too close to existing corners
-    const tooClose = Array.from(usedIndices).some(
-      (usedIndex) => Math.abs(space.index - usedIndex) < minCornerSpacing,
-    );
+  for (const { space } of highCurvatureSpaces) {
+    // Check if this space is too close to existing corners, around the loop
+    const tooClose = Array.from(usedIndices).some((usedIndex) => {
+      const distance = Math.abs(space.index - usedIndex);
+      return Math.min(distance, spaces.length - distance) < minCornerSpacing;
+    });
 
     if (!tooClose) {
-      // Calculate corner properties based on curvature
-      const cornerType = determineCornerType(curvature);
-      const speedLimit = calculateSpeedLimit(curvature, cornerType);
-      const difficulty = calculateCornerDifficulty(curvature, speedLimit);
+      // Calculate corner properties based on the turn
+      const geometry = measureCornerGeometry(trackData, space.index);
+      const { speedLimit, confidence } = suggestSpeedLimit(
+        geometry,
+        speedLimitModel,
+      );
+      const cornerType = determineCornerType(speedLimit);
+      const difficulty = calculateCornerDifficulty(geometry, speedLimit);
 
       corners.push({
         id: generateId(),
@@ -344,9 +971,12 @@ export function autoSuggestCorners(
         difficulty,
         suggestedGear: calculateSuggestedGear(speedLimit),
         heatPenalty: calculateHeatPenalty(speedLimit),
-        entryAngle: 0, // Would be calculated from track geometry
-        exitAngle: 0, // Would be calculated from track geometry
-        radius: calculateCornerRadius(curvature),
+        entryAngle: geometry.entryAngle,
+        exitAngle: geometry.exitAngle,
+        radius: geometry.radius,
+        turnAngle: geometry.turnAngle,
+        apex: geometry.apex,
+        speedLimitConfidence: confidence,
       });
 
       usedIndices.add(space.index);
@@ -357,46 +987,27 @@ export function autoSuggestCorners(
 }
 
 /**
- * Determine corner type based on curvature
+ * Determine corner type based on speed limit
+ * Chicanes are linked corner groups, never a single suggestion
  */
-function determineCornerType(
-  curvature: number,
-): "slow" | "medium" | "fast" | "chicane" {
-  if (curvature > 0.3) return "slow";
-  if (curvature > 0.15) return "medium";
-  if (curvature > 0.05) return "fast";
-  return "chicane";
-}
-
-/**
- * Calculate speed limit based on curvature and corner type
- */
-function calculateSpeedLimit(
-  curvature: number,
-  cornerType: "slow" | "medium" | "fast" | "chicane",
-): number {
-  switch (cornerType) {
-    case "slow":
-      return Math.max(1, Math.floor(6 - curvature * 20));
-    case "medium":
-      return Math.max(2, Math.floor(6 - curvature * 15));
-    case "fast":
-      return Math.max(3, Math.floor(6 - curvature * 10));
-    case "chicane":
-      return Math.max(2, Math.floor(6 - curvature * 12));
-    default:
-      return 3;
-  }
+function determineCornerType(speedLimit: number): "slow" | "medium" | "fast" {
+  if (speedLimit <= 2) return "slow";
+  if (speedLimit <= 4) return "medium";
+  return "fast";
 }
 
 /**
  * Calculate corner difficulty rating
+ * Long turns and tight radii are harder, whatever the board's pixel scale
  */
 function calculateCornerDifficulty(
-  curvature: number,
+  turn: CornerTurn,
   speedLimit: number,
 ): number {
-  const baseDifficulty = Math.min(10, Math.max(1, curvature * 30));
+  const baseDifficulty = Math.min(
+    10,
+    Math.max(1, turn.turnAngle / 30 + 2 / Math.max(0.5, turn.radius)),
+  );
   const speedPenalty = Math.max(0, (6 - speedLimit) * 0.5);
   return Math.min(10, baseDifficulty + speedPenalty);
 }
@@ -415,13 +1026,6 @@ function calculateHeatPenalty(speedLimit: number): number {
   return Math.max(1, 6 - speedLimit);
 }
 
-/**
- * Calculate corner radius from curvature
- */
-function calculateCornerRadius(curvature: number): number {
-  return curvature > 0 ? 1 / curvature : 1000; // Large radius for straight sections
-}
-
 /**
  * Create comprehensive default track metadata
  * Implements Section A requirements for track metadata
@@ -456,18 +1060,17 @@ export function createDefaultTrackMetadata(): TrackMetadata {
 
 /**
  * Update track metadata with calculated values
+ * Difficulty is measured by the race simulator, so the last measured value is kept
  */
 export function updateTrackMetadata(
   metadata: TrackMetadata,
   spaces: Space[],
   corners: Corner[],
   totalLength: number,
+  cornerGroups: CornerGroup[] = [],
+  overpasses: TrackOverpass[] = [],
 ): TrackMetadata {
-  const averageCurvature =
-    spaces.reduce((sum, space) => sum + space.metadata.curvature, 0) /
-    spaces.length;
   const averageSpeed = calculateAverageSpeed(spaces, corners);
-  const difficulty = calculateTrackDifficulty(corners, averageCurvature);
 
   return {
     ...metadata,
@@ -478,7 +1081,9 @@ export function updateTrackMetadata(
       spacesPerLap: spaces.length,
       trackLength: totalLength,
       averageSpeed,
-      difficulty,
+      chicanes: cornerGroups.filter((group) => group.kind === "chicane").length,
+      tunnels: overpasses.filter((overpass) => overpass.kind === "tunnel")
+        .length,
     },
   };
 }
@@ -499,141 +1104,817 @@ function calculateAverageSpeed(spaces: Space[], corners: Corner[]): number {
 }
 
 /**
- * Calculate overall track difficulty
+ * Comprehensive track validation system
+ * Implements Section A requirements for track validation
  */
-function calculateTrackDifficulty(
-  corners: Corner[],
-  averageCurvature: number,
-): number {
-  if (corners.length === 0)
-    return Math.min(10, Math.max(1, averageCurvature * 20));
-
-  const averageCornerDifficulty =
-    corners.reduce((sum, corner) => sum + corner.difficulty, 0) /
-    corners.length;
-  const curvatureDifficulty = Math.min(10, Math.max(1, averageCurvature * 20));
-
-  return Math.round((averageCornerDifficulty + curvatureDifficulty) / 2);
+export function validateTrackData(trackData: TrackData): string[] {
+  return collectTrackErrors(trackData).map((issue) => issue.message);
 }
 
 /**
- * Comprehensive track validation system
- * Implements Section A requirements for track validation
+ * Track validation errors with the corner, space or segment they point at
  */
-export function validateTrackData(trackData: TrackData): string[] {
-  const errors: string[] = [];
+export function collectTrackErrors(
+  trackData: TrackData,
+  intersections: TrackIntersection[] = findTrackIntersections(trackData),
+): TrackValidationIssue[] {
+  const errors: TrackValidationIssue[] = [];
+  const addError = (message: string, target?: TrackValidationIssue["target"]) =>
+    errors.push({ severity: "error", message, target });
 
   // Basic structure validation
   if (!trackData.splinePath.closed) {
-    errors.push("Track must form a closed loop");
+    addError("Track must form a closed loop");
   }
 
   if (trackData.spaces.length === 0) {
-    errors.push("Track must have at least one space");
+    addError("Track must have at least one space");
   }
 
   if (trackData.metadata.startFinishSpaceIndex >= trackData.spaces.length) {
-    errors.push("Start/Finish line must be within track bounds");
+    addError("Start/Finish line must be within track bounds");
   }
 
   // Corner placement validation
   for (const corner of trackData.corners) {
+    const target = { type: "corner" as const, cornerId: corner.id };
+
     if (corner.spaceIndex >= trackData.spaces.length) {
-      errors.push(`Corner at space ${corner.spaceIndex} is out of bounds`);
+      addError(`Corner at space ${corner.spaceIndex} is out of bounds`, target);
     }
 
     if (corner.speedLimit < 1 || corner.speedLimit > 6) {
-      errors.push(
+      addError(
         `Corner at space ${corner.spaceIndex} has invalid speed limit: ${corner.speedLimit}`,
+        target,
       );
     }
   }
 
   // Space validation
   for (const space of trackData.spaces) {
+    const target = { type: "space" as const, spaceIndex: space.index };
+
     if (space.spots.length === 0) {
-      errors.push(`Space ${space.index} has no spots`);
+      addError(`Space ${space.index} has no spots`, target);
     }
 
     const raceLineSpots = space.spots.filter(
       (spot) => spot.type === "race-line",
     );
     if (raceLineSpots.length !== 1) {
-      errors.push(`Space ${space.index} must have exactly one race line spot`);
+      addError(
+        `Space ${space.index} must have exactly one race line spot`,
+        target,
+      );
+    }
+  }
+
+  // Branches must leave and rejoin the main loop on real spaces
+  for (const branch of trackData.branches ?? []) {
+    const target = {
+      type: "space" as const,
+      spaceIndex: branch.splitSpaceIndex,
+    };
+
+    if (
+      branch.splitSpaceIndex >= trackData.spaces.length ||
+      branch.joinSpaceIndex >= trackData.spaces.length
+    ) {
+      addError(`${branch.name} splits or joins out of bounds`, target);
+    } else if (getBranchMainDistance(trackData, branch) < 2) {
+      addError(`${branch.name} must bypass at least one space`, target);
+    }
+
+    if (branch.spaces.length === 0) {
+      addError(`${branch.name} has no spaces`, target);
+    }
+  }
+
+  // Width points must sit on the lap and leave room for a car
+  for (const widthPoint of trackData.widthPoints ?? []) {
+    if (widthPoint.position < 0 || widthPoint.position >= 1) {
+      addError(`Width point at ${widthPoint.position} is off the lap`);
+    }
+    if (widthPoint.width <= 0) {
+      addError(`Width point has invalid width: ${widthPoint.width}%`);
+    }
+  }
+
+  // Lane overrides must cover real spaces with a race line spot
+  for (const override of trackData.laneOverrides ?? []) {
+    const target = {
+      type: "space" as const,
+      spaceIndex: override.startSpaceIndex,
+    };
+
+    if (
+      override.startSpaceIndex >= trackData.spaces.length ||
+      override.endSpaceIndex >= trackData.spaces.length
+    ) {
+      addError(
+        `Lane override at space ${override.startSpaceIndex} is out of bounds`,
+        target,
+      );
+    }
+    if (override.spotCount < 1) {
+      addError(
+        `Lane override at space ${override.startSpaceIndex} has no spots`,
+        target,
+      );
+    }
+    if (
+      override.raceLineSpotIndex < 0 ||
+      override.raceLineSpotIndex >= override.spotCount
+    ) {
+      addError(
+        `Lane override at space ${override.startSpaceIndex} has its race line outside its spots`,
+        target,
+      );
+    }
+  }
+
+  // Legends mode needs one legend line between each corner and the one before
+  const legendLines = trackData.legendLines ?? [];
+  if (legendLines.length > 0) {
+    const spaceCount = trackData.spaces.length;
+
+    for (const corner of trackData.corners) {
+      const previousCornerLines = Math.min(
+        spaceCount,
+        ...trackData.corners
+          .filter((c) => c.id !== corner.id)
+          .map(
+            (c) =>
+              getLinesAhead(trackData, c.spaceIndex, corner.spaceIndex) ||
+              spaceCount,
+          ),
+      );
+      const linesBefore = legendLines.filter((legendLine) => {
+        if (legendLine.cornerId !== corner.id) return false;
+        const linesAhead = getLinesAhead(
+          trackData,
+          legendLine.spaceIndex,
+          corner.spaceIndex,
+        );
+        return linesAhead > 0 && linesAhead < previousCornerLines;
+      });
+
+      if (linesBefore.length !== 1) {
+        addError(
+          `Corner at space ${corner.spaceIndex} must have exactly one legend line before it`,
+          { type: "corner", cornerId: corner.id },
+        );
+      }
+    }
+
+    for (const legendLine of legendLines) {
+      if (!trackData.corners.some((c) => c.id === legendLine.cornerId)) {
+        addError(`Legend line at space ${legendLine.spaceIndex} has no corner`);
+      }
+      if (
+        legendLine.spaceIndex >= spaceCount ||
+        legendLine.diamondSpaceIndex >= spaceCount
+      ) {
+        addError(
+          `Legend line at space ${legendLine.spaceIndex} is out of bounds`,
+        );
+      }
+    }
+  }
+
+  // Overpasses must cover real spaces
+  for (const overpass of trackData.overpasses ?? []) {
+    if (
+      overpass.startSpaceIndex >= trackData.spaces.length ||
+      overpass.endSpaceIndex >= trackData.spaces.length
+    ) {
+      addError(
+        `${overpass.kind === "bridge" ? "Bridge" : "Tunnel"} at space ${overpass.startSpaceIndex} is out of bounds`,
+        { type: "space", spaceIndex: overpass.startSpaceIndex },
+      );
+    }
+  }
+
+  // Corner groups link consecutive corners, each corner in one group at most
+  const groupedCornerIds = new Set<string>();
+  for (const group of trackData.cornerGroups ?? []) {
+    const corners = getGroupCornersInOrder(
+      group,
+      trackData.corners,
+      trackData.spaces.length,
+      getRaceStep(trackData),
+    );
+    if (corners.length !== group.cornerIds.length) {
+      addError("Corner group links a corner that does not exist");
+    }
+    if (corners.length < 2) {
+      addError("Corner group must link at least two corners");
+    }
+
+    for (const corner of corners) {
+      if (groupedCornerIds.has(corner.id)) {
+        addError(
+          `Corner at space ${corner.spaceIndex} is in more than one group`,
+          { type: "corner", cornerId: corner.id },
+        );
+      }
+      groupedCornerIds.add(corner.id);
+    }
+
+    corners.slice(1).forEach((corner, index) => {
+      const previous = corners[index];
+      if (!previous) return;
+
+      const linesToCorner = getLinesAhead(
+        trackData,
+        previous.spaceIndex,
+        corner.spaceIndex,
+      );
+      const cornerBetween = trackData.corners.some((other) => {
+        const linesToOther = getLinesAhead(
+          trackData,
+          previous.spaceIndex,
+          other.spaceIndex,
+        );
+        return linesToOther > 0 && linesToOther < linesToCorner;
+      });
+      if (cornerBetween) {
+        addError(
+          `Grouped corners at spaces ${previous.spaceIndex} and ${corner.spaceIndex} must be consecutive`,
+          { type: "corner", cornerId: corner.id },
+        );
+      }
+    });
+  }
+
+  // Road conditions sit on a corner or the sector leading into it
+  for (const condition of trackData.roadConditions ?? []) {
+    if (!trackData.corners.some((c) => c.id === condition.cornerId)) {
+      addError(`Road condition "${condition.kind}" has no corner`);
     }
   }
 
   // Bezier chain validation
   if (trackData.splinePath.segments.length < 3) {
-    errors.push("Track must have at least 3 Bezier segments");
+    addError("Track must have at least 3 Bezier segments");
   }
 
-  // Check for self-intersections (simplified)
-  const hasSelfIntersections = checkForSelfIntersections(
-    trackData.splinePath.segments,
-  );
-  if (hasSelfIntersections) {
-    errors.push("Track has self-intersections");
+  // Crossings are errors unless a crossover marker or an overpass allows them
+  for (const intersection of intersections) {
+    if (intersection.crossoverId || intersection.overpassId) continue;
+
+    const { point } = intersection;
+    addError(
+      `Track crosses itself at (${Math.round(point.x)}, ${Math.round(point.y)})`,
+      {
+        type: "intersection",
+        segmentIndex: intersection.segmentIndices[0],
+        point,
+      },
+    );
   }
 
   return errors;
 }
 
 /**
- * Check for self-intersections in Bezier segments
+ * Find where the track centerline crosses itself
+ * Crossings near a crossover marker are tagged with that marker's id, and
+ * crossings on a space inside an overpass with the overpass's id
  */
-function checkForSelfIntersections(segments: BezierSegment[]): boolean {
-  // Simplified intersection check - in practice this would be more sophisticated
-  for (let i = 0; i < segments.length; i++) {
-    for (let j = i + 2; j < segments.length; j++) {
-      const seg1 = segments[i];
-      const seg2 = segments[j];
-      if (seg1 && seg2 && segmentsIntersect(seg1, seg2)) {
-        return true;
-      }
-    }
-  }
-  return false;
+export function findTrackIntersections(
+  trackData: TrackData,
+): TrackIntersection[] {
+  return findChainIntersections(getTrackSegments(trackData)).map(
+    (intersection) => {
+      const crossover = trackData.crossovers?.find(
+        (marker) =>
+          Math.hypot(
+            marker.position.x - intersection.point.x,
+            marker.position.y - intersection.point.y,
+          ) < CROSSOVER_MATCH_DISTANCE,
+      );
+      const overpasses = trackData.overpasses ?? [];
+      const overpass =
+        overpasses.length > 0
+          ? getIntersectionSpaceIndices(trackData, intersection)
+              .map((spaceIndex) =>
+                getOverpass(overpasses, spaceIndex, trackData.spaces.length),
+              )
+              .find((match) => match !== undefined)
+          : undefined;
+
+      return {
+        ...intersection,
+        ...(crossover && { crossoverId: crossover.id }),
+        ...(overpass && { overpassId: overpass.id }),
+      };
+    },
+  );
+}
+
+/**
+ * Spaces the two crossing sections are on where the track crosses itself
+ */
+function getIntersectionSpaceIndices(
+  trackData: TrackData,
+  intersection: TrackIntersection,
+): number[] {
+  const spaceCount = trackData.spaces.length;
+  if (spaceCount === 0) return [];
+
+  const segments = getTrackSegments(trackData);
+  const spaceLength = calculateChainArcLength(segments) / spaceCount;
+  return intersection.segmentIndices.map((segmentIndex, index) =>
+    wrapSpaceIndex(
+      Math.round(
+        findDistanceForT(
+          segments,
+          segmentIndex,
+          intersection.params[index] ?? 0,
+        ) / spaceLength,
+      ),
+      spaceCount,
+    ),
+  );
+}
+
+/**
+ * Bezier segments the track is drawn and discretized from
+ * Points are what the canvas draws, so they win over stored segments
+ */
+function getTrackSegments(trackData: TrackData): BezierSegment[] {
+  const points = trackData.splinePath.points;
+  return points && points.length >= 2
+    ? pointsToBezierSegments(points, "C1")
+    : trackData.splinePath.segments;
+}
+
+/**
+ * Arc length along the track of the line after a space, where a corner
+ * placed on that space sits
+ */
+export function getSpaceLineArcPosition(
+  trackData: TrackData,
+  spaceIndex: number,
+): number {
+  const spaceCount = trackData.spaces.length;
+  if (spaceCount === 0) return 0;
+
+  const totalLength = calculateChainArcLength(getTrackSegments(trackData));
+  return ((spaceIndex + 0.5) * totalLength) / spaceCount;
 }
 
 /**
- * Check if two Bezier segments intersect
+ * Centerline and spaces for a branch between two main-loop spaces
+ * The branch leaves at the line after the split space, runs alongside the
+ * main track on its side and rejoins at the line before the join space
  */
-function segmentsIntersect(seg1: BezierSegment, seg2: BezierSegment): boolean {
-  // Simplified intersection check using bounding boxes
-  const bbox1 = calculateBoundingBox(seg1);
-  const bbox2 = calculateBoundingBox(seg2);
+export function buildBranch(
+  trackData: TrackData,
+  branch: Omit<TrackBranch, "points" | "spaces">,
+  spaceCount: number,
+): TrackBranch {
+  const segments = getTrackSegments(trackData);
+  const totalLength = calculateChainArcLength(segments);
+  const mainSpaceCount = trackData.spaces.length;
+  const mainDistance = getBranchMainDistance(trackData, branch);
+  if (mainSpaceCount === 0 || totalLength === 0 || mainDistance < 2) {
+    return { ...branch, points: [], spaces: [] };
+  }
+
+  const step = getRaceStep(trackData);
+  const spaceLength = totalLength / mainSpaceCount;
+  const startArc = (branch.splitSpaceIndex + step * 0.5) * spaceLength;
+  const length = (mainDistance - 1) * spaceLength;
+  // Scale % of the 100px base width, so also the width in px
+  const trackWidth = trackData.discretizationSettings.trackWidth;
+  const sideSign = branch.side === "left" ? 1 : -1;
+  const rampFraction = Math.min(
+    0.4,
+    (trackWidth * BRANCH_RAMP_TRACK_WIDTHS) / length,
+  );
+  const pointCount = Math.max(6, Math.ceil(length / trackWidth));
+
+  const centerline: Point[] = [];
+  for (let i = 0; i <= pointCount; i++) {
+    const progress = i / pointCount;
+    const arc =
+      (((startArc + step * progress * length) % totalLength) + totalLength) %
+      totalLength;
+    const { segmentIndex, t } = findTForDistance(segments, arc);
+    const point = evaluateChainAtT(segments, segmentIndex, t);
+    const tangent = calculateChainTangent(segments, segmentIndex, t);
+    const tangentLength = Math.hypot(tangent.x, tangent.y) || 1;
+
+    // Clear of the main track's edge, however wide it is here
+    const mainWidth =
+      (trackWidth *
+        getTrackWidthAt(trackData.widthPoints ?? [], arc / totalLength)) /
+      100;
+    const offset =
+      sideSign * (mainWidth / 2 + trackWidth * (0.5 + BRANCH_GAP_TRACK_WIDTHS));
+
+    // Ease out from the main track and back in, left is +perpendicular
+    // like corner inner sides
+    const ramp = Math.min(1, Math.min(progress, 1 - progress) / rampFraction);
+    const eased = ramp * ramp * (3 - 2 * ramp);
+    centerline.push({
+      x: point.x - (tangent.y / tangentLength) * offset * eased,
+      y: point.y + (tangent.x / tangentLength) * offset * eased,
+    });
+  }
 
-  return !(
-    bbox1.maxX < bbox2.minX ||
-    bbox1.minX > bbox2.maxX ||
-    bbox1.maxY < bbox2.minY ||
-    bbox1.minY > bbox2.maxY
+  // Catmull-Rom handles, clamped at the open ends
+  const points: BezierPoint[] = centerline.map((point, i) => {
+    const previous = centerline[i - 1] ?? point;
+    const next = centerline[i + 1] ?? point;
+    const handle = {
+      x: (next.x - previous.x) / 6,
+      y: (next.y - previous.y) / 6,
+    };
+    return {
+      ...point,
+      handleIn: { x: point.x - handle.x, y: point.y - handle.y },
+      handleOut: { x: point.x + handle.x, y: point.y + handle.y },
+    };
+  });
+
+  const spaces = discretizePathToSpaces(
+    pointsToBezierSegments(points, "C1").slice(0, -1),
+    Math.max(1, spaceCount),
+    100,
+    trackData.discretizationSettings.spotCount,
+    false,
   );
+
+  return { ...branch, points, spaces };
 }
 
 /**
- * Calculate bounding box for a Bezier segment
+ * New branch with default placement: pit lanes straddle the start/finish
+ * line, alternative routes sit half a lap away. Both start as long as the
+ * main-loop section they bypass.
  */
-function calculateBoundingBox(segment: BezierSegment): {
-  minX: number;
-  maxX: number;
-  minY: number;
-  maxY: number;
-} {
-  const points = [
-    segment.startPoint,
-    segment.cp1,
-    segment.cp2,
-    segment.endPoint,
-  ];
-  const xs = points.map((p) => p.x);
-  const ys = points.map((p) => p.y);
+export function createBranch(
+  trackData: TrackData,
+  kind: TrackBranch["kind"],
+): TrackBranch {
+  const spaceCount = trackData.spaces.length;
+  const step = getRaceStep(trackData);
+  const { startFinishSpaceIndex } = trackData.metadata;
+  const anchor =
+    kind === "pit-lane"
+      ? startFinishSpaceIndex
+      : startFinishSpaceIndex + step * Math.round(spaceCount / 2);
+  const span = Math.max(1, Math.min(3, Math.floor(spaceCount / 4)));
+  const routeCount = (trackData.branches ?? []).filter(
+    (branch) => branch.kind === "alternative",
+  ).length;
+
+  return buildBranch(
+    trackData,
+    {
+      id: generateId(),
+      name: kind === "pit-lane" ? "Pit Lane" : `Route ${routeCount + 1}`,
+      kind,
+      splitSpaceIndex: wrapSpaceIndex(anchor - step * span, spaceCount),
+      joinSpaceIndex: wrapSpaceIndex(anchor + step * (span + 1), spaceCount),
+      side: kind === "pit-lane" ? "right" : "left",
+    },
+    span * 2,
+  );
+}
+
+/**
+ * Rebuild every branch after the main track changes shape, width or space
+ * count. Split and join indices scale with the space count so branches
+ * stay where they were.
+ */
+export function regenerateBranches(
+  trackData: TrackData,
+  previousSpaceCount: number = trackData.spaces.length,
+): TrackData {
+  if (!trackData.branches?.length) return trackData;
+
+  const spaceCount = trackData.spaces.length;
+  const remap = (index: number) =>
+    remapSpaceIndex(index, previousSpaceCount, spaceCount);
+
+  return {
+    ...trackData,
+    branches: trackData.branches.map((branch) =>
+      buildBranch(
+        trackData,
+        {
+          ...branch,
+          splitSpaceIndex: remap(branch.splitSpaceIndex),
+          joinSpaceIndex: remap(branch.joinSpaceIndex),
+        },
+        branch.spaces.length,
+      ),
+    ),
+  };
+}
+
+/**
+ * Same place on the lap after the space count changes
+ */
+function remapSpaceIndex(
+  index: number,
+  previousSpaceCount: number,
+  spaceCount: number,
+): number {
+  return previousSpaceCount > 0 && previousSpaceCount !== spaceCount
+    ? wrapSpaceIndex(
+        Math.round((index * spaceCount) / previousSpaceCount),
+        spaceCount,
+      )
+    : index;
+}
 
+/**
+ * Regenerate spaces after the spline, space count or spot count changes
+ * Corners keep their arc-length position and are snapped to the nearest
+ * space line; collisions and long moves are returned as warnings
+ */
+export function rediscretizeTrack(
+  trackData: TrackData,
+  changes: {
+    points?: BezierPoint[];
+    spaceCount?: number;
+    spotCount?: number;
+  },
+): { trackData: TrackData; warnings: string[] } {
+  const { discretizationSettings } = trackData;
+  const oldSegments = getTrackSegments(trackData);
+
+  const splinePath = changes.points
+    ? {
+        ...trackData.splinePath,
+        points: changes.points,
+        segments: pointsToBezierSegments(changes.points, "C1"),
+      }
+    : trackData.splinePath;
+  const newSegments = changes.points ? splinePath.segments : oldSegments;
+
+  const spaceCount =
+    changes.spaceCount ??
+    (trackData.spaces.length || discretizationSettings.targetSpacesPerLap || 0);
+  const spotCount = changes.spotCount ?? discretizationSettings.spotCount;
+  const laneOverrides = trackData.laneOverrides?.map((override) => ({
+    ...override,
+    startSpaceIndex: remapSpaceIndex(
+      override.startSpaceIndex,
+      trackData.spaces.length,
+      spaceCount,
+    ),
+    endSpaceIndex: remapSpaceIndex(
+      override.endSpaceIndex,
+      trackData.spaces.length,
+      spaceCount,
+    ),
+  }));
+  const spaces = discretizePathToSpaces(
+    newSegments,
+    spaceCount,
+    100,
+    spotCount,
+    true,
+    trackData.widthPoints,
+    laneOverrides,
+  );
+  const remapArc = createArcRemapper(oldSegments, newSegments, spaceCount);
+  // Overlays follow their space line the same way corners do, so a legend
+  // line stays on its side of the corner line
+  const remapLine = (index: number) =>
+    trackData.spaces.length > 0
+      ? (remapArc?.remap(getSpaceLineArcPosition(trackData, index))
+          .spaceIndex ?? index)
+      : index;
+  const overpasses = trackData.overpasses?.map((overpass) => ({
+    ...overpass,
+    startSpaceIndex: remapLine(overpass.startSpaceIndex),
+    endSpaceIndex: remapLine(overpass.endSpaceIndex),
+  }));
+  const legendLines = trackData.legendLines?.map((legendLine) => ({
+    ...legendLine,
+    spaceIndex: remapLine(legendLine.spaceIndex),
+    diamondSpaceIndex: remapLine(legendLine.diamondSpaceIndex),
+  }));
+
+  const { corners, warnings } = remapCornersToSpaces(
+    trackData,
+    remapArc,
+    spaces,
+  );
+
+  const updatedTrackData: TrackData = {
+    ...trackData,
+    splinePath,
+    spaces,
+    corners,
+    laneOverrides,
+    legendLines,
+    overpasses,
+    discretizationSettings: {
+      ...discretizationSettings,
+      spotCount,
+      ...(changes.spaceCount !== undefined && {
+        targetSpacesPerLap: changes.spaceCount,
+        currentSpacesPerLap: changes.spaceCount,
+      }),
+    },
+  };
+
+  // Turn, apex and difficulty are measured again on the new curve and spaces
   return {
-    minX: Math.min(...xs),
-    maxX: Math.max(...xs),
-    minY: Math.min(...ys),
-    maxY: Math.max(...ys),
+    trackData: regenerateBranches(
+      {
+        ...updatedTrackData,
+        corners: corners.map((corner) =>
+          updateCornerGeometry(updatedTrackData, corner),
+        ),
+      },
+      trackData.spaces.length,
+    ),
+    warnings,
   };
 }
+
+/**
+ * Where arc positions on the old chain land on the new one, with the
+ * space line nearest each and how far that line is from the old place.
+ * On an edited spline a place stays where it physically was.
+ */
+function createArcRemapper(
+  oldSegments: BezierSegment[],
+  newSegments: BezierSegment[],
+  spaceCount: number,
+): {
+  spaceLength: number;
+  remap: (oldArc: number) => {
+    arcPosition: number;
+    spaceIndex: number;
+    distance: number;
+  };
+} | null {
+  const isSameGeometry = oldSegments === newSegments;
+  const oldSamples = sampleChainByArc(oldSegments);
+  const newSamples = isSameGeometry
+    ? oldSamples
+    : sampleChainByArc(newSegments);
+  const oldLength = oldSamples[oldSamples.length - 1]?.arc ?? 0;
+  const newLength = newSamples[newSamples.length - 1]?.arc ?? 0;
+  const spaceLength = spaceCount > 0 ? newLength / spaceCount : 0;
+  if (spaceLength === 0) return null;
+
+  const remap = (oldArc: number) => {
+    const oldPoint = pointAtArc(oldSamples, oldArc);
+    const arcPosition =
+      isSameGeometry || oldLength === 0
+        ? oldArc
+        : nearestArcToPoint(newSamples, oldPoint, oldArc / oldLength);
+
+    const rawIndex = Math.round(arcPosition / spaceLength - 0.5);
+    const spaceIndex = ((rawIndex % spaceCount) + spaceCount) % spaceCount;
+    const newPoint = pointAtArc(newSamples, (spaceIndex + 0.5) * spaceLength);
+
+    return {
+      arcPosition,
+      spaceIndex,
+      distance: Math.hypot(newPoint.x - oldPoint.x, newPoint.y - oldPoint.y),
+    };
+  };
+
+  return { spaceLength, remap };
+}
+
+/**
+ * Move corners onto the nearest space line of a re-discretized track
+ */
+function remapCornersToSpaces(
+  previousTrackData: TrackData,
+  remapArc: ReturnType<typeof createArcRemapper>,
+  spaces: Space[],
+): { corners: Corner[]; warnings: string[] } {
+  const { corners } = previousTrackData;
+  if (corners.length === 0 || !remapArc) {
+    return { corners, warnings: [] };
+  }
+
+  const warnings: string[] = [];
+
+  const remapped = corners.map((corner) => {
+    // Tracks saved before arc positions existed fall back to the space line
+    const oldArc =
+      corner.arcPosition ??
+      getSpaceLineArcPosition(previousTrackData, corner.spaceIndex);
+    const { arcPosition, spaceIndex, distance } = remapArc.remap(oldArc);
+    const space = spaces[spaceIndex];
+
+    if (distance > remapArc.spaceLength) {
+      warnings.push(
+        `Corner at space ${corner.spaceIndex} moved ${Math.round(distance)}px to space ${spaceIndex}`,
+      );
+    }
+
+    return {
+      ...corner,
+      spaceIndex,
+      arcPosition,
+      position: space?.position ?? corner.position,
+    };
+  });
+
+  // Corners are kept even when they collide, so no work is lost
+  const cornersBySpace = new Map<number, Corner[]>();
+  remapped.forEach((corner) => {
+    cornersBySpace.set(corner.spaceIndex, [
+      ...(cornersBySpace.get(corner.spaceIndex) ?? []),
+      corner,
+    ]);
+  });
+  cornersBySpace.forEach((group, spaceIndex) => {
+    if (group.length > 1) {
+      warnings.push(`${group.length} corners now share space ${spaceIndex}`);
+    }
+  });
+
+  return { corners: remapped, warnings };
+}
+
+/**
+ * Sample a Bezier chain with the running arc length at each sample
+ */
+function sampleChainByArc(
+  segments: BezierSegment[],
+): { point: Point; arc: number }[] {
+  const samples: { point: Point; arc: number }[] = [];
+  let arc = 0;
+
+  segments.forEach((_, segmentIndex) => {
+    for (let i = 0; i <= CORNER_PROJECTION_SAMPLES; i++) {
+      if (segmentIndex > 0 && i === 0) continue; // Shared with previous end
+
+      const point = evaluateChainAtT(
+        segments,
+        segmentIndex,
+        i / CORNER_PROJECTION_SAMPLES,
+      );
+      const previous = samples[samples.length - 1];
+      if (previous) {
+        arc += Math.hypot(
+          point.x - previous.point.x,
+          point.y - previous.point.y,
+        );
+      }
+      samples.push({ point, arc });
+    }
+  });
+
+  return samples;
+}
+
+/**
+ * Point at an arc length along sampled chain, wrapping around the lap
+ */
+function pointAtArc(samples: { point: Point; arc: number }[], arc: number) {
+  const totalLength = samples[samples.length - 1]?.arc ?? 0;
+  const target =
+    totalLength > 0 ? ((arc % totalLength) + totalLength) % totalLength : 0;
+  const next = samples.find((sample) => sample.arc >= target);
+  return next?.point ?? samples[0]?.point ?? { x: 0, y: 0 };
+}
+
+/**
+ * Arc length of the sample nearest a point, only looking around the
+ * expected lap fraction so a crossing track can't steal the corner
+ */
+function nearestArcToPoint(
+  samples: { point: Point; arc: number }[],
+  point: Point,
+  expectedFraction: number,
+): number {
+  const totalLength = samples[samples.length - 1]?.arc ?? 0;
+  let bestArc = expectedFraction * totalLength;
+  let bestDistance = Infinity;
+
+  for (const sample of samples) {
+    const fraction = totalLength > 0 ? sample.arc / totalLength : 0;
+    const offset = Math.abs(fraction - expectedFraction);
+    if (Math.min(offset, 1 - offset) > CORNER_PROJECTION_WINDOW) continue;
+
+    const distance = Math.hypot(
+      sample.point.x - point.x,
+      sample.point.y - point.y,
+    );
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestArc = sample.arc;
+    }
+  }
+
+  return bestArc;
+}